@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { advanceAfterMatch } from '@/lib/advancement';
+import { requireMatchPermission } from '@/lib/api-auth';
+
+/**
+ * Match advancement endpoint
+ * Called after a match result is recorded; creates every match whose
+ * players are now decided, so winners and losers can play on right away.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: matchId } = await params;
+
+  const auth = await requireMatchPermission(request, matchId, 'score');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const result = await advanceAfterMatch(matchId);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Advance match error:', error);
+    return NextResponse.json(
+      { error: 'Failed to advance bracket' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { previewCorrection, applyCorrection } from '@/lib/corrections';
+import { validateScore } from '@/lib/score-parser';
+import { requireMatchPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+
+interface CorrectResultRequest {
+  player1Score: number;
+  player2Score: number;
+  reason?: string;
+  dryRun?: boolean; // Only report the downstream impact
+  confirm?: boolean; // Go ahead even though affected matches are being played
+}
+
+/**
+ * Result correction endpoint
+ * Changes the score (and possibly the winner) of a completed match and
+ * repairs the later matches the old result fed into.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: matchId } = await params;
+
+  const auth = await requireMatchPermission(request, matchId, 'manage_tournament');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { player1Score, player2Score, reason, dryRun, confirm }: CorrectResultRequest =
+      await request.json();
+
+    const preview = await previewCorrection(matchId, { player1Score, player2Score, reason });
+
+    if (preview.match.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Only completed matches can be corrected' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateScore(
+      { player1Score, player2Score },
+      preview.matchLength,
+      preview.scoreRules
+    );
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    if (dryRun) {
+      return NextResponse.json(preview);
+    }
+
+    if (preview.blocked) {
+      return NextResponse.json(
+        { error: 'A later match has already been completed with the old result', preview },
+        { status: 409 }
+      );
+    }
+
+    if (preview.needsConfirmation && !confirm) {
+      return NextResponse.json(
+        { error: 'A later match with the old result is already being played', preview },
+        { status: 409 }
+      );
+    }
+
+    const outcome = await applyCorrection(
+      preview,
+      { player1Score, player2Score, reason },
+      getUserActor(auth.user)
+    );
+
+    if (outcome === 'changed') {
+      return NextResponse.json(
+        { error: 'The bracket changed while correcting. Check the result and try again.' },
+        { status: 409 }
+      );
+    }
+
+    if (outcome === 'partial') {
+      return NextResponse.json(
+        { error: 'Failed to correct result, and some changes could not be undone' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error('Correct result error:', error);
+    return NextResponse.json(
+      { error: 'Failed to correct result' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { requireMatchPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { advanceAfterMatch } from '@/lib/advancement';
+import { validateScore } from '@/lib/score-parser';
+import { validateScoresheet } from '@/lib/scoresheet';
+import type { Bracket, Division, Match, MatchGame } from '@/lib/database.types';
+
+interface ScoreEntryRequest {
+  player1Score: number;
+  player2Score: number;
+  games: MatchGame[];
+  tableNumber: number | null;
+}
+
+/**
+ * Score entry endpoint
+ * Records a result entered by a director, checked against the division's
+ * score rules, and creates the matches it unlocks.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: matchId } = await params;
+
+  const auth = await requireMatchPermission(request, matchId, 'score');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { player1Score, player2Score, games = [], tableNumber = null }: ScoreEntryRequest =
+      await request.json();
+
+    const { data, error: loadError } = await supabaseAdmin
+      .from('matches')
+      .select('*, bracket:brackets!inner (*, division:divisions!inner (*))')
+      .eq('id', matchId)
+      .single();
+
+    if (loadError) throw loadError;
+
+    const match = data as Match & { bracket: Bracket & { division: Division } };
+    const { division } = match.bracket;
+
+    if (!match.player1_id || !match.player2_id) {
+      return NextResponse.json({ error: 'This match is still waiting for players' }, { status: 400 });
+    }
+
+    const scoreError =
+      validateScore({ player1Score, player2Score }, division.match_length, division.score_rules).error ??
+      validateScoresheet(
+        games,
+        { player1Id: match.player1_id, player2Id: match.player2_id, player1Score, player2Score },
+        division.match_length,
+        division.score_rules
+      ).error;
+    if (scoreError) {
+      return NextResponse.json({ error: scoreError }, { status: 400 });
+    }
+
+    const winnerId = player1Score > player2Score ? match.player1_id : match.player2_id;
+
+    // Only a match still being played takes a result; corrections go through their own route
+    const { data: updated, error } = await supabaseAdmin
+      .from('matches')
+      .update({
+        player1_score: player1Score,
+        player2_score: player2Score,
+        winner_id: winnerId,
+        games: games.length > 0 ? games : null,
+        forfeit: null,
+        table_number: tableNumber,
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', matchId)
+      .in('status', ['pending', 'in_progress'])
+      .select('id');
+
+    if (error) throw error;
+    if (!updated || updated.length === 0) {
+      return NextResponse.json({ error: 'This match already has a result' }, { status: 409 });
+    }
+
+    await recordAuditEvent({
+      tournamentId: division.tournament_id,
+      action: 'match.score_entered',
+      actor: getUserActor(auth.user),
+      matchId,
+      details: {
+        player1_score: player1Score,
+        player2_score: player2Score,
+        winner_id: winnerId,
+        games: games.length,
+      },
+    });
+
+    // The result stands even if the next matches can't be created yet
+    try {
+      const advancement = await advanceAfterMatch(matchId);
+      return NextResponse.json({ winnerId, advancement });
+    } catch (advanceError) {
+      console.error('Failed to advance bracket:', advanceError);
+      return NextResponse.json({ winnerId, advancement: null });
+    }
+  } catch (error) {
+    console.error('Score entry error:', error);
+    return NextResponse.json({ error: 'Failed to save score' }, { status: 500 });
+  }
+}
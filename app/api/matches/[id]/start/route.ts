@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startMatch } from '@/lib/match-start';
+import { requireMatchPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+
+interface StartMatchRequest {
+  fromTable?: boolean; // Started by the table tablet's clock rather than the dashboard
+}
+
+/**
+ * Match start endpoint
+ * Marks a ready match as being played. Directors start matches from the
+ * dashboard, and the table tablet checks in when its clock starts; either
+ * way the device must be signed in as staff who can score.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: matchId } = await params;
+
+  const auth = await requireMatchPermission(request, matchId, 'score');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    // The dashboard sends no body
+    const { fromTable }: StartMatchRequest = await request.json().catch(() => ({}));
+
+    const started = await startMatch(
+      matchId,
+      getUserActor(auth.user),
+      fromTable ? 'table' : 'director'
+    );
+
+    if (!started) {
+      return NextResponse.json(
+        { error: 'This match is not waiting to start' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ match: started });
+  } catch (error) {
+    console.error('Start match error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start match' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTimeForfeitMatch, recordTimeForfeit } from '@/lib/time-forfeit';
+import { requireMatchPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { getClockSettings } from '@/lib/match-clock';
+
+interface TimeForfeitRequest {
+  loserId: string; // The player whose clock ran out
+  loserScore: number; // Their score when it did
+}
+
+/**
+ * Time forfeit endpoint
+ * Records a match lost on the clock and creates the matches the result
+ * unlocks.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: matchId } = await params;
+
+  const auth = await requireMatchPermission(request, matchId, 'score');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { loserId, loserScore }: TimeForfeitRequest = await request.json();
+
+    const forfeit = await getTimeForfeitMatch(matchId);
+    const { match, division } = forfeit;
+
+    if (match.status !== 'pending' && match.status !== 'in_progress') {
+      return NextResponse.json(
+        { error: 'This match already has a result' },
+        { status: 409 }
+      );
+    }
+
+    if (getClockSettings(division).overtime !== 'forfeit') {
+      return NextResponse.json(
+        { error: 'In this division the director rules on players who run out of time' },
+        { status: 400 }
+      );
+    }
+
+    if (!match.player1_id || !match.player2_id || (loserId !== match.player1_id && loserId !== match.player2_id)) {
+      return NextResponse.json(
+        { error: 'The player who ran out of time is not in this match' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(loserScore) || loserScore < 0 || loserScore >= division.match_length) {
+      return NextResponse.json(
+        { error: `The score must be between 0 and ${division.match_length - 1}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordTimeForfeit(forfeit, loserId, loserScore, getUserActor(auth.user));
+    if (!result) {
+      return NextResponse.json(
+        { error: 'This match already has a result' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Time forfeit error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record time forfeit' },
+      { status: 500 }
+    );
+  }
+}
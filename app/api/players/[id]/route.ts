@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { requirePlayerPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { recordAuditEvents } from '@/lib/audit';
+import { isPhoneTaken, toPlayerRow, validatePlayer, type PlayerInput } from '@/lib/players';
+import type { Player } from '@/lib/database.types';
+
+/**
+ * Player update endpoint
+ * Changes a player's details. Only directors who manage players in a
+ * tournament the player is entered in may, since the SMS webhook knows
+ * players by their phone. The change is logged in each of the player's
+ * tournaments.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: playerId } = await params;
+
+  const auth = await requirePlayerPermission(request, playerId);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const input: PlayerInput = await request.json();
+
+    const invalid = validatePlayer(input);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const { data: player, error: loadError } = await supabaseAdmin
+      .from('players')
+      .select('*')
+      .eq('id', playerId)
+      .single();
+
+    if (loadError) throw loadError;
+
+    const row = toPlayerRow(input);
+    if (row.phone && row.phone !== player.phone && (await isPhoneTaken(row.phone, playerId))) {
+      return NextResponse.json(
+        { error: 'Another player already has this phone' },
+        { status: 409 }
+      );
+    }
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('players')
+      .update(row)
+      .eq('id', playerId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'Another player already has this email or phone' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    const changed = (Object.keys(row) as (keyof Player)[]).filter(key => row[key] !== player[key]);
+    if (changed.length > 0) {
+      const { data: entries } = await supabaseAdmin
+        .from('tournament_entries')
+        .select('tournament_id')
+        .eq('player_id', playerId);
+
+      const actor = getUserActor(auth.user);
+      await recordAuditEvents(
+        [...new Set((entries || []).map(e => e.tournament_id as string))].map(tournamentId => ({
+          tournamentId,
+          action: 'player.updated' as const,
+          actor,
+          playerId,
+          details: {
+            from: Object.fromEntries(changed.map(key => [key, player[key]])),
+            to: Object.fromEntries(changed.map(key => [key, row[key]])),
+          },
+        }))
+      );
+    }
+
+    return NextResponse.json({ player: updated });
+  } catch (error) {
+    console.error('Update player error:', error);
+    return NextResponse.json({ error: 'Failed to update player' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { requirePlayerPermission } from '@/lib/api-auth';
+import { isPhoneTaken, toPlayerRow, validatePlayer, type PlayerInput } from '@/lib/players';
+
+/**
+ * Player creation endpoint
+ * Adds a player to the shared player database. Players belong to no
+ * tournament until they are entered in one, which is what the audit log
+ * records.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requirePlayerPermission(request, null);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const input: PlayerInput = await request.json();
+
+    const invalid = validatePlayer(input);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const row = toPlayerRow(input);
+    if (row.phone && (await isPhoneTaken(row.phone))) {
+      return NextResponse.json(
+        { error: 'A player with this phone already exists' },
+        { status: 409 }
+      );
+    }
+
+    const { data: player, error } = await supabaseAdmin
+      .from('players')
+      .insert({ ...row, name: row.name! })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A player with this email or phone already exists' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ player });
+  } catch (error) {
+    console.error('Create player error:', error);
+    return NextResponse.json({ error: 'Failed to create player' }, { status: 500 });
+  }
+}
@@ -1,31 +1,72 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { sendSMS } from '@/lib/twilio';
+import { queueSMS } from '@/lib/sms-queue';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { loadMessenger, SMS_TEMPLATES, type SmsTemplateKey } from '@/lib/sms-templates';
+import type { Player } from '@/lib/database.types';
 
 /**
  * Send SMS endpoint
- * Used internally to send confirmation/rejection messages to players
+ * Used internally to queue confirmation/rejection messages to players.
+ * Either a literal message, or a template rendered in the tournament's
+ * wording and the player's language. Only directors who can score the
+ * tournament may send, and only to players entered in it.
  */
 export async function POST(request: NextRequest) {
   try {
-    const { to, message } = await request.json();
+    const { to, message, template, values, playerId, tournamentId } = await request.json();
 
-    if (!to || !message) {
+    if (!to || !(message || template) || !tournamentId) {
       return NextResponse.json(
-        { error: 'Missing required fields: to, message' },
+        { error: 'Missing required fields: to, message or template, tournamentId' },
         { status: 400 }
       );
     }
+    if (template && !Object.hasOwn(SMS_TEMPLATES, template)) {
+      return NextResponse.json({ error: `Unknown template: ${template}` }, { status: 400 });
+    }
+
+    const auth = await requireTournamentPermission(request, tournamentId, 'score');
+    if (auth instanceof NextResponse) return auth;
 
-    const result = await sendSMS(to, message);
+    const { data: entry, error: entryError } = await supabaseAdmin
+      .from('tournament_entries')
+      .select('player:players!inner (id, language)')
+      .eq('tournament_id', tournamentId)
+      .eq('player.phone', to)
+      .limit(1)
+      .maybeSingle();
 
-    if (!result.success) {
+    if (entryError) throw entryError;
+
+    const player = entry?.player as unknown as Pick<Player, 'id' | 'language'> | undefined;
+    if (!player || (playerId && playerId !== player.id)) {
       return NextResponse.json(
-        { error: result.error || 'Failed to send SMS' },
-        { status: 500 }
+        { error: 'Messages can only go to players in this tournament' },
+        { status: 403 }
       );
     }
 
-    return NextResponse.json({ success: true });
+    let text: string = message;
+    if (template) {
+      const say = await loadMessenger(player.language, tournamentId);
+      text = say(template as SmsTemplateKey, values);
+    }
+
+    // Sent now if possible; otherwise the queue retries it
+    const queued = await queueSMS({
+      to,
+      body: text,
+      tournamentId,
+      playerId: player.id,
+      template: template ?? null,
+    });
+
+    if (!queued) {
+      return NextResponse.json({ error: 'Failed to queue SMS' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, message: queued });
   } catch (error) {
     console.error('Send SMS error:', error);
     return NextResponse.json(
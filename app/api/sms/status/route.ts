@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateTwilioSignature } from '@/lib/twilio';
+import { applyDeliveryStatus } from '@/lib/sms-queue';
+
+/**
+ * SMS status callback endpoint for Twilio
+ * Records whether a queued text was delivered or failed
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const params: Record<string, string> = {};
+    formData.forEach((value, key) => {
+      params[key] = value.toString();
+    });
+
+    // Validate Twilio signature in production
+    if (process.env.NODE_ENV === 'production') {
+      const signature = request.headers.get('x-twilio-signature') || '';
+      const url = `${process.env.NEXT_PUBLIC_APP_URL || ''}/api/sms/status`;
+      if (!validateTwilioSignature(signature, url, params)) {
+        console.error('Invalid Twilio signature');
+        return NextResponse.json({ error: 'Invalid request' }, { status: 403 });
+      }
+    }
+
+    const sid = params['MessageSid'];
+    const status = params['MessageStatus'];
+    if (!sid || !status) {
+      return NextResponse.json({ error: 'Missing MessageSid or MessageStatus' }, { status: 400 });
+    }
+
+    const found = await applyDeliveryStatus(sid, status, params['ErrorCode']);
+    if (!found) {
+      console.warn('Status callback for unknown message:', sid);
+    }
+
+    // Twilio only needs a 2xx; an unknown sid isn't worth a retry from them
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('SMS status callback error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,299 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { recordAuditEvents } from '@/lib/audit';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { callMatches } from '@/lib/match-calls';
+import { generateRound1Matches, orderForSeeding } from '@/lib/bracket-generator';
+import { assignTables } from '@/lib/table-pool';
+import { getTablePool } from '@/lib/table-assignment';
+import type { Bracket, BracketType, Division, Match, TournamentEntry } from '@/lib/database.types';
+
+interface DivisionWithEntries extends Division {
+  tournament_entries: TournamentEntry[];
+}
+
+interface GenerateBracketsRequest {
+  drawMode?: 'random' | 'seeded';
+  seedOrders?: Record<string, string[]>; // Division id -> entry ids in seed order
+}
+
+// Postgres unique violation: another request generated these brackets first
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Undo everything a failed request wrote: its matches and brackets, and the
+ * seeds it saved. Returns false if any of it could not be removed.
+ */
+async function rollBack(
+  createdBracketIds: string[],
+  previousSeeds: { id: string; seed: number | null }[]
+): Promise<boolean> {
+  let clean = true;
+
+  if (createdBracketIds.length > 0) {
+    const { error: matchesError } = await supabaseAdmin
+      .from('matches')
+      .delete()
+      .in('bracket_id', createdBracketIds);
+    if (matchesError) {
+      console.error('Failed to roll back matches:', matchesError);
+      clean = false;
+    }
+
+    const { error: bracketsError } = await supabaseAdmin
+      .from('brackets')
+      .delete()
+      .in('id', createdBracketIds);
+    if (bracketsError) {
+      console.error('Failed to roll back brackets:', bracketsError);
+      clean = false;
+    }
+  }
+
+  for (const entry of previousSeeds) {
+    const { error: seedError } = await supabaseAdmin
+      .from('tournament_entries')
+      .update({ seed: entry.seed })
+      .eq('id', entry.id);
+    if (seedError) {
+      console.error('Failed to restore seed:', seedError);
+      clean = false;
+    }
+  }
+
+  return clean;
+}
+
+/**
+ * Bracket generation endpoint
+ * Creates brackets and round 1 matches for every division of a tournament,
+ * then starts the tournament. Either every division is generated or,
+ * if any write fails, everything written by this request is undone again.
+ * A unique (division_id, bracket_type) constraint stops two requests
+ * generating the same division at once.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+  const createdBracketIds: string[] = [];
+  const previousSeeds: { id: string; seed: number | null }[] = [];
+  let alreadyGenerated: string | null = null;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'manage_tournament');
+  if (auth instanceof NextResponse) return auth;
+  const actor = getUserActor(auth.user);
+
+  try {
+    const { drawMode = 'random', seedOrders = {} }: GenerateBracketsRequest = await request
+      .json()
+      .catch(() => ({}));
+
+    const { data: divisionsData, error: divisionsError } = await supabaseAdmin
+      .from('divisions')
+      .select(`
+        *,
+        tournament_entries (
+          *,
+          player:players (*)
+        )
+      `)
+      .eq('tournament_id', tournamentId);
+
+    if (divisionsError) throw divisionsError;
+
+    const divisions = (divisionsData || []) as DivisionWithEntries[];
+    if (divisions.length === 0) {
+      return NextResponse.json({ error: 'Tournament has no divisions' }, { status: 404 });
+    }
+
+    // Refuse to generate twice for the same division
+    const { data: existingBrackets, error: existingError } = await supabaseAdmin
+      .from('brackets')
+      .select('division_id')
+      .in('division_id', divisions.map((d) => d.id));
+
+    if (existingError) throw existingError;
+
+    const generatedDivisions = divisions.filter((d) =>
+      existingBrackets?.some((b) => b.division_id === d.id)
+    );
+    if (generatedDivisions.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Brackets already exist for: ${generatedDivisions.map((d) => d.name).join(', ')}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Check that each division has at least 2 checked-in players
+    const insufficientDivisions = divisions.filter(
+      (d) => d.tournament_entries.filter((e) => e.checked_in).length < 2
+    );
+    if (insufficientDivisions.length > 0) {
+      return NextResponse.json(
+        {
+          error: `These divisions need at least 2 checked-in players: ${insufficientDivisions
+            .map((d) => d.name)
+            .join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const results: { division_id: string; brackets: Bracket[]; matches: Match[] }[] = [];
+    // Saved only once every division's matches exist
+    const seeds: { id: string; seed: number }[] = [];
+
+    // Divisions share the tournament's tables, so no two round 1 matches collide
+    const tablePool = await getTablePool(tournamentId);
+    const occupiedTables: number[] = [];
+
+    for (const division of divisions) {
+      const checkedInEntries = division.tournament_entries.filter((e) => e.checked_in);
+
+      // Seeded draws follow the director's order (falling back to manual
+      // seed / rating order), which is saved as each entry's seed
+      let drawEntries = checkedInEntries;
+      if (drawMode === 'seeded') {
+        const order = seedOrders[division.id] || [];
+        const ordered = order
+          .map((id) => checkedInEntries.find((e) => e.id === id))
+          .filter((e): e is TournamentEntry => !!e);
+        const remaining = orderForSeeding(
+          checkedInEntries
+            .filter((e) => !ordered.includes(e))
+            .map((e) => ({ ...e, rating: e.player?.rating ?? null }))
+        );
+        drawEntries = [...ordered, ...remaining];
+        seeds.push(...drawEntries.map((entry, index) => ({ id: entry.id, seed: index + 1 })));
+      }
+
+      // Main bracket starts in progress; the rest fill as players arrive
+      const bracketTypes: BracketType[] = ['main', 'consolation', 'grand_final'];
+      if (division.last_chance_settings?.consolation_rounds.length) {
+        bracketTypes.push('last_chance');
+      }
+
+      const { data: brackets, error: bracketsError } = await supabaseAdmin
+        .from('brackets')
+        .insert(
+          bracketTypes.map((bracketType) => ({
+            division_id: division.id,
+            bracket_type: bracketType,
+            current_round: 1,
+            status: bracketType === 'main' ? 'in_progress' : 'pending',
+          }))
+        )
+        .select();
+
+      if (bracketsError) {
+        if (bracketsError.code === UNIQUE_VIOLATION) alreadyGenerated = division.name;
+        throw bracketsError;
+      }
+      createdBracketIds.push(...(brackets as Bracket[]).map((b) => b.id));
+
+      const mainBracket = (brackets as Bracket[]).find((b) => b.bracket_type === 'main')!;
+
+      // Generate Round 1 matches (byes go to top seeds, spread by seed position)
+      const round1 = assignTables(
+        generateRound1Matches(
+          drawEntries.map((e) => ({ id: e.player_id })),
+          1,
+          { seeded: drawMode === 'seeded' }
+        ),
+        tablePool,
+        division.id,
+        occupiedTables
+      ).map((match) => ({ ...match, bracket_id: mainBracket.id }));
+      occupiedTables.push(
+        ...round1.filter((m) => m.table_number !== null).map((m) => m.table_number as number)
+      );
+
+      const { data: matches, error: matchesError } = await supabaseAdmin
+        .from('matches')
+        .insert(round1)
+        .select();
+
+      if (matchesError) throw matchesError;
+
+      results.push({
+        division_id: division.id,
+        brackets: brackets as Bracket[],
+        matches: matches as Match[],
+      });
+    }
+
+    for (const { id, seed } of seeds) {
+      const entry = divisions.flatMap((d) => d.tournament_entries).find((e) => e.id === id);
+      previousSeeds.push({ id, seed: entry?.seed ?? null });
+
+      const { error: seedError } = await supabaseAdmin
+        .from('tournament_entries')
+        .update({ seed })
+        .eq('id', id);
+
+      if (seedError) throw seedError;
+    }
+
+    const { error: tournamentError } = await supabaseAdmin
+      .from('tournaments')
+      .update({ status: 'in_progress' })
+      .eq('id', tournamentId);
+
+    if (tournamentError) throw tournamentError;
+
+    await recordAuditEvents([
+      ...divisions.map((division) => ({
+        tournamentId,
+        action: 'brackets.generated' as const,
+        actor,
+        details: {
+          division: division.name,
+          draw_mode: drawMode,
+          matches: results.find((r) => r.division_id === division.id)?.matches.length ?? 0,
+        },
+      })),
+      {
+        tournamentId,
+        action: 'tournament.status_changed',
+        actor,
+        details: { status: 'in_progress' },
+      },
+    ]);
+
+    try {
+      await callMatches(results.flatMap((r) => r.matches.map((m) => m.id)));
+    } catch (callError) {
+      console.error('Failed to send match calls:', callError);
+    }
+
+    return NextResponse.json({ divisions: results }, { status: 201 });
+  } catch (error) {
+    console.error('Generate brackets error:', error);
+
+    // Roll back anything this request wrote
+    const rolledBack = await rollBack(createdBracketIds, previousSeeds);
+    if (!rolledBack) {
+      return NextResponse.json(
+        { error: 'Failed to generate brackets, and some of them could not be removed' },
+        { status: 500 }
+      );
+    }
+
+    if (alreadyGenerated) {
+      return NextResponse.json(
+        { error: `Brackets already exist for: ${alreadyGenerated}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to generate brackets' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { callToTable } from '@/lib/table-assignment';
+
+interface CallToTableRequest {
+  matchId: string;
+  tableNumber: number;
+}
+
+/**
+ * Call queue endpoint
+ * Calls a match waiting for a table: assigns the table, texts the players
+ * and starts the match
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'score');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { matchId, tableNumber }: CallToTableRequest = await request.json();
+
+    const callError = await callToTable(tournamentId, matchId, tableNumber, getUserActor(auth.user));
+    if (callError) {
+      return NextResponse.json({ error: callError }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Call to table error:', error);
+    return NextResponse.json({ error: 'Failed to call match' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { advanceDivision } from '@/lib/advancement';
+import { requireTournamentPermission } from '@/lib/api-auth';
+
+/**
+ * Division advancement endpoint
+ * Creates any matches a division's results have decided. Advancement
+ * normally runs after every result; this lets a director retry it when
+ * that failed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; divisionId: string }> }
+) {
+  const { id: tournamentId, divisionId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'score');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { data: division } = await supabaseAdmin
+      .from('divisions')
+      .select('id')
+      .eq('id', divisionId)
+      .eq('tournament_id', tournamentId)
+      .maybeSingle();
+
+    if (!division) {
+      return NextResponse.json({ error: 'Division not found' }, { status: 404 });
+    }
+
+    const result = await advanceDivision(divisionId);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Advance division error:', error);
+    return NextResponse.json({ error: 'Failed to advance bracket' }, { status: 500 });
+  }
+}
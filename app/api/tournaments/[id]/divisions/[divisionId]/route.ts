@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { CLOCK_OVERTIME } from '@/lib/match-clock';
+import type { ClockSettings, Division, LastChanceSettings, ScoreRules } from '@/lib/database.types';
+
+interface UpdateDivisionRequest {
+  scoreRules?: ScoreRules;
+  lastChanceSettings?: LastChanceSettings | null;
+  clockRequired?: boolean;
+  clockSettings?: ClockSettings;
+}
+
+/**
+ * Division settings endpoint
+ * Saves a division's score rules, match clock and, before brackets exist,
+ * its last chance settings
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; divisionId: string }> }
+) {
+  const { id: tournamentId, divisionId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'manage_tournament');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { scoreRules, lastChanceSettings, clockRequired, clockSettings }: UpdateDivisionRequest =
+      await request.json();
+
+    const { data: division } = await supabaseAdmin
+      .from('divisions')
+      .select('id, name, tournament:tournaments!inner (status)')
+      .eq('id', divisionId)
+      .eq('tournament_id', tournamentId)
+      .maybeSingle();
+
+    if (!division) {
+      return NextResponse.json({ error: 'Division not found' }, { status: 404 });
+    }
+
+    const update: Partial<Division> = {};
+
+    if (scoreRules !== undefined) {
+      if (!Number.isInteger(scoreRules?.max_overshoot) || scoreRules.max_overshoot < 0) {
+        return NextResponse.json({ error: 'Invalid score rules' }, { status: 400 });
+      }
+      update.score_rules = { max_overshoot: scoreRules.max_overshoot };
+    }
+
+    if (lastChanceSettings !== undefined) {
+      const tournament = division.tournament as unknown as { status: string };
+      if (tournament.status !== 'draft') {
+        return NextResponse.json(
+          { error: 'Last chance can only change before brackets are generated' },
+          { status: 400 }
+        );
+      }
+      if (
+        lastChanceSettings &&
+        !lastChanceSettings.consolation_rounds.every(r => Number.isInteger(r) && r > 0)
+      ) {
+        return NextResponse.json({ error: 'Invalid last chance settings' }, { status: 400 });
+      }
+      update.last_chance_settings = lastChanceSettings;
+    }
+
+    if (clockRequired !== undefined) {
+      update.clock_required = clockRequired === true;
+    }
+
+    if (clockSettings !== undefined) {
+      if (
+        !Number.isInteger(clockSettings?.reserve_minutes) ||
+        clockSettings.reserve_minutes < 1 ||
+        !Number.isInteger(clockSettings.delay_seconds) ||
+        clockSettings.delay_seconds < 0 ||
+        !Object.hasOwn(CLOCK_OVERTIME, clockSettings.overtime)
+      ) {
+        return NextResponse.json({ error: 'Invalid clock settings' }, { status: 400 });
+      }
+      update.clock_settings = {
+        reserve_minutes: clockSettings.reserve_minutes,
+        delay_seconds: clockSettings.delay_seconds,
+        overtime: clockSettings.overtime,
+      };
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin.from('divisions').update(update).eq('id', divisionId);
+
+    if (error) throw error;
+
+    await recordAuditEvent({
+      tournamentId,
+      action: 'division.settings_changed',
+      actor: getUserActor(auth.user),
+      details: { division: division.name, ...update },
+    });
+
+    return NextResponse.json(update);
+  } catch (error) {
+    console.error('Update division error:', error);
+    return NextResponse.json({ error: 'Failed to update division' }, { status: 500 });
+  }
+}
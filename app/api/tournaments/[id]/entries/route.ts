@@ -0,0 +1,275 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { recordAuditEvent, recordAuditEvents, type AuditEventInput } from '@/lib/audit';
+import { isPhoneTaken, toPlayerRow, validatePlayer, type PlayerInput } from '@/lib/players';
+import type { Division, TournamentEntry } from '@/lib/database.types';
+
+interface AddEntryRequest {
+  divisionId: string;
+  entryFeePaid?: boolean;
+  playerId?: string; // An existing player
+  newPlayer?: PlayerInput; // Or one to create first
+}
+
+interface UpdateEntriesRequest {
+  entryIds: string[];
+  checkedIn?: boolean;
+  entryFeePaid?: boolean;
+  divisionId?: string;
+}
+
+type EntryWithDivision = TournamentEntry & { division: Pick<Division, 'name'> };
+
+/**
+ * Entry registration endpoint
+ * Enters a player in one of the tournament's divisions, creating the
+ * player first when they are new
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'manage_players');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { divisionId, entryFeePaid, playerId, newPlayer }: AddEntryRequest = await request.json();
+
+    if (!playerId === !newPlayer) {
+      return NextResponse.json({ error: 'Give an existing player or a new one' }, { status: 400 });
+    }
+
+    const { data: division } = await supabaseAdmin
+      .from('divisions')
+      .select('name')
+      .eq('id', divisionId)
+      .eq('tournament_id', tournamentId)
+      .maybeSingle();
+
+    if (!division) {
+      return NextResponse.json({ error: 'Division not found' }, { status: 404 });
+    }
+
+    let player: { id: string; name: string } | null;
+
+    if (newPlayer) {
+      const invalid = validatePlayer(newPlayer);
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+      }
+
+      const row = toPlayerRow(newPlayer);
+      if (row.phone && (await isPhoneTaken(row.phone))) {
+        return NextResponse.json(
+          { error: 'A player with this phone already exists' },
+          { status: 409 }
+        );
+      }
+
+      const { data: created, error: playerError } = await supabaseAdmin
+        .from('players')
+        .insert({ ...row, name: row.name! })
+        .select('id, name')
+        .single();
+
+      if (playerError) {
+        if (playerError.code === '23505') {
+          return NextResponse.json(
+            { error: 'A player with this email or phone already exists' },
+            { status: 409 }
+          );
+        }
+        throw playerError;
+      }
+      player = created;
+    } else {
+      const { data: existing } = await supabaseAdmin
+        .from('players')
+        .select('id, name')
+        .eq('id', playerId)
+        .maybeSingle();
+      player = existing;
+    }
+
+    if (!player) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+
+    const { data: registered } = await supabaseAdmin
+      .from('tournament_entries')
+      .select('id')
+      .eq('tournament_id', tournamentId)
+      .eq('player_id', player.id)
+      .eq('division_id', divisionId)
+      .maybeSingle();
+
+    if (registered) {
+      return NextResponse.json(
+        { error: 'Player is already registered in this division' },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabaseAdmin.from('tournament_entries').insert({
+      tournament_id: tournamentId,
+      player_id: player.id,
+      division_id: divisionId,
+      entry_fee_paid: entryFeePaid === true,
+      checked_in: false,
+    });
+
+    if (error) throw error;
+
+    await recordAuditEvent({
+      tournamentId,
+      action: 'entry.added',
+      actor: getUserActor(auth.user),
+      playerId: player.id,
+      details: { division: division.name, new_player: !!newPlayer },
+    });
+
+    return NextResponse.json({ player });
+  } catch (error) {
+    console.error('Add entry error:', error);
+    return NextResponse.json({ error: 'Failed to add player' }, { status: 500 });
+  }
+}
+
+/**
+ * Entry update endpoint
+ * Checks players in, marks entry fees and moves players between
+ * divisions. One change per request, applied to every entry given.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'manage_players');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { entryIds, checkedIn, entryFeePaid, divisionId }: UpdateEntriesRequest =
+      await request.json();
+
+    const changes = [checkedIn, entryFeePaid, divisionId].filter(c => c !== undefined);
+    if (!Array.isArray(entryIds) || entryIds.length === 0 || changes.length !== 1) {
+      return NextResponse.json({ error: 'Give the entries and one change' }, { status: 400 });
+    }
+
+    const { data: entries, error: loadError } = await supabaseAdmin
+      .from('tournament_entries')
+      .select('*, division:divisions (name)')
+      .eq('tournament_id', tournamentId)
+      .in('id', entryIds);
+
+    if (loadError) throw loadError;
+    if (!entries || entries.length !== entryIds.length) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    const actor = getUserActor(auth.user);
+    let update: Partial<TournamentEntry>;
+    let events: AuditEventInput[];
+
+    if (checkedIn !== undefined) {
+      update = { checked_in: checkedIn };
+      events = (entries as EntryWithDivision[]).map(entry => ({
+        tournamentId,
+        action: checkedIn ? 'entry.checked_in' : 'entry.check_in_removed',
+        actor,
+        playerId: entry.player_id,
+      }));
+    } else if (entryFeePaid !== undefined) {
+      update = { entry_fee_paid: entryFeePaid };
+      events = (entries as EntryWithDivision[]).map(entry => ({
+        tournamentId,
+        action: entryFeePaid ? 'entry.fee_paid' : 'entry.fee_unpaid',
+        actor,
+        playerId: entry.player_id,
+      }));
+    } else {
+      const { data: division } = await supabaseAdmin
+        .from('divisions')
+        .select('name')
+        .eq('id', divisionId)
+        .eq('tournament_id', tournamentId)
+        .maybeSingle();
+
+      if (!division) {
+        return NextResponse.json({ error: 'Division not found' }, { status: 404 });
+      }
+
+      update = { division_id: divisionId };
+      events = (entries as EntryWithDivision[]).map(entry => ({
+        tournamentId,
+        action: 'entry.division_changed',
+        actor,
+        playerId: entry.player_id,
+        details: { from: entry.division?.name, to: division.name },
+      }));
+    }
+
+    const { error } = await supabaseAdmin
+      .from('tournament_entries')
+      .update(update)
+      .eq('tournament_id', tournamentId)
+      .in('id', entryIds);
+
+    if (error) throw error;
+
+    await recordAuditEvents(events);
+
+    return NextResponse.json({ updated: entries.length });
+  } catch (error) {
+    console.error('Update entries error:', error);
+    return NextResponse.json({ error: 'Failed to update entries' }, { status: 500 });
+  }
+}
+
+/**
+ * Entry removal endpoint
+ * Takes a player out of the tournament
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'manage_players');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { entryId }: { entryId: string } = await request.json();
+
+    const { data: removed, error } = await supabaseAdmin
+      .from('tournament_entries')
+      .delete()
+      .eq('id', entryId)
+      .eq('tournament_id', tournamentId)
+      .select('player_id');
+
+    if (error) throw error;
+    if (!removed || removed.length === 0) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    await recordAuditEvent({
+      tournamentId,
+      action: 'entry.removed',
+      actor: getUserActor(auth.user),
+      playerId: removed[0].player_id,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove entry error:', error);
+    return NextResponse.json({ error: 'Failed to remove player' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { retryMessage } from '@/lib/sms-queue';
+import { requireTournamentPermission } from '@/lib/api-auth';
+
+/**
+ * SMS retry endpoint
+ * Puts a failed text back in the queue and tries it straight away
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; messageId: string }> }
+) {
+  const { id: tournamentId, messageId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'score');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const message = await retryMessage(messageId, tournamentId);
+    if (!message) {
+      return NextResponse.json({ error: 'No failed message to retry' }, { status: 404 });
+    }
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error('Retry SMS error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processQueue } from '@/lib/sms-queue';
+import { requireTournamentPermission } from '@/lib/api-auth';
+
+/**
+ * SMS queue endpoint
+ * Sends the tournament's queued texts whose retry or rate-limit wait is
+ * over. Called by the messages page.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'view');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const sent = await processQueue(tournamentId);
+    return NextResponse.json({ sent });
+  } catch (error) {
+    console.error('Process SMS queue error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import type { TournamentStatus } from '@/lib/database.types';
+
+// The statuses a tournament can move to from each status. A finished
+// tournament can be reopened, e.g. to correct a result.
+const TRANSITIONS: Record<TournamentStatus, TournamentStatus[]> = {
+  draft: ['in_progress', 'cancelled'],
+  in_progress: ['draft', 'completed', 'cancelled'],
+  completed: ['in_progress'],
+  cancelled: ['draft', 'in_progress'],
+};
+
+/**
+ * Tournament status endpoint
+ * Starts, completes or cancels the tournament. It only goes back to draft
+ * while no brackets have been drawn, since draft lets entries change.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'manage_tournament');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { status }: { status: TournamentStatus } = await request.json();
+
+    if (!Object.hasOwn(TRANSITIONS, status)) {
+      return NextResponse.json({ error: 'Unknown tournament status' }, { status: 400 });
+    }
+
+    const { data: tournament, error: loadError } = await supabaseAdmin
+      .from('tournaments')
+      .select('status')
+      .eq('id', tournamentId)
+      .single();
+
+    if (loadError) throw loadError;
+
+    if (!TRANSITIONS[tournament.status as TournamentStatus].includes(status)) {
+      return NextResponse.json(
+        { error: `A ${tournament.status} tournament cannot be moved to ${status}` },
+        { status: 400 }
+      );
+    }
+
+    if (status === 'draft') {
+      const { count, error: bracketsError } = await supabaseAdmin
+        .from('brackets')
+        .select('id, division:divisions!inner (tournament_id)', { count: 'exact', head: true })
+        .eq('division.tournament_id', tournamentId);
+
+      if (bracketsError) throw bracketsError;
+      if (count) {
+        return NextResponse.json(
+          { error: 'Brackets have been drawn, so the tournament cannot go back to draft' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('tournaments')
+      .update({ status })
+      .eq('id', tournamentId)
+      .eq('status', tournament.status)
+      .select('id');
+
+    if (error) throw error;
+    if (!updated || updated.length === 0) {
+      return NextResponse.json(
+        { error: 'The tournament status changed meanwhile. Reload and try again.' },
+        { status: 409 }
+      );
+    }
+
+    await recordAuditEvent({
+      tournamentId,
+      action: 'tournament.status_changed',
+      actor: getUserActor(auth.user),
+      details: { from: tournament.status, status },
+    });
+
+    return NextResponse.json({ status });
+  } catch (error) {
+    console.error('Update tournament status error:', error);
+    return NextResponse.json({ error: 'Failed to update tournament status' }, { status: 500 });
+  }
+}
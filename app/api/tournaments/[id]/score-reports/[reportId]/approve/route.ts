@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { approveReport, getReport } from '@/lib/score-confirmation';
+import { validateScore } from '@/lib/score-parser';
+
+interface ApproveReportRequest {
+  player1Score?: number; // Director's correction of the parsed score
+  player2Score?: number;
+}
+
+/**
+ * Score report approval endpoint
+ * Records a reported score, as texted or as corrected by the director,
+ * and lets the reporter know.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reportId: string }> }
+) {
+  const { id: tournamentId, reportId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'score');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { player1Score, player2Score }: ApproveReportRequest = await request.json();
+
+    const report = await getReport(tournamentId, reportId);
+    if (!report) {
+      return NextResponse.json({ error: 'Score report not found' }, { status: 404 });
+    }
+
+    const finalP1Score = player1Score ?? report.parsed_player1_score;
+    const finalP2Score = player2Score ?? report.parsed_player2_score;
+    const { division } = report.match.bracket;
+    const { error: scoreError } = validateScore(
+      { player1Score: finalP1Score ?? undefined, player2Score: finalP2Score ?? undefined },
+      division.match_length,
+      division.score_rules
+    );
+    if (scoreError || finalP1Score === null || finalP2Score === null) {
+      return NextResponse.json({ error: scoreError || 'Enter both scores' }, { status: 400 });
+    }
+
+    const approved = await approveReport(
+      report,
+      finalP1Score,
+      finalP2Score,
+      auth.user.id,
+      getUserActor(auth.user)
+    );
+    if (!approved) {
+      return NextResponse.json(
+        { error: 'This match already has a result or the report was settled' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Approve score report error:', error);
+    return NextResponse.json({ error: 'Failed to approve score' }, { status: 500 });
+  }
+}
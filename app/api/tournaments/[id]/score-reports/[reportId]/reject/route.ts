@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { getReport, rejectReport } from '@/lib/score-confirmation';
+
+/**
+ * Score report rejection endpoint
+ * Turns a report down and texts the reporter, with the reason if given
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reportId: string }> }
+) {
+  const { id: tournamentId, reportId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'score');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { reason }: { reason?: string } = await request.json();
+
+    const report = await getReport(tournamentId, reportId);
+    if (!report) {
+      return NextResponse.json({ error: 'Score report not found' }, { status: 404 });
+    }
+
+    const rejected = await rejectReport(report, reason?.trim() || null, getUserActor(auth.user));
+    if (!rejected) {
+      return NextResponse.json({ error: 'This report was already settled' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Reject score report error:', error);
+    return NextResponse.json({ error: 'Failed to reject score' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { expireConfirmations } from '@/lib/score-confirmation';
+import { requireTournamentPermission } from '@/lib/api-auth';
+
+/**
+ * Confirmation timeout endpoint
+ * Moves SMS reports whose opponent never replied YES/NO into the
+ * director's queue as disputed. Called by the score report queue.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'view');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const expired = await expireConfirmations(tournamentId);
+    return NextResponse.json({ expired });
+  } catch (error) {
+    console.error('Expire confirmations error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
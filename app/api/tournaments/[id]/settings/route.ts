@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { SMS_LANGUAGES, SMS_TEMPLATES } from '@/lib/sms-templates';
+import type { SmsTemplateOverrides, Tournament } from '@/lib/database.types';
+
+interface UpdateSettingsRequest {
+  matchMinutesPerPoint?: number;
+  directorPhone?: string | null;
+  smsTemplates?: SmsTemplateOverrides | null;
+}
+
+/**
+ * Only known templates and languages, each with some text
+ */
+function isValidOverrides(overrides: unknown): overrides is SmsTemplateOverrides {
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) return false;
+
+  return Object.entries(overrides).every(
+    ([key, texts]) =>
+      Object.hasOwn(SMS_TEMPLATES, key) &&
+      typeof texts === 'object' &&
+      texts !== null &&
+      Object.entries(texts).every(
+        ([language, text]) =>
+          Object.hasOwn(SMS_LANGUAGES, language) && typeof text === 'string' && text.trim() !== ''
+      )
+  );
+}
+
+/**
+ * Tournament settings endpoint
+ * Saves the overdue match alert pace and the wording of texts to players
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'manage_tournament');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { matchMinutesPerPoint, directorPhone, smsTemplates }: UpdateSettingsRequest =
+      await request.json();
+
+    const update: Partial<Tournament> = {};
+
+    if (matchMinutesPerPoint !== undefined) {
+      if (!Number.isInteger(matchMinutesPerPoint) || matchMinutesPerPoint < 1) {
+        return NextResponse.json({ error: 'Minutes per point must be at least 1' }, { status: 400 });
+      }
+      update.match_minutes_per_point = matchMinutesPerPoint;
+    }
+
+    if (directorPhone !== undefined) {
+      if (directorPhone !== null && typeof directorPhone !== 'string') {
+        return NextResponse.json({ error: 'Invalid director phone' }, { status: 400 });
+      }
+      update.director_phone = directorPhone?.trim() || null;
+    }
+
+    if (smsTemplates !== undefined) {
+      if (smsTemplates !== null && !isValidOverrides(smsTemplates)) {
+        return NextResponse.json({ error: 'Invalid text message templates' }, { status: 400 });
+      }
+      update.sms_templates = smsTemplates;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin.from('tournaments').update(update).eq('id', tournamentId);
+
+    if (error) throw error;
+
+    await recordAuditEvent({
+      tournamentId,
+      action: 'tournament.settings_changed',
+      actor: getUserActor(auth.user),
+      details: update,
+    });
+
+    return NextResponse.json(update);
+  } catch (error) {
+    console.error('Update tournament settings error:', error);
+    return NextResponse.json({ error: 'Failed to update tournament settings' }, { status: 500 });
+  }
+}
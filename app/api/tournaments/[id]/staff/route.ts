@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { ASSIGNABLE_ROLES, getUserActor } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { isValidEmail } from '@/lib/utils';
+import type { StaffRole, TournamentStaff } from '@/lib/database.types';
+
+interface AddStaffRequest {
+  email: string;
+  role: StaffRole;
+}
+
+interface ChangeStaffRequest {
+  staffId: string;
+  role?: StaffRole;
+}
+
+async function getStaffMember(tournamentId: string, staffId: string): Promise<TournamentStaff | null> {
+  const { data } = await supabaseAdmin
+    .from('tournament_staff')
+    .select('*')
+    .eq('id', staffId)
+    .eq('tournament_id', tournamentId)
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * Staff endpoint
+ * Adds a director to the tournament's staff by email
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'manage_staff');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { email, role }: AddStaffRequest = await request.json();
+
+    // Stored lowercase so sign-in emails match exactly
+    const normalized = email?.trim().toLowerCase() ?? '';
+    if (!isValidEmail(normalized)) {
+      return NextResponse.json({ error: 'Please enter a valid email address' }, { status: 400 });
+    }
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      return NextResponse.json({ error: 'Unknown role' }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('tournament_staff')
+      .insert({ tournament_id: tournamentId, email: normalized, role });
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'That director is already on the staff' }, { status: 409 });
+      }
+      throw error;
+    }
+
+    await recordAuditEvent({
+      tournamentId,
+      action: 'staff.added',
+      actor: getUserActor(auth.user),
+      details: { email: normalized, role },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Add staff error:', error);
+    return NextResponse.json({ error: 'Failed to add staff member' }, { status: 500 });
+  }
+}
+
+/**
+ * Staff role endpoint
+ * Changes a staff member's role
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'manage_staff');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { staffId, role }: ChangeStaffRequest = await request.json();
+
+    if (!role || !ASSIGNABLE_ROLES.includes(role)) {
+      return NextResponse.json({ error: 'Unknown role' }, { status: 400 });
+    }
+
+    const member = await getStaffMember(tournamentId, staffId);
+    if (!member) {
+      return NextResponse.json({ error: 'Staff member not found' }, { status: 404 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('tournament_staff')
+      .update({ role })
+      .eq('id', member.id);
+
+    if (error) throw error;
+
+    await recordAuditEvent({
+      tournamentId,
+      action: 'staff.role_changed',
+      actor: getUserActor(auth.user),
+      details: { email: member.email, from: member.role, role },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Change staff role error:', error);
+    return NextResponse.json({ error: 'Failed to change role' }, { status: 500 });
+  }
+}
+
+/**
+ * Staff removal endpoint
+ * Takes a director off the tournament's staff
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'manage_staff');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { staffId }: ChangeStaffRequest = await request.json();
+
+    const member = await getStaffMember(tournamentId, staffId);
+    if (!member) {
+      return NextResponse.json({ error: 'Staff member not found' }, { status: 404 });
+    }
+
+    const { error } = await supabaseAdmin.from('tournament_staff').delete().eq('id', member.id);
+
+    if (error) throw error;
+
+    await recordAuditEvent({
+      tournamentId,
+      action: 'staff.removed',
+      actor: getUserActor(auth.user),
+      details: { email: member.email, role: member.role },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove staff error:', error);
+    return NextResponse.json({ error: 'Failed to remove staff member' }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { getUserActor } from '@/lib/auth';
+import { callMatches } from '@/lib/match-calls';
+import { fillFreeTables, moveMatchToTable } from '@/lib/table-assignment';
+import type { TablePool } from '@/lib/database.types';
+
+interface SaveTablesRequest {
+  pool: TablePool | null;
+  priorities?: Record<string, number | null>;
+}
+
+interface MoveMatchRequest {
+  matchId: string;
+  tableNumber: number;
+}
+
+/**
+ * Table pool endpoint
+ * Saves the tournament's tables and division call priorities, and seats any
+ * matches that were waiting for one the new pool makes free
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'manage_tournament');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { pool, priorities = {} }: SaveTablesRequest = await request.json();
+
+    if (pool && (!Number.isInteger(pool.count) || pool.count < 1)) {
+      return NextResponse.json({ error: 'There must be at least one table' }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('tournaments')
+      .update({ table_pool: pool })
+      .eq('id', tournamentId);
+
+    if (error) throw error;
+
+    for (const [divisionId, priority] of Object.entries(priorities)) {
+      const { error: priorityError } = await supabaseAdmin
+        .from('divisions')
+        .update({ call_priority: priority })
+        .eq('id', divisionId)
+        .eq('tournament_id', tournamentId);
+
+      if (priorityError) throw priorityError;
+    }
+
+    const seated = await fillFreeTables(tournamentId);
+    try {
+      await callMatches(seated);
+    } catch (callError) {
+      console.error('Failed to send match calls:', callError);
+    }
+
+    return NextResponse.json({ pool, seated: seated.length });
+  } catch (error) {
+    console.error('Save table pool error:', error);
+    return NextResponse.json({ error: 'Failed to save tables' }, { status: 500 });
+  }
+}
+
+/**
+ * Table move endpoint
+ * Moves a match to another table, swapping with the match already there
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tournamentId } = await params;
+
+  const auth = await requireTournamentPermission(request, tournamentId, 'score');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { matchId, tableNumber }: MoveMatchRequest = await request.json();
+
+    const moveError = await moveMatchToTable(tournamentId, matchId, tableNumber, getUserActor(auth.user));
+    if (moveError) {
+      return NextResponse.json({ error: moveError }, { status: 400 });
+    }
+
+    // A waiting match that just got a table can now be called
+    try {
+      await callMatches([matchId]);
+    } catch (callError) {
+      console.error('Failed to send match calls:', callError);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Move match error:', error);
+    return NextResponse.json({ error: 'Failed to move match' }, { status: 500 });
+  }
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/lib/supabase';
+import { toast } from 'sonner';
+import { isSafeRedirectPath, isValidEmail } from '@/lib/utils';
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [mode, setMode] = useState<'sign_in' | 'sign_up'>('sign_in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidEmail(email)) {
+      toast.error('Please enter a valid email address');
+      return;
+    }
+    if (password.length < 6) {
+      toast.error('Password must be at least 6 characters');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } =
+        mode === 'sign_in'
+          ? await supabase.auth.signInWithPassword({ email, password })
+          : await supabase.auth.signUp({ email, password });
+
+      if (error) throw error;
+
+      if (!data.session) {
+        toast.success('Check your email to confirm your account');
+        return;
+      }
+
+      toast.success(mode === 'sign_in' ? 'Signed in' : 'Account created');
+      const next = new URLSearchParams(window.location.search).get('next');
+      router.push(isSafeRedirectPath(next) ? next : '/tournaments');
+    } catch (error) {
+      console.error('Error signing in:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to sign in');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b bg-white sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/" className="text-xl font-bold text-gray-900">
+            Destiny 2&apos;s Backgammon Smackdown
+          </Link>
+          <nav className="flex gap-4">
+            <Link href="/tournaments">
+              <Button variant="ghost">Tournaments</Button>
+            </Link>
+          </nav>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-16 max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle>{mode === 'sign_in' ? 'Director Sign In' : 'Create Director Account'}</CardTitle>
+            <CardDescription>
+              Directors sign in to run tournaments, enter scores and manage players
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  autoComplete="email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete={mode === 'sign_in' ? 'current-password' : 'new-password'}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading
+                  ? 'Please wait...'
+                  : mode === 'sign_in'
+                  ? 'Sign In'
+                  : 'Create Account'}
+              </Button>
+            </form>
+            <Button
+              variant="link"
+              className="w-full mt-2"
+              onClick={() => setMode(mode === 'sign_in' ? 'sign_up' : 'sign_in')}
+            >
+              {mode === 'sign_in' ? 'New director? Create an account' : 'Already have an account? Sign in'}
+            </Button>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -5,6 +5,14 @@ import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
@@ -25,11 +33,14 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { supabase } from '@/lib/supabase';
+import { authFetch } from '@/lib/auth';
+import { RequireSignIn } from '@/components/auth/TournamentAccess';
 import { toast } from 'sonner';
 import { formatPhoneNumber, formatDate, isValidEmail } from '@/lib/utils';
-import type { Player } from '@/lib/database.types';
+import { SMS_LANGUAGES } from '@/lib/sms-templates';
+import type { Player, SmsLanguage } from '@/lib/database.types';
 
-export default function PlayersPage() {
+function PlayerDatabase() {
   const [players, setPlayers] = useState<Player[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState('');
@@ -41,6 +52,9 @@ export default function PlayersPage() {
     name: '',
     email: '',
     phone: '',
+    rating: '',
+    smsOptOut: false,
+    language: 'en' as SmsLanguage,
   });
 
   useEffect(() => {
@@ -85,30 +99,30 @@ export default function PlayersPage() {
 
     setFormLoading(true);
     try {
-      const { error } = await supabase.from('players').insert({
-        name: formData.name.trim(),
-        email: formData.email.trim() || null,
-        phone: formData.phone.trim() || null,
+      const response = await authFetch('/api/players', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          email: formData.email,
+          phone: formData.phone,
+          rating: formData.rating ? parseInt(formData.rating) : null,
+        }),
       });
+      const result = await response.json();
 
-      if (error) throw error;
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to create player');
+        return;
+      }
 
       toast.success('Player created');
       setShowCreateDialog(false);
-      setFormData({ name: '', email: '', phone: '' });
+      setFormData({ name: '', email: '', phone: '', rating: '', smsOptOut: false, language: 'en' });
       loadPlayers();
-    } catch (error: unknown) {
+    } catch (error) {
       console.error('Error creating player:', error);
-      if (error && typeof error === 'object' && 'message' in error) {
-        const msg = (error as { message: string }).message;
-        if (msg.includes('duplicate')) {
-          toast.error('A player with this email or phone already exists');
-        } else {
-          toast.error('Failed to create player');
-        }
-      } else {
-        toast.error('Failed to create player');
-      }
+      toast.error('Failed to create player');
     } finally {
       setFormLoading(false);
     }
@@ -129,20 +143,28 @@ export default function PlayersPage() {
 
     setFormLoading(true);
     try {
-      const { error } = await supabase
-        .from('players')
-        .update({
-          name: formData.name.trim(),
-          email: formData.email.trim() || null,
-          phone: formData.phone.trim() || null,
-        })
-        .eq('id', editingPlayer.id);
+      const response = await authFetch(`/api/players/${editingPlayer.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          email: formData.email,
+          phone: formData.phone,
+          rating: formData.rating ? parseInt(formData.rating) : null,
+          smsOptOut: formData.smsOptOut,
+          language: formData.language,
+        }),
+      });
+      const result = await response.json();
 
-      if (error) throw error;
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to update player');
+        return;
+      }
 
       toast.success('Player updated');
       setEditingPlayer(null);
-      setFormData({ name: '', email: '', phone: '' });
+      setFormData({ name: '', email: '', phone: '', rating: '', smsOptOut: false, language: 'en' });
       loadPlayers();
     } catch (error) {
       console.error('Error updating player:', error);
@@ -157,6 +179,9 @@ export default function PlayersPage() {
       name: player.name,
       email: player.email || '',
       phone: player.phone || '',
+      rating: player.rating?.toString() || '',
+      smsOptOut: player.sms_opt_out,
+      language: player.language,
     });
     setEditingPlayer(player);
   };
@@ -228,6 +253,16 @@ export default function PlayersPage() {
                     placeholder="+1-555-123-4567"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="createRating">Rating</Label>
+                  <Input
+                    id="createRating"
+                    type="number"
+                    value={formData.rating}
+                    onChange={(e) => setFormData((f) => ({ ...f, rating: e.target.value }))}
+                    placeholder="e.g., 1650 (used for seeding)"
+                  />
+                </div>
               </div>
               <DialogFooter>
                 <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
@@ -274,6 +309,7 @@ export default function PlayersPage() {
                       <TableHead>Name</TableHead>
                       <TableHead className="hidden md:table-cell">Email</TableHead>
                       <TableHead className="hidden sm:table-cell">Phone</TableHead>
+                      <TableHead className="hidden sm:table-cell">Rating</TableHead>
                       <TableHead className="hidden lg:table-cell">Created</TableHead>
                       <TableHead className="w-20">Actions</TableHead>
                     </TableRow>
@@ -281,7 +317,7 @@ export default function PlayersPage() {
                   <TableBody>
                     {filteredPlayers.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={5} className="text-center text-gray-500 py-8">
+                        <TableCell colSpan={6} className="text-center text-gray-500 py-8">
                           {search ? 'No players match your search' : 'No players yet'}
                         </TableCell>
                       </TableRow>
@@ -295,6 +331,9 @@ export default function PlayersPage() {
                           <TableCell className="hidden sm:table-cell text-gray-600">
                             {player.phone ? formatPhoneNumber(player.phone) : '-'}
                           </TableCell>
+                          <TableCell className="hidden sm:table-cell text-gray-600">
+                            {player.rating ?? '-'}
+                          </TableCell>
                           <TableCell className="hidden lg:table-cell text-gray-600">
                             {formatDate(player.created_at)}
                           </TableCell>
@@ -360,6 +399,46 @@ export default function PlayersPage() {
                   placeholder="+1-555-123-4567"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="editRating">Rating</Label>
+                <Input
+                  id="editRating"
+                  type="number"
+                  value={formData.rating}
+                  onChange={(e) => setFormData((f) => ({ ...f, rating: e.target.value }))}
+                  placeholder="e.g., 1650 (used for seeding)"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Text message language</Label>
+                <Select
+                  value={formData.language}
+                  onValueChange={(value) =>
+                    setFormData((f) => ({ ...f, language: value as SmsLanguage }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SMS_LANGUAGES) as SmsLanguage[]).map((lang) => (
+                      <SelectItem key={lang} value={lang}>
+                        {SMS_LANGUAGES[lang]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="editSmsOptOut"
+                  checked={formData.smsOptOut}
+                  onCheckedChange={(checked) =>
+                    setFormData((f) => ({ ...f, smsOptOut: checked === true }))
+                  }
+                />
+                <Label htmlFor="editSmsOptOut">Don&apos;t text when a match is ready</Label>
+              </div>
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setEditingPlayer(null)}>
@@ -375,3 +454,11 @@ export default function PlayersPage() {
     </div>
   );
 }
+
+export default function PlayersPage() {
+  return (
+    <RequireSignIn>
+      <PlayerDatabase />
+    </RequireSignIn>
+  );
+}
@@ -0,0 +1,465 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AuthButton } from '@/components/auth/AuthButton';
+import { RequireRole } from '@/components/auth/TournamentAccess';
+import { supabase } from '@/lib/supabase';
+import { formatDateTime, formatPhoneNumber } from '@/lib/utils';
+import { ROLE_LABELS } from '@/lib/auth';
+import type {
+  AuditAction,
+  AuditEvent,
+  BracketType,
+  Match,
+  Player,
+  StaffRole,
+  Tournament,
+} from '@/lib/database.types';
+
+interface MatchWithBracket extends Match {
+  bracket_type: BracketType;
+  division_name: string;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'entry.added': 'Entered in tournament',
+  'entry.checked_in': 'Checked in',
+  'entry.check_in_removed': 'Check-in removed',
+  'entry.fee_paid': 'Entry fee paid',
+  'entry.fee_unpaid': 'Entry fee unpaid',
+  'entry.division_changed': 'Division changed',
+  'entry.removed': 'Removed from tournament',
+  'player.updated': 'Player details changed',
+  'match.score_entered': 'Score entered',
+  'match.corrected': 'Result corrected',
+  'matches.created': 'Match created',
+  'match.called': 'Players called to match',
+  'match.started': 'Match started',
+  'match.table_changed': 'Table changed',
+  'match.time_forfeit': 'Match lost on time',
+  'score_report.approved': 'Score report approved',
+  'score_report.auto_approved': 'Score report auto-approved',
+  'score_report.confirmation_requested': 'Confirmation requested',
+  'score_report.confirmed': 'Score confirmed by opponent',
+  'score_report.disputed': 'Score report disputed',
+  'score_report.rejected': 'Score report rejected',
+  'score_report.withdrawn': 'Score report withdrawn',
+  'brackets.generated': 'Brackets generated',
+  'bracket.completed': 'Bracket completed',
+  'tournament.status_changed': 'Tournament status changed',
+  'tournament.settings_changed': 'Tournament settings changed',
+  'division.settings_changed': 'Division settings changed',
+  'staff.added': 'Staff added',
+  'staff.role_changed': 'Staff role changed',
+  'staff.removed': 'Staff removed',
+};
+
+const BRACKET_LABELS: Record<BracketType, string> = {
+  main: 'Main',
+  consolation: 'Consolation',
+  grand_final: 'Grand Final',
+  last_chance: 'Last Chance',
+};
+
+function formatActor(actor: string): string {
+  if (actor === 'system') return 'System';
+  if (actor.startsWith('user:')) return actor.slice(5);
+  if (actor.startsWith('sms:')) return `SMS ${formatPhoneNumber(actor.slice(4))}`;
+  return actor;
+}
+
+function AuditTimeline() {
+  const params = useParams();
+  const tournamentId = params.id as string;
+
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [matches, setMatches] = useState<MatchWithBracket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [matchFilter, setMatchFilter] = useState<string>('all');
+  const [playerFilter, setPlayerFilter] = useState<string>('all');
+  const [actorFilter, setActorFilter] = useState<string>('all');
+
+  useEffect(() => {
+    if (tournamentId) {
+      loadData();
+    }
+  }, [tournamentId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const { data: tournamentData, error: tournamentError } = await supabase
+        .from('tournaments')
+        .select('*')
+        .eq('id', tournamentId)
+        .single();
+
+      if (tournamentError) throw tournamentError;
+      setTournament(tournamentData);
+
+      const { data: eventsData, error: eventsError } = await supabase
+        .from('audit_events')
+        .select('*')
+        .eq('tournament_id', tournamentId)
+        .order('created_at', { ascending: false });
+
+      if (eventsError) throw eventsError;
+      setEvents((eventsData || []) as AuditEvent[]);
+
+      const { data: entries } = await supabase
+        .from('tournament_entries')
+        .select('player:players (*)')
+        .eq('tournament_id', tournamentId);
+
+      setPlayers(
+        ((entries || []) as unknown as { player: Player }[])
+          .map((e) => e.player)
+          .filter(Boolean)
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+
+      // Matches are needed to label events and to filter by player
+      const { data: brackets } = await supabase
+        .from('brackets')
+        .select('id, bracket_type, division:divisions!inner (name, tournament_id)')
+        .eq('division.tournament_id', tournamentId);
+
+      if (brackets && brackets.length > 0) {
+        const { data: matchesData } = await supabase
+          .from('matches')
+          .select('*')
+          .in('bracket_id', brackets.map((b) => b.id))
+          .order('round_number')
+          .order('match_number');
+
+        setMatches(
+          ((matchesData || []) as Match[]).map((match) => {
+            const bracket = brackets.find((b) => b.id === match.bracket_id)!;
+            return {
+              ...match,
+              bracket_type: bracket.bracket_type as BracketType,
+              division_name: (bracket.division as unknown as { name: string }).name,
+            };
+          })
+        );
+      }
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getPlayerName = (playerId: unknown) =>
+    players.find((p) => p.id === playerId)?.name || 'Unknown';
+
+  const getMatchLabel = (matchId: string) => {
+    const match = matches.find((m) => m.id === matchId);
+    if (!match) return 'Removed match';
+    return `${match.division_name} ${BRACKET_LABELS[match.bracket_type]} R${match.round_number} M${match.match_number}`;
+  };
+
+  const describeEvent = (event: AuditEvent): string | null => {
+    const details = event.details || {};
+    const match = matches.find((m) => m.id === event.match_id);
+
+    if (event.action === 'match.time_forfeit' && match) {
+      return `${getPlayerName(details.loser_id)} ran out of time (${details.player1_score}-${details.player2_score})`;
+    }
+
+    if ('player1_score' in details && match) {
+      const score = `${getPlayerName(match.player1_id)} ${details.player1_score} - ${details.player2_score} ${getPlayerName(match.player2_id)}`;
+      if (event.action === 'match.corrected') {
+        const previous = details.previous as { player1_score: number; player2_score: number };
+        return `${previous.player1_score}-${previous.player2_score} → ${score}${details.reason ? ` (${details.reason})` : ''}`;
+      }
+      return details.raw_text ? `${score} from "${details.raw_text}"` : score;
+    }
+
+    if (event.action === 'score_report.confirmation_requested') {
+      return `"${details.raw_text}" sent to ${getPlayerName(event.player_id)}`;
+    }
+
+    if (event.action === 'score_report.disputed') {
+      const reply = details.confirmation_text ? ` → "${details.confirmation_text}"` : ' (no reply)';
+      return `"${details.raw_text}"${reply}`;
+    }
+
+    if (event.action === 'score_report.withdrawn') {
+      return `"${details.raw_text}"`;
+    }
+
+    if (event.action === 'score_report.rejected') {
+      return `"${details.raw_text}"${details.reason ? ` (${details.reason})` : ''}`;
+    }
+
+    if (event.action === 'matches.created') {
+      return details.status === 'bye'
+        ? `${getPlayerName(details.player1_id)} (bye)`
+        : `${getPlayerName(details.player1_id)} vs ${getPlayerName(details.player2_id)}`;
+    }
+
+    if (event.action === 'match.started') {
+      const via = { director: 'by the director', sms: 'by text', table: 'from the table' }[
+        details.via as string
+      ];
+      return `Started ${via}${details.table_number ? ` at table ${details.table_number}` : ''}`;
+    }
+
+    if (event.action === 'match.table_changed') {
+      const move = `Table ${details.from ?? 'none'} → ${details.to}`;
+      return details.swapped_match_id ? `${move} (swapped with ${getMatchLabel(details.swapped_match_id as string)})` : move;
+    }
+
+    if (event.action === 'match.called') {
+      const texted = (details.texted as string[]).map(getPlayerName);
+      const table = details.table_number ? `table ${details.table_number}` : 'no table';
+      return texted.length > 0 ? `Texted ${texted.join(' and ')} (${table})` : 'Nobody could be texted';
+    }
+
+    if (event.action === 'entry.added') {
+      return details.new_player ? `${details.division} (new player)` : String(details.division);
+    }
+
+    if (event.action === 'player.updated') {
+      const from = details.from as Record<string, unknown>;
+      const to = details.to as Record<string, unknown>;
+      return Object.keys(to)
+        .map((key) => `${key.replace(/_/g, ' ')}: ${from[key] ?? 'none'} → ${to[key] ?? 'none'}`)
+        .join(', ');
+    }
+
+    if (event.action === 'entry.division_changed') {
+      return `${details.from} → ${details.to}`;
+    }
+
+    if (event.action.startsWith('staff.')) {
+      return details.role
+        ? `${details.email} (${ROLE_LABELS[details.role as StaffRole]})`
+        : String(details.email);
+    }
+
+    if (event.action === 'tournament.status_changed') {
+      return String(details.status).replace('_', ' ');
+    }
+
+    if (event.action === 'tournament.settings_changed' || event.action === 'division.settings_changed') {
+      const changed = Object.keys(details)
+        .filter((key) => key !== 'division')
+        .map((key) => key.replace(/_/g, ' '))
+        .join(', ');
+      return details.division ? `${details.division}: ${changed}` : changed;
+    }
+
+    if (event.action === 'brackets.generated' || event.action === 'bracket.completed') {
+      return details.bracket_type
+        ? `${details.division} ${BRACKET_LABELS[details.bracket_type as BracketType]}`
+        : `${details.division} (${details.matches} matches)`;
+    }
+
+    return null;
+  };
+
+  const actors = [...new Set(events.map((e) => e.actor))];
+
+  const filteredEvents = events.filter((event) => {
+    if (matchFilter !== 'all' && event.match_id !== matchFilter) return false;
+    if (actorFilter !== 'all' && event.actor !== actorFilter) return false;
+    if (playerFilter !== 'all') {
+      // A player's timeline includes everything that happened in their matches
+      const match = matches.find((m) => m.id === event.match_id);
+      const involved =
+        event.player_id === playerFilter ||
+        match?.player1_id === playerFilter ||
+        match?.player2_id === playerFilter;
+      if (!involved) return false;
+    }
+    return true;
+  });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <header className="border-b bg-white">
+          <div className="container mx-auto px-4 py-4">
+            <Skeleton className="h-8 w-64" />
+          </div>
+        </header>
+        <main className="container mx-auto px-4 py-8">
+          <Skeleton className="h-12 w-96 mb-4" />
+          <Skeleton className="h-96 w-full" />
+        </main>
+      </div>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Tournament Not Found</h1>
+          <Link href="/tournaments">
+            <Button>Back to Tournaments</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b bg-white sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/" className="text-xl font-bold text-gray-900">
+            Destiny 2&apos;s Backgammon Smackdown
+          </Link>
+          <nav className="flex gap-4">
+            <Link href="/tournaments">
+              <Button variant="ghost">Tournaments</Button>
+            </Link>
+            <Link href="/players">
+              <Button variant="ghost">Players</Button>
+            </Link>
+            <AuthButton />
+          </nav>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {/* Page Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+            <Link href={`/tournaments/${tournamentId}`} className="hover:text-gray-700">
+              {tournament.name}
+            </Link>
+            <span>/</span>
+            <Link href={`/tournaments/${tournamentId}/director`} className="hover:text-gray-700">
+              Director Dashboard
+            </Link>
+            <span>/</span>
+            <span>Audit Log</span>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Timeline</CardTitle>
+            <CardDescription>Every director and system action, newest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* Filters */}
+            <div className="grid sm:grid-cols-3 gap-4 mb-6">
+              <div className="space-y-2">
+                <Label>Match</Label>
+                <Select value={matchFilter} onValueChange={setMatchFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All matches</SelectItem>
+                    {matches
+                      .filter((m) => m.status !== 'bye')
+                      .map((match) => (
+                        <SelectItem key={match.id} value={match.id}>
+                          {getMatchLabel(match.id)}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Player</Label>
+                <Select value={playerFilter} onValueChange={setPlayerFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All players</SelectItem>
+                    {players.map((player) => (
+                      <SelectItem key={player.id} value={player.id}>
+                        {player.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Actor</Label>
+                <Select value={actorFilter} onValueChange={setActorFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actors</SelectItem>
+                    {actors.map((actor) => (
+                      <SelectItem key={actor} value={actor}>
+                        {formatActor(actor)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Events */}
+            <div className="space-y-2">
+              {filteredEvents.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No events recorded</p>
+              ) : (
+                filteredEvents.map((event) => {
+                  const description = describeEvent(event);
+                  return (
+                    <div key={event.id} className="flex items-start justify-between p-3 bg-gray-50 rounded">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{ACTION_LABELS[event.action] || event.action}</span>
+                          {event.match_id && (
+                            <Badge variant="outline">{getMatchLabel(event.match_id)}</Badge>
+                          )}
+                          {event.player_id && !event.match_id && (
+                            <Badge variant="outline">{getPlayerName(event.player_id)}</Badge>
+                          )}
+                        </div>
+                        {description && <p className="text-sm text-gray-600">{description}</p>}
+                      </div>
+                      <div className="text-right text-xs text-gray-500 shrink-0 ml-4">
+                        <p>{formatDateTime(event.created_at)}</p>
+                        <p>{formatActor(event.actor)}</p>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+export default function AuditTimelinePage() {
+  return (
+    <RequireRole>
+      <AuditTimeline />
+    </RequireRole>
+  );
+}
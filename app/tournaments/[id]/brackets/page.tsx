@@ -8,9 +8,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
 import { DoubleEliminationBracket } from '@/components/brackets/DoubleEliminationBracket';
 import { ManualScoreEntry } from '@/components/director/ManualScoreEntry';
+import { AuthButton } from '@/components/auth/AuthButton';
+import { RequireRole, useTournamentAccess } from '@/components/auth/TournamentAccess';
 import { supabase } from '@/lib/supabase';
 import { toast } from 'sonner';
-import type { Tournament, Division, Bracket, Match, Player } from '@/lib/database.types';
+import type { Tournament, Division, Bracket, Match, Player, ScoreRules } from '@/lib/database.types';
 
 interface MatchWithPlayers extends Match {
   player1?: Player;
@@ -24,9 +26,11 @@ interface BracketWithMatches extends Bracket {
 interface DivisionWithBrackets extends Division {
   mainBracket?: BracketWithMatches;
   consolationBracket?: BracketWithMatches;
+  grandFinalBracket?: BracketWithMatches;
+  lastChanceBracket?: BracketWithMatches;
 }
 
-export default function BracketsPage() {
+function Brackets() {
   const params = useParams();
   const tournamentId = params.id as string;
 
@@ -36,6 +40,8 @@ export default function BracketsPage() {
   const [activeTab, setActiveTab] = useState<string>('');
   const [selectedMatch, setSelectedMatch] = useState<MatchWithPlayers | null>(null);
   const [selectedMatchLength, setSelectedMatchLength] = useState<number>(9);
+  const [selectedScoreRules, setSelectedScoreRules] = useState<ScoreRules | null>(null);
+  const { can } = useTournamentAccess();
 
   useEffect(() => {
     if (tournamentId) {
@@ -103,6 +109,10 @@ export default function BracketsPage() {
             divisionData.mainBracket = bracketWithMatches;
           } else if (bracket.bracket_type === 'consolation') {
             divisionData.consolationBracket = bracketWithMatches;
+          } else if (bracket.bracket_type === 'grand_final') {
+            divisionData.grandFinalBracket = bracketWithMatches;
+          } else if (bracket.bracket_type === 'last_chance') {
+            divisionData.lastChanceBracket = bracketWithMatches;
           }
         }
 
@@ -154,9 +164,9 @@ export default function BracketsPage() {
 
   const hasBrackets = divisions.some((d) => d.mainBracket || d.consolationBracket);
 
-  const handleMatchClick = (match: MatchWithPlayers, matchLength: number) => {
+  const handleMatchClick = (match: MatchWithPlayers, division: Division) => {
     // Only allow editing pending or in_progress matches
-    if (match.status === 'completed' || match.status === 'bye') {
+    if (!can('score') || match.status === 'completed' || match.status === 'bye') {
       return;
     }
     // Only allow if both players are assigned
@@ -165,7 +175,8 @@ export default function BracketsPage() {
       return;
     }
     setSelectedMatch(match);
-    setSelectedMatchLength(matchLength);
+    setSelectedMatchLength(division.match_length);
+    setSelectedScoreRules(division.score_rules);
   };
 
   return (
@@ -183,6 +194,7 @@ export default function BracketsPage() {
             <Link href="/players">
               <Button variant="ghost">Players</Button>
             </Link>
+            <AuthButton />
           </nav>
         </div>
       </header>
@@ -239,7 +251,9 @@ export default function BracketsPage() {
                   division={division}
                   mainBracket={division.mainBracket}
                   consolationBracket={division.consolationBracket}
-                  onMatchClick={(match) => handleMatchClick(match, division.match_length)}
+                  grandFinalBracket={division.grandFinalBracket}
+                  lastChanceBracket={division.lastChanceBracket}
+                  onMatchClick={(match) => handleMatchClick(match, division)}
                 />
               </TabsContent>
             ))}
@@ -250,6 +264,7 @@ export default function BracketsPage() {
         <ManualScoreEntry
           match={selectedMatch}
           matchLength={selectedMatchLength}
+          scoreRules={selectedScoreRules}
           open={!!selectedMatch}
           onClose={() => setSelectedMatch(null)}
           onSuccess={loadData}
@@ -258,3 +273,11 @@ export default function BracketsPage() {
     </div>
   );
 }
+
+export default function BracketsPage() {
+  return (
+    <RequireRole>
+      <Brackets />
+    </RequireRole>
+  );
+}
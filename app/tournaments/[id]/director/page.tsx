@@ -4,6 +4,7 @@ import { useEffect, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -16,20 +17,20 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from '@/components/ui/dialog';
 import { ManualScoreEntry } from '@/components/director/ManualScoreEntry';
 import { ScoreReportQueue } from '@/components/director/ScoreReportQueue';
+import { CorrectResultDialog } from '@/components/director/CorrectResultDialog';
+import { OverdueMatches, type OverdueMatch } from '@/components/director/OverdueMatches';
+import { TableBoard, type BoardMatch } from '@/components/director/TableBoard';
+import { CallQueue } from '@/components/director/CallQueue';
+import { RequireRole, useTournamentAccess } from '@/components/auth/TournamentAccess';
+import { AuthButton } from '@/components/auth/AuthButton';
 import { supabase } from '@/lib/supabase';
+import { authFetch } from '@/lib/auth';
 import { toast } from 'sonner';
-import { getMatchStatusColor, formatRelativeTime } from '@/lib/utils';
-import type { Tournament, Division, Bracket, Match, Player } from '@/lib/database.types';
+import { cn, getMatchStatusColor, formatRelativeTime } from '@/lib/utils';
+import { elapsedMinutes, formatElapsed, getMinutesPerPoint, isOverdue } from '@/lib/match-timing';
+import type { Tournament, Division, Bracket, Match, Player, ScoreRules } from '@/lib/database.types';
 
 interface MatchWithPlayers extends Match {
   player1?: Player;
@@ -43,9 +44,11 @@ interface BracketWithMatches extends Bracket {
 interface DivisionWithBrackets extends Division {
   mainBracket?: BracketWithMatches;
   consolationBracket?: BracketWithMatches;
+  grandFinalBracket?: BracketWithMatches;
+  lastChanceBracket?: BracketWithMatches;
 }
 
-export default function DirectorDashboardPage() {
+function DirectorDashboard() {
   const params = useParams();
   const tournamentId = params.id as string;
 
@@ -55,8 +58,14 @@ export default function DirectorDashboardPage() {
   const [activeTab, setActiveTab] = useState<string>('');
   const [selectedMatch, setSelectedMatch] = useState<MatchWithPlayers | null>(null);
   const [selectedMatchLength, setSelectedMatchLength] = useState<number>(9);
-  const [showAdvanceDialog, setShowAdvanceDialog] = useState(false);
-  const [advanceLoading, setAdvanceLoading] = useState(false);
+  const [selectedScoreRules, setSelectedScoreRules] = useState<ScoreRules | null>(null);
+  const [correctingMatch, setCorrectingMatch] = useState<MatchWithPlayers | null>(null);
+  const [resultSearch, setResultSearch] = useState('');
+  const [showAllResults, setShowAllResults] = useState(false);
+  const [startingMatch, setStartingMatch] = useState<string | null>(null);
+  const [advancingDivision, setAdvancingDivision] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const { can } = useTournamentAccess();
 
   const loadData = useCallback(async () => {
     try {
@@ -110,6 +119,10 @@ export default function DirectorDashboardPage() {
             divisionData.mainBracket = bracketWithMatches;
           } else if (bracket.bracket_type === 'consolation') {
             divisionData.consolationBracket = bracketWithMatches;
+          } else if (bracket.bracket_type === 'grand_final') {
+            divisionData.grandFinalBracket = bracketWithMatches;
+          } else if (bracket.bracket_type === 'last_chance') {
+            divisionData.lastChanceBracket = bracketWithMatches;
           }
         }
 
@@ -141,123 +154,89 @@ export default function DirectorDashboardPage() {
     return () => clearInterval(interval);
   }, [loadData]);
 
-  const getActiveDivision = () => divisions.find((d) => d.id === activeTab);
-
-  const getCurrentRoundMatches = (division: DivisionWithBrackets) => {
-    const mainMatches = division.mainBracket?.matches || [];
-    const consolationMatches = division.consolationBracket?.matches || [];
-    const allMatches = [...mainMatches, ...consolationMatches];
-
-    const currentRound = division.mainBracket?.current_round || 1;
-    return allMatches.filter((m) => m.round_number === currentRound);
-  };
+  // Keep elapsed times and overdue alerts current between refreshes
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
 
-  const canAdvanceRound = (division: DivisionWithBrackets) => {
-    const currentMatches = getCurrentRoundMatches(division);
-    return currentMatches.length > 0 &&
-      currentMatches.every((m) => m.status === 'completed' || m.status === 'bye');
+  const handleStartMatch = async (match: MatchWithPlayers) => {
+    setStartingMatch(match.id);
+    try {
+      const response = await authFetch(`/api/matches/${match.id}/start`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to start match');
+        return;
+      }
+      toast.success(`${match.player1?.name} vs ${match.player2?.name} started`);
+      setNow(Date.now());
+      loadData();
+    } catch (error) {
+      console.error('Error starting match:', error);
+      toast.error('Failed to start match');
+    } finally {
+      setStartingMatch(null);
+    }
   };
 
-  const handleAdvanceRound = async () => {
-    const division = getActiveDivision();
-    if (!division || !division.mainBracket) return;
-
-    setAdvanceLoading(true);
+  // Advancement runs after every result; this retries it if that failed
+  const handleAdvanceDivision = async (division: DivisionWithBrackets) => {
+    setAdvancingDivision(division.id);
     try {
-      const currentRound = division.mainBracket.current_round;
-      const mainMatches = division.mainBracket.matches.filter(
-        (m) => m.round_number === currentRound
+      const response = await authFetch(
+        `/api/tournaments/${tournamentId}/divisions/${division.id}/advance`,
+        { method: 'POST' }
       );
-
-      // Get winners from current round
-      const winners = mainMatches
-        .filter((m) => m.winner_id)
-        .map((m) => m.winner_id!);
-
-      // Get losers for consolation bracket
-      const losers = mainMatches
-        .filter((m) => m.status === 'completed' && m.winner_id)
-        .map((m) => (m.winner_id === m.player1_id ? m.player2_id : m.player1_id))
-        .filter((id): id is string => id !== null);
-
-      // Create next round matches in main bracket
-      const nextRound = currentRound + 1;
-      let matchNumber = 1;
-      const newMainMatches = [];
-
-      for (let i = 0; i < winners.length; i += 2) {
-        const player1 = winners[i];
-        const player2 = winners[i + 1];
-
-        newMainMatches.push({
-          bracket_id: division.mainBracket.id,
-          round_number: nextRound,
-          match_number: matchNumber++,
-          player1_id: player1,
-          player2_id: player2 || null,
-          winner_id: player2 ? null : player1,
-          status: player2 ? 'pending' : 'bye',
-          table_number: player2 ? matchNumber : null,
-        });
+      const result = await response.json();
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to create next matches');
+        return;
       }
-
-      // Insert new main bracket matches
-      if (newMainMatches.length > 0) {
-        const { error: mainError } = await supabase
-          .from('matches')
-          .insert(newMainMatches);
-        if (mainError) throw mainError;
-      }
-
-      // Create consolation bracket matches from losers (if we have a consolation bracket)
-      if (division.consolationBracket && losers.length > 0) {
-        const consolationMatches = [];
-        let consolationMatchNum = 1;
-
-        for (let i = 0; i < losers.length; i += 2) {
-          const player1 = losers[i];
-          const player2 = losers[i + 1];
-
-          consolationMatches.push({
-            bracket_id: division.consolationBracket.id,
-            round_number: nextRound,
-            match_number: consolationMatchNum++,
-            player1_id: player1,
-            player2_id: player2 || null,
-            winner_id: player2 ? null : player1,
-            status: player2 ? 'pending' : 'bye',
-          });
-        }
-
-        if (consolationMatches.length > 0) {
-          const { error: consolationError } = await supabase
-            .from('matches')
-            .insert(consolationMatches);
-          if (consolationError) throw consolationError;
-        }
-
-        // Update consolation bracket current round
-        await supabase
-          .from('brackets')
-          .update({ current_round: nextRound, status: 'in_progress' })
-          .eq('id', division.consolationBracket.id);
-      }
-
-      // Update main bracket current round
-      await supabase
-        .from('brackets')
-        .update({ current_round: nextRound })
-        .eq('id', division.mainBracket.id);
-
-      toast.success(`Advanced to Round ${nextRound}`);
-      setShowAdvanceDialog(false);
+      toast.success(
+        result.createdMatches > 0
+          ? `${result.createdMatches} new matches ready`
+          : `${division.name} is up to date`
+      );
       loadData();
     } catch (error) {
-      console.error('Error advancing round:', error);
-      toast.error('Failed to advance round');
+      console.error('Error advancing division:', error);
+      toast.error('Failed to create next matches');
     } finally {
-      setAdvanceLoading(false);
+      setAdvancingDivision(null);
+    }
+  };
+
+  const getDivisionBrackets = (division: DivisionWithBrackets) =>
+    [
+      division.mainBracket,
+      division.consolationBracket,
+      division.grandFinalBracket,
+      division.lastChanceBracket,
+    ].filter((b): b is BracketWithMatches => !!b);
+
+  // Every match with both players known and no result yet, whatever its round
+  const getActiveMatches = (division: DivisionWithBrackets) =>
+    getDivisionBrackets(division)
+      .flatMap((bracket) =>
+        bracket.matches
+          .filter(
+            (m) =>
+              (m.status === 'pending' || m.status === 'in_progress') &&
+              m.player1_id &&
+              m.player2_id
+          )
+          .map((m) => ({ ...m, bracket_type: bracket.bracket_type }))
+      )
+      .sort((a, b) => a.round_number - b.round_number || a.match_number - b.match_number);
+
+  const getRoundLabel = (match: MatchWithPlayers & { bracket_type: Bracket['bracket_type'] }) => {
+    if (match.bracket_type === 'grand_final') {
+      return match.round_number === 1 ? 'Grand Final' : 'Bracket Reset';
     }
+    const prefix =
+      match.bracket_type === 'consolation' ? 'Cons ' : match.bracket_type === 'last_chance' ? 'LC ' : '';
+    return `${prefix}R${match.round_number}`;
   };
 
   if (loading) {
@@ -294,18 +273,43 @@ export default function DirectorDashboardPage() {
     );
   }
 
-  const activeDivision = getActiveDivision();
-  const currentRoundMatches = activeDivision ? getCurrentRoundMatches(activeDivision) : [];
-
   // Stats
-  const allMatches = divisions.flatMap((d) => [
-    ...(d.mainBracket?.matches || []),
-    ...(d.consolationBracket?.matches || []),
-  ]);
+  const allMatches = divisions.flatMap((d) => getDivisionBrackets(d).flatMap((b) => b.matches));
   const completedCount = allMatches.filter((m) => m.status === 'completed').length;
   const inProgressCount = allMatches.filter((m) => m.status === 'in_progress').length;
   const pendingCount = allMatches.filter((m) => m.status === 'pending').length;
 
+  // Newest first; a search looks through every result so any can be corrected
+  const search = resultSearch.trim().toLowerCase();
+  const completedMatches = allMatches
+    .filter((m) => m.status === 'completed')
+    .filter(
+      (m) =>
+        !search ||
+        m.player1?.name.toLowerCase().includes(search) ||
+        m.player2?.name.toLowerCase().includes(search)
+    )
+    .sort((a, b) =>
+      new Date(b.completed_at || 0).getTime() - new Date(a.completed_at || 0).getTime()
+    );
+  const shownResults =
+    search || showAllResults ? completedMatches : completedMatches.slice(0, 5);
+
+  const minutesPerPoint = getMinutesPerPoint(tournament);
+  const overdueMatches: OverdueMatch[] = divisions.flatMap((division) =>
+    getActiveMatches(division)
+      .filter((m) => isOverdue(m, division.match_length, minutesPerPoint, now))
+      .map((m) => ({ ...m, division_name: division.name, match_length: division.match_length }))
+  );
+  const boardMatches: BoardMatch[] = divisions.flatMap((division) =>
+    getActiveMatches(division).map((m) => ({
+      ...m,
+      division_id: division.id,
+      division_name: division.name,
+      call_priority: division.call_priority,
+    }))
+  );
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -321,6 +325,7 @@ export default function DirectorDashboardPage() {
             <Link href="/players">
               <Button variant="ghost">Players</Button>
             </Link>
+            <AuthButton />
           </nav>
         </div>
       </header>
@@ -345,6 +350,12 @@ export default function DirectorDashboardPage() {
             <Link href={`/tournaments/${tournamentId}/public`}>
               <Button variant="outline">Public View</Button>
             </Link>
+            <Link href={`/tournaments/${tournamentId}/messages`}>
+              <Button variant="outline">Text Messages</Button>
+            </Link>
+            <Link href={`/tournaments/${tournamentId}/audit`}>
+              <Button variant="outline">Audit Log</Button>
+            </Link>
           </div>
         </div>
 
@@ -385,7 +396,7 @@ export default function DirectorDashboardPage() {
             <Card>
               <CardHeader>
                 <CardTitle>Active Matches</CardTitle>
-                <CardDescription>Current round matches by division</CardDescription>
+                <CardDescription>Ready and in-progress matches by division</CardDescription>
               </CardHeader>
               <CardContent>
                 <Tabs value={activeTab} onValueChange={setActiveTab}>
@@ -407,14 +418,27 @@ export default function DirectorDashboardPage() {
                           </h3>
                           <p className="text-sm text-gray-500">
                             {division.match_length}-point matches
+                            {division.consolationBracket?.matches.length
+                              ? ` • Consolation Round ${division.consolationBracket.current_round}`
+                              : ''}
                           </p>
                         </div>
-                        <Button
-                          onClick={() => setShowAdvanceDialog(true)}
-                          disabled={!canAdvanceRound(division)}
-                        >
-                          Advance to Next Round
-                        </Button>
+                        {getDivisionBrackets(division).length > 0 &&
+                        getDivisionBrackets(division).every((b) => b.status === 'completed') ? (
+                          <Badge className="bg-green-100 text-green-800">Division complete</Badge>
+                        ) : (
+                          can('score') &&
+                          getDivisionBrackets(division).length > 0 && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleAdvanceDivision(division)}
+                              disabled={advancingDivision === division.id}
+                            >
+                              {advancingDivision === division.id ? 'Checking...' : 'Create Next Matches'}
+                            </Button>
+                          )
+                        )}
                       </div>
 
                       {/* Matches Table */}
@@ -423,26 +447,35 @@ export default function DirectorDashboardPage() {
                           <TableHeader>
                             <TableRow>
                               <TableHead className="w-16">Table</TableHead>
+                              <TableHead className="w-28">Round</TableHead>
                               <TableHead>Player 1</TableHead>
                               <TableHead>Player 2</TableHead>
                               <TableHead className="w-24">Status</TableHead>
-                              <TableHead className="w-24">Score</TableHead>
-                              <TableHead className="w-24">Actions</TableHead>
+                              <TableHead className="w-24">Elapsed</TableHead>
+                              <TableHead className="w-56">Actions</TableHead>
                             </TableRow>
                           </TableHeader>
                           <TableBody>
-                            {getCurrentRoundMatches(division).length === 0 ? (
+                            {getActiveMatches(division).length === 0 ? (
                               <TableRow>
-                                <TableCell colSpan={6} className="text-center text-gray-500 py-8">
-                                  No matches in current round
+                                <TableCell colSpan={7} className="text-center text-gray-500 py-8">
+                                  No matches ready to play
                                 </TableCell>
                               </TableRow>
                             ) : (
-                              getCurrentRoundMatches(division).map((match) => (
-                                <TableRow key={match.id}>
+                              getActiveMatches(division).map((match) => (
+                                <TableRow
+                                  key={match.id}
+                                  className={cn(
+                                    isOverdue(match, division.match_length, minutesPerPoint, now) && 'bg-red-50'
+                                  )}
+                                >
                                   <TableCell className="font-mono">
                                     {match.table_number || '-'}
                                   </TableCell>
+                                  <TableCell className="text-sm text-gray-600">
+                                    {getRoundLabel(match)}
+                                  </TableCell>
                                   <TableCell className={match.winner_id === match.player1_id ? 'font-bold' : ''}>
                                     {match.player1?.name || 'TBD'}
                                   </TableCell>
@@ -454,23 +487,47 @@ export default function DirectorDashboardPage() {
                                       {match.status.replace('_', ' ')}
                                     </Badge>
                                   </TableCell>
-                                  <TableCell className="font-mono">
-                                    {match.status === 'completed'
-                                      ? `${match.player1_score}-${match.player2_score}`
+                                  <TableCell
+                                    className={cn(
+                                      'font-mono',
+                                      isOverdue(match, division.match_length, minutesPerPoint, now) &&
+                                        'text-red-700 font-semibold'
+                                    )}
+                                  >
+                                    {match.status === 'in_progress' && match.started_at
+                                      ? formatElapsed(elapsedMinutes(match, now) ?? 0)
                                       : '-'}
                                   </TableCell>
-                                  <TableCell>
-                                    {match.status !== 'bye' && match.status !== 'completed' && match.player1_id && match.player2_id && (
+                                  <TableCell className="flex gap-2">
+                                    {can('score') && match.status === 'pending' && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => handleStartMatch(match)}
+                                        disabled={startingMatch === match.id}
+                                      >
+                                        Start
+                                      </Button>
+                                    )}
+                                    {can('score') && match.status !== 'bye' && match.status !== 'completed' && match.player1_id && match.player2_id && (
                                       <Button
                                         size="sm"
                                         onClick={() => {
                                           setSelectedMatch(match);
                                           setSelectedMatchLength(division.match_length);
+                                          setSelectedScoreRules(division.score_rules);
                                         }}
                                       >
                                         Enter Score
                                       </Button>
                                     )}
+                                    {division.clock_required && (
+                                      <Link href={`/tournaments/${tournamentId}/matches/${match.id}/clock`} target="_blank">
+                                        <Button size="sm" variant="outline">
+                                          Clock
+                                        </Button>
+                                      </Link>
+                                    )}
                                   </TableCell>
                                 </TableRow>
                               ))
@@ -484,57 +541,108 @@ export default function DirectorDashboardPage() {
               </CardContent>
             </Card>
 
-            {/* Recent Completions */}
+            <TableBoard
+              tournamentId={tournamentId}
+              pool={tournament.table_pool}
+              matches={boardMatches}
+              onMoved={loadData}
+            />
+
+            {/* Completed Matches */}
             <Card>
               <CardHeader>
-                <CardTitle>Recent Completions</CardTitle>
-                <CardDescription>Latest match results</CardDescription>
+                <CardTitle>Completed Matches</CardTitle>
+                <CardDescription>Results, newest first</CardDescription>
               </CardHeader>
               <CardContent>
+                {completedCount > 5 && (
+                  <div className="mb-4">
+                    <Input
+                      placeholder="Search results by player..."
+                      value={resultSearch}
+                      onChange={(e) => setResultSearch(e.target.value)}
+                      className="max-w-md"
+                    />
+                  </div>
+                )}
                 <div className="space-y-2">
-                  {allMatches
-                    .filter((m) => m.status === 'completed')
-                    .sort((a, b) =>
-                      new Date(b.completed_at || 0).getTime() - new Date(a.completed_at || 0).getTime()
-                    )
-                    .slice(0, 5)
-                    .map((match) => (
-                      <div
-                        key={match.id}
-                        className="flex items-center justify-between p-2 bg-gray-50 rounded"
-                      >
-                        <span>
-                          <span className="font-medium">
-                            {match.winner_id === match.player1_id
-                              ? match.player1?.name
-                              : match.player2?.name}
-                          </span>
-                          {' def. '}
+                  {shownResults.map((match) => (
+                    <div
+                      key={match.id}
+                      className="flex items-center justify-between p-2 bg-gray-50 rounded"
+                    >
+                      <span>
+                        <span className="font-medium">
                           {match.winner_id === match.player1_id
-                            ? match.player2?.name
-                            : match.player1?.name}
-                          {' '}
-                          <span className="font-mono text-gray-600">
-                            {match.player1_score}-{match.player2_score}
-                          </span>
+                            ? match.player1?.name
+                            : match.player2?.name}
                         </span>
+                        {' def. '}
+                        {match.winner_id === match.player1_id
+                          ? match.player2?.name
+                          : match.player1?.name}
+                        {' '}
+                        <span className="font-mono text-gray-600">
+                          {match.player1_score}-{match.player2_score}
+                        </span>
+                        {match.forfeit === 'time' && (
+                          <span className="text-xs text-gray-500"> on time</span>
+                        )}
+                      </span>
+                      <span className="flex items-center gap-2">
                         <span className="text-xs text-gray-500">
                           {match.completed_at && formatRelativeTime(match.completed_at)}
                         </span>
-                      </div>
-                    ))}
-                  {allMatches.filter((m) => m.status === 'completed').length === 0 && (
+                        {can('manage_tournament') && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setCorrectingMatch(match)}
+                          >
+                            Correct
+                          </Button>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                  {shownResults.length === 0 && (
                     <p className="text-center text-gray-500 py-4">
-                      No completed matches yet
+                      {search ? 'No results match your search' : 'No completed matches yet'}
                     </p>
                   )}
                 </div>
+                {!search && completedMatches.length > 5 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => setShowAllResults(!showAllResults)}
+                  >
+                    {showAllResults ? 'Show latest only' : `Show all ${completedMatches.length} results`}
+                  </Button>
+                )}
               </CardContent>
             </Card>
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
+            <CallQueue
+              tournamentId={tournamentId}
+              pool={tournament.table_pool}
+              matches={boardMatches}
+              now={now}
+              onCalled={loadData}
+            />
+            <OverdueMatches
+              tournamentId={tournamentId}
+              matches={overdueMatches}
+              minutesPerPoint={minutesPerPoint}
+              now={now}
+              onSettingsSaved={(value) =>
+                setTournament({ ...tournament, match_minutes_per_point: value })
+              }
+            />
             <ScoreReportQueue tournamentId={tournamentId} onScoreApproved={loadData} />
           </div>
         </div>
@@ -543,32 +651,28 @@ export default function DirectorDashboardPage() {
         <ManualScoreEntry
           match={selectedMatch}
           matchLength={selectedMatchLength}
+          scoreRules={selectedScoreRules}
           open={!!selectedMatch}
           onClose={() => setSelectedMatch(null)}
           onSuccess={loadData}
         />
 
-        {/* Advance Round Dialog */}
-        <Dialog open={showAdvanceDialog} onOpenChange={setShowAdvanceDialog}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Advance to Next Round?</DialogTitle>
-              <DialogDescription>
-                This will generate the next round of matches for {activeDivision?.name}.
-                Winners will continue in the main bracket, losers will move to consolation.
-              </DialogDescription>
-            </DialogHeader>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setShowAdvanceDialog(false)}>
-                Cancel
-              </Button>
-              <Button onClick={handleAdvanceRound} disabled={advanceLoading}>
-                {advanceLoading ? 'Advancing...' : 'Advance Round'}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+        {/* Result Correction Modal */}
+        <CorrectResultDialog
+          match={correctingMatch}
+          open={!!correctingMatch}
+          onClose={() => setCorrectingMatch(null)}
+          onSuccess={loadData}
+        />
       </main>
     </div>
   );
 }
+
+export default function DirectorDashboardPage() {
+  return (
+    <RequireRole>
+      <DirectorDashboard />
+    </RequireRole>
+  );
+}
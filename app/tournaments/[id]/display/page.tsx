@@ -7,6 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { MatchCard } from '@/components/brackets/MatchCard';
 import { supabase } from '@/lib/supabase';
 import { formatDate, getTournamentStatusColor } from '@/lib/utils';
+import { elapsedMinutes, formatElapsed, getMinutesPerPoint, isOverdue } from '@/lib/match-timing';
 import type { Tournament, Division, Bracket, Match, Player } from '@/lib/database.types';
 
 interface MatchWithPlayers extends Match {
@@ -21,6 +22,8 @@ interface BracketWithMatches extends Bracket {
 interface DivisionWithBrackets extends Division {
   mainBracket?: BracketWithMatches;
   consolationBracket?: BracketWithMatches;
+  grandFinalBracket?: BracketWithMatches;
+  lastChanceBracket?: BracketWithMatches;
 }
 
 export default function TVDisplayPage() {
@@ -31,6 +34,7 @@ export default function TVDisplayPage() {
   const [divisions, setDivisions] = useState<DivisionWithBrackets[]>([]);
   const [loading, setLoading] = useState(true);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
 
   const loadData = useCallback(async () => {
     try {
@@ -79,6 +83,10 @@ export default function TVDisplayPage() {
             divisionData.mainBracket = bracketWithMatches;
           } else if (bracket.bracket_type === 'consolation') {
             divisionData.consolationBracket = bracketWithMatches;
+          } else if (bracket.bracket_type === 'grand_final') {
+            divisionData.grandFinalBracket = bracketWithMatches;
+          } else if (bracket.bracket_type === 'last_chance') {
+            divisionData.lastChanceBracket = bracketWithMatches;
           }
         }
 
@@ -103,6 +111,12 @@ export default function TVDisplayPage() {
     return () => clearInterval(interval);
   }, [loadData]);
 
+  // Keep elapsed times current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
   // Real-time subscription
   useEffect(() => {
     const channel = supabase
@@ -144,15 +158,22 @@ export default function TVDisplayPage() {
     }
   };
 
-  const getCurrentRoundMatches = (division: DivisionWithBrackets) => {
-    const currentRound = division.mainBracket?.current_round || 1;
-    const mainMatches = division.mainBracket?.matches.filter(
-      (m) => m.round_number === currentRound
-    ) || [];
-    const consolationMatches = division.consolationBracket?.matches.filter(
-      (m) => m.round_number === currentRound
-    ) || [];
-    return [...mainMatches, ...consolationMatches];
+  const getCurrentRoundMatches = (division: DivisionWithBrackets) =>
+    // Each bracket runs on its own round count, so use each bracket's current round
+    [
+      division.mainBracket,
+      division.consolationBracket,
+      division.grandFinalBracket,
+      division.lastChanceBracket,
+    ].flatMap(
+      (bracket) => bracket?.matches.filter((m) => m.round_number === bracket.current_round) || []
+    );
+
+  const getBracketLabel = (division: DivisionWithBrackets, match: MatchWithPlayers) => {
+    if (match.bracket_id === division.consolationBracket?.id) return 'Consolation';
+    if (match.bracket_id === division.grandFinalBracket?.id) return 'Grand Final';
+    if (match.bracket_id === division.lastChanceBracket?.id) return 'Last Chance';
+    return null;
   };
 
   if (loading || !tournament) {
@@ -229,9 +250,22 @@ export default function TVDisplayPage() {
                     currentMatches.slice(0, 6).map((match) => (
                       <div key={match.id} className="bg-gray-700 rounded-lg p-3">
                         <div className="flex items-center justify-between mb-2">
-                          {match.table_number && (
-                            <span className="text-xs text-gray-400">Table {match.table_number}</span>
-                          )}
+                          <span className="text-xs text-gray-400">
+                            {match.table_number && `Table ${match.table_number}`}
+                            {match.table_number && getBracketLabel(division, match) && ' • '}
+                            {getBracketLabel(division, match)}
+                            {match.status === 'in_progress' && match.started_at && (
+                              <span
+                                className={
+                                  isOverdue(match, division.match_length, getMinutesPerPoint(tournament), now)
+                                    ? 'ml-2 font-mono text-red-400 font-semibold'
+                                    : 'ml-2 font-mono'
+                                }
+                              >
+                                {formatElapsed(elapsedMinutes(match, now) ?? 0)}
+                              </span>
+                            )}
+                          </span>
                           <Badge
                             className={
                               match.status === 'in_progress'
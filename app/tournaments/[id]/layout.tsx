@@ -0,0 +1,14 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { TournamentAccessProvider } from '@/components/auth/TournamentAccess';
+
+export default function TournamentLayout({ children }: { children: React.ReactNode }) {
+  const params = useParams();
+
+  return (
+    <TournamentAccessProvider tournamentId={params.id as string}>
+      {children}
+    </TournamentAccessProvider>
+  );
+}
@@ -0,0 +1,331 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useTournamentAccess } from '@/components/auth/TournamentAccess';
+import { supabase } from '@/lib/supabase';
+import { authFetch } from '@/lib/auth';
+import { cn } from '@/lib/utils';
+import {
+  CLOCK_OVERTIME,
+  checkFlag,
+  describeClockSettings,
+  formatClock,
+  getClockSettings,
+  newClock,
+  pauseClock,
+  pressClock,
+  resumeClock,
+  timeLeft,
+  type ClockSide,
+  type ClockState,
+} from '@/lib/match-clock';
+import { toast } from 'sonner';
+import type { Bracket, ClockSettings, Division, Match, Player } from '@/lib/database.types';
+
+interface ClockMatch extends Match {
+  player1?: Player;
+  player2?: Player;
+  bracket: Bracket & { division: Division };
+}
+
+// The clock lives on the tablet, so a reload picks up where it left off
+const storageKey = (matchId: string) => `matchClock:${matchId}`;
+
+export default function MatchClockPage() {
+  const params = useParams();
+  const matchId = params.matchId as string;
+  const { can } = useTournamentAccess();
+
+  const [match, setMatch] = useState<ClockMatch | null>(null);
+  const [settings, setSettings] = useState<ClockSettings | null>(null);
+  const [clock, setClock] = useState<ClockState | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [loading, setLoading] = useState(true);
+  const [showReset, setShowReset] = useState(false);
+  const [loserScore, setLoserScore] = useState('0');
+  const [recording, setRecording] = useState(false);
+
+  const loadMatch = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('matches')
+        .select(`
+          *,
+          player1:players!matches_player1_id_fkey (*),
+          player2:players!matches_player2_id_fkey (*),
+          bracket:brackets!inner (*, division:divisions!inner (*))
+        `)
+        .eq('id', matchId)
+        .single();
+
+      if (error) throw error;
+
+      const loaded = data as ClockMatch;
+      const clockSettings = getClockSettings(loaded.bracket.division);
+      const saved = localStorage.getItem(storageKey(matchId));
+
+      setMatch(loaded);
+      setSettings(clockSettings);
+      setClock(saved ? (JSON.parse(saved) as ClockState) : newClock(clockSettings));
+    } catch (error) {
+      console.error('Error loading match:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [matchId]);
+
+  useEffect(() => {
+    loadMatch();
+  }, [loadMatch]);
+
+  // Tick the display and flag a player whose reserve runs out
+  useEffect(() => {
+    if (!settings) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      setClock((prev) => (prev ? checkFlag(prev, settings, Date.now()) : prev));
+    }, 100);
+    return () => clearInterval(interval);
+  }, [settings]);
+
+  useEffect(() => {
+    if (clock) {
+      localStorage.setItem(storageKey(matchId), JSON.stringify(clock));
+    }
+  }, [clock, matchId]);
+
+  // Starting the clock checks the table in: the match counts as started.
+  // Only a tablet signed in as scoring staff may do that.
+  const checkIn = async () => {
+    try {
+      const response = await authFetch(`/api/matches/${matchId}/start`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fromTable: true }),
+      });
+      if (response.ok) {
+        const { match: started } = await response.json();
+        setMatch((prev) => (prev ? { ...prev, status: started.status, started_at: started.started_at } : prev));
+      }
+    } catch (error) {
+      console.error('Error starting match:', error);
+    }
+  };
+
+  const handlePress = (side: ClockSide) => {
+    if (!settings) return;
+    if (clock?.toMove === null && match?.status === 'pending' && can('score')) {
+      checkIn();
+    }
+    setClock((prev) => (prev ? pressClock(prev, settings, side, Date.now()) : prev));
+  };
+
+  const handlePause = () => {
+    if (!settings) return;
+    setClock((prev) =>
+      prev && prev.turnStartedAt !== null
+        ? pauseClock(prev, settings, Date.now())
+        : prev
+          ? resumeClock(prev, Date.now())
+          : prev
+    );
+  };
+
+  const handleReset = () => {
+    if (!settings) return;
+    setClock(newClock(settings));
+    setShowReset(false);
+  };
+
+  const handleRecordForfeit = async (loser: Player) => {
+    setRecording(true);
+    try {
+      const response = await authFetch(`/api/matches/${matchId}/time-forfeit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ loserId: loser.id, loserScore: parseInt(loserScore) || 0 }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to record time forfeit');
+        return;
+      }
+      toast.success(`Recorded: ${loser.name} lost on time`);
+      localStorage.removeItem(storageKey(matchId));
+      loadMatch();
+    } catch (error) {
+      console.error('Error recording time forfeit:', error);
+      toast.error('Failed to record time forfeit');
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white text-2xl">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!match || !settings || !clock || !match.player1 || !match.player2) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white text-2xl">This match is not ready to play</div>
+      </div>
+    );
+  }
+
+  const players = [match.player1, match.player2];
+  const division = match.bracket.division;
+
+  if (match.status === 'completed') {
+    const winner = players.find((p) => p.id === match.winner_id);
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
+        <div className="text-center space-y-2">
+          <p className="text-4xl font-bold">{winner?.name} wins</p>
+          <p className="text-2xl font-mono text-gray-300">
+            {match.player1_score}-{match.player2_score}
+            {match.forfeit === 'time' && ' on time'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const running = clock.turnStartedAt !== null;
+  const flagged = clock.flagged !== null ? players[clock.flagged] : null;
+  const opponent = clock.flagged !== null ? players[clock.flagged === 0 ? 1 : 0] : null;
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      {/* Header */}
+      <header className="flex items-center justify-between p-4 text-gray-400">
+        <span>
+          {division.name} • {division.match_length}-point match
+          {match.table_number && ` • Table ${match.table_number}`}
+        </span>
+        <span>{describeClockSettings(settings)}</span>
+      </header>
+
+      {/* Clock faces: the player on move taps their own side when done */}
+      <div className="flex-1 grid grid-cols-2 gap-4 p-4">
+        {([0, 1] as ClockSide[]).map((side) => {
+          const { delayMs, reserveMs } = timeLeft(clock, settings, side, now);
+          const onMove = clock.toMove === side;
+          return (
+            <button
+              key={side}
+              type="button"
+              onClick={() => handlePress(side)}
+              disabled={clock.flagged !== null || (clock.toMove !== null && (!onMove || !running))}
+              className={cn(
+                'rounded-2xl flex flex-col items-center justify-center gap-4 transition-colors',
+                clock.flagged === side
+                  ? 'bg-red-700'
+                  : onMove && running
+                    ? 'bg-green-700'
+                    : 'bg-gray-800'
+              )}
+            >
+              <span className="text-3xl font-semibold">{players[side].name}</span>
+              <span className="text-8xl font-mono tabular-nums">{formatClock(reserveMs)}</span>
+              <span className="text-2xl font-mono text-gray-300">
+                {onMove && running ? `Delay ${Math.ceil(delayMs / 1000)}s` : ' '}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Controls */}
+      <footer className="flex items-center justify-center gap-4 p-4">
+        {clock.toMove === null ? (
+          <p className="text-gray-400">To start, the player who does not move first taps their side</p>
+        ) : (
+          <Button
+            variant="secondary"
+            size="lg"
+            onClick={handlePause}
+            disabled={clock.flagged !== null}
+          >
+            {running ? 'Pause' : 'Resume'}
+          </Button>
+        )}
+        <Button variant="outline" size="lg" className="text-gray-900" onClick={() => setShowReset(true)}>
+          Reset
+        </Button>
+      </footer>
+
+      {/* Flag fall */}
+      {flagged && opponent && (
+        <div className="fixed inset-x-0 bottom-24 flex justify-center px-4">
+          <div className="bg-white text-gray-900 rounded-lg shadow-lg p-6 max-w-md w-full space-y-4">
+            <div>
+              <p className="text-xl font-bold">{flagged.name} ran out of time</p>
+              <p className="text-gray-600">
+                {settings.overtime === 'forfeit'
+                  ? `${opponent.name} wins the match on time.`
+                  : 'Call the director to rule on the match.'}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">{CLOCK_OVERTIME[settings.overtime]}</p>
+            </div>
+            {can('score') ? (
+              <div className="space-y-2">
+                <Label htmlFor="loserScore">{flagged.name}&apos;s score when time ran out</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="loserScore"
+                    type="number"
+                    min="0"
+                    max={division.match_length - 1}
+                    value={loserScore}
+                    onChange={(e) => setLoserScore(e.target.value)}
+                  />
+                  <Button onClick={() => handleRecordForfeit(flagged)} disabled={recording}>
+                    {recording ? 'Recording...' : 'Record Time Forfeit'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">A tournament director needs to record the result.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={showReset} onOpenChange={setShowReset}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset the clock?</DialogTitle>
+            <DialogDescription>
+              Both players go back to {settings.reserve_minutes} minutes.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowReset(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReset}>
+              Reset Clock
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
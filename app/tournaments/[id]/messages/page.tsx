@@ -0,0 +1,311 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AuthButton } from '@/components/auth/AuthButton';
+import { RequireRole, useTournamentAccess } from '@/components/auth/TournamentAccess';
+import { supabase } from '@/lib/supabase';
+import { authFetch } from '@/lib/auth';
+import { formatDateTime, formatPhoneNumber } from '@/lib/utils';
+import { toast } from 'sonner';
+import type { Player, SmsMessage, SmsMessageStatus, Tournament } from '@/lib/database.types';
+
+const STATUS_LABELS: Record<SmsMessageStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  failed: 'Failed',
+};
+
+const STATUS_COLORS: Record<SmsMessageStatus, string> = {
+  queued: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+function MessageLog() {
+  const params = useParams();
+  const tournamentId = params.id as string;
+  const { can } = useTournamentAccess();
+
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [messages, setMessages] = useState<SmsMessage[]>([]);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [playerFilter, setPlayerFilter] = useState<string>('all');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+
+  const loadMessages = useCallback(async () => {
+    try {
+      // Texts waiting on a retry or a rate limit go out before listing
+      await authFetch(`/api/tournaments/${tournamentId}/messages/process`, { method: 'POST' });
+
+      const { data: tournamentData, error: tournamentError } = await supabase
+        .from('tournaments')
+        .select('*')
+        .eq('id', tournamentId)
+        .single();
+
+      if (tournamentError) throw tournamentError;
+      setTournament(tournamentData);
+
+      const { data: messagesData, error: messagesError } = await supabase
+        .from('sms_messages')
+        .select('*')
+        .eq('tournament_id', tournamentId)
+        .order('created_at', { ascending: false });
+
+      if (messagesError) throw messagesError;
+      setMessages((messagesData || []) as SmsMessage[]);
+
+      const { data: entries } = await supabase
+        .from('tournament_entries')
+        .select('player:players (*)')
+        .eq('tournament_id', tournamentId);
+
+      setPlayers(
+        ((entries || []) as unknown as { player: Player }[])
+          .map((e) => e.player)
+          .filter(Boolean)
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (error) {
+      console.error('Error loading messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  // There is no scheduler, so keep the queue moving while the page is open
+  useEffect(() => {
+    const interval = setInterval(loadMessages, 30 * 1000);
+    return () => clearInterval(interval);
+  }, [loadMessages]);
+
+  const handleRetry = async (message: SmsMessage) => {
+    setRetrying(message.id);
+    try {
+      const response = await authFetch(
+        `/api/tournaments/${tournamentId}/messages/${message.id}/retry`,
+        { method: 'POST' }
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to retry message');
+        return;
+      }
+      toast.success(result.message.status === 'failed' ? 'Retry failed' : 'Message re-sent');
+      loadMessages();
+    } catch (error) {
+      console.error('Error retrying message:', error);
+      toast.error('Failed to retry message');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const getPlayerName = (message: SmsMessage) =>
+    players.find((p) => p.id === message.player_id)?.name || formatPhoneNumber(message.to_phone);
+
+  const filteredMessages = messages.filter((message) => {
+    if (playerFilter !== 'all' && message.player_id !== playerFilter) return false;
+    if (statusFilter !== 'all' && message.status !== statusFilter) return false;
+    return true;
+  });
+
+  const failedCount = messages.filter((m) => m.status === 'failed').length;
+  const queuedCount = messages.filter((m) => m.status === 'queued' || m.status === 'sending').length;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <header className="border-b bg-white">
+          <div className="container mx-auto px-4 py-4">
+            <Skeleton className="h-8 w-64" />
+          </div>
+        </header>
+        <main className="container mx-auto px-4 py-8">
+          <Skeleton className="h-12 w-96 mb-4" />
+          <Skeleton className="h-96 w-full" />
+        </main>
+      </div>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Tournament Not Found</h1>
+          <Link href="/tournaments">
+            <Button>Back to Tournaments</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b bg-white sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/" className="text-xl font-bold text-gray-900">
+            Destiny 2&apos;s Backgammon Smackdown
+          </Link>
+          <nav className="flex gap-4">
+            <Link href="/tournaments">
+              <Button variant="ghost">Tournaments</Button>
+            </Link>
+            <Link href="/players">
+              <Button variant="ghost">Players</Button>
+            </Link>
+            <AuthButton />
+          </nav>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {/* Page Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+            <Link href={`/tournaments/${tournamentId}`} className="hover:text-gray-700">
+              {tournament.name}
+            </Link>
+            <span>/</span>
+            <Link href={`/tournaments/${tournamentId}/director`} className="hover:text-gray-700">
+              Director Dashboard
+            </Link>
+            <span>/</span>
+            <span>Text Messages</span>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">Text Messages</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sent to Players</CardTitle>
+            <CardDescription>
+              {messages.length} messages
+              {queuedCount > 0 && ` • ${queuedCount} waiting to send`}
+              {failedCount > 0 && ` • ${failedCount} failed`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* Filters */}
+            <div className="grid sm:grid-cols-2 gap-4 mb-6">
+              <div className="space-y-2">
+                <Label>Player</Label>
+                <Select value={playerFilter} onValueChange={setPlayerFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All players</SelectItem>
+                    {players.map((player) => (
+                      <SelectItem key={player.id} value={player.id}>
+                        {player.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {(Object.keys(STATUS_LABELS) as SmsMessageStatus[]).map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Messages */}
+            <div className="space-y-2">
+              {filteredMessages.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No messages sent</p>
+              ) : (
+                filteredMessages.map((message) => (
+                  <div key={message.id} className="flex items-start justify-between p-3 bg-gray-50 rounded">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{getPlayerName(message)}</span>
+                        <Badge className={STATUS_COLORS[message.status]}>
+                          {STATUS_LABELS[message.status]}
+                        </Badge>
+                        {message.kind === 'reply' && <Badge variant="outline">Reply</Badge>}
+                        {message.attempts > 1 && (
+                          <Badge variant="outline">{message.attempts} attempts</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-700 whitespace-pre-line">{message.body}</p>
+                      {message.last_error && message.status !== 'sent' && message.status !== 'delivered' && (
+                        <p className="text-sm text-red-600">{message.last_error}</p>
+                      )}
+                      {message.status === 'queued' && message.attempts > 0 && (
+                        <p className="text-xs text-gray-500">
+                          Next try {formatDateTime(message.next_attempt_at)}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-right text-xs text-gray-500 shrink-0 ml-4 space-y-1">
+                      <p>{formatDateTime(message.sent_at || message.created_at)}</p>
+                      <p>{formatPhoneNumber(message.to_phone)}</p>
+                      {message.status === 'failed' && message.kind === 'outbound' && can('score') && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRetry(message)}
+                          disabled={retrying === message.id}
+                        >
+                          {retrying === message.id ? 'Retrying...' : 'Retry'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+export default function MessageLogPage() {
+  return (
+    <RequireRole>
+      <MessageLog />
+    </RequireRole>
+  );
+}
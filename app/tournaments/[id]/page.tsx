@@ -17,10 +17,34 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { supabase } from '@/lib/supabase';
+import { authFetch } from '@/lib/auth';
+import { useTournamentAccess } from '@/components/auth/TournamentAccess';
+import { AuthButton } from '@/components/auth/AuthButton';
+import { StaffManager } from '@/components/tournaments/StaffManager';
+import { SmsTemplateEditor } from '@/components/tournaments/SmsTemplateEditor';
+import { ClockSettingsDialog } from '@/components/tournaments/ClockSettingsDialog';
+import { TablePoolSettings } from '@/components/tournaments/TablePoolSettings';
+import { orderForSeeding } from '@/lib/bracket-generator';
+import { SeedingPreview } from '@/components/tournaments/SeedingPreview';
 import { formatDate, formatDateTime, getTournamentStatusColor } from '@/lib/utils';
 import { toast } from 'sonner';
-import type { Tournament, Division, TournamentEntry } from '@/lib/database.types';
+import { DEFAULT_SCORE_RULES } from '@/lib/score-parser';
+import { describeClockSettings, getClockSettings } from '@/lib/match-clock';
+import type {
+  Tournament,
+  Division,
+  TournamentEntry,
+  LastChanceSettings,
+  ScoreRules,
+} from '@/lib/database.types';
 
 interface DivisionWithEntries extends Division {
   tournament_entries: TournamentEntry[];
@@ -31,6 +55,11 @@ interface TournamentData extends Tournament {
   divisions: DivisionWithEntries[];
 }
 
+function formatFeedRounds(settings: LastChanceSettings): string {
+  const rounds = [...settings.consolation_rounds].sort((a, b) => a - b);
+  return rounds.length > 1 ? `${rounds[0]}–${rounds[rounds.length - 1]}` : `${rounds[0]}`;
+}
+
 export default function TournamentDetailsPage() {
   const params = useParams();
   const router = useRouter();
@@ -40,6 +69,9 @@ export default function TournamentDetailsPage() {
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
   const [showGenerateDialog, setShowGenerateDialog] = useState(false);
+  const [drawMode, setDrawMode] = useState<'random' | 'seeded'>('random');
+  const [seedOrders, setSeedOrders] = useState<Record<string, string[]>>({});
+  const { can } = useTournamentAccess();
 
   useEffect(() => {
     if (tournamentId) {
@@ -56,7 +88,10 @@ export default function TournamentDetailsPage() {
           *,
           divisions (
             *,
-            tournament_entries (*)
+            tournament_entries (
+              *,
+              player:players (*)
+            )
           )
         `)
         .eq('id', tournamentId)
@@ -89,23 +124,41 @@ export default function TournamentDetailsPage() {
 
     setActionLoading(true);
     try {
-      const { error } = await supabase
-        .from('tournaments')
-        .update({ status: newStatus })
-        .eq('id', tournamentId);
-
-      if (error) throw error;
+      const response = await authFetch(`/api/tournaments/${tournamentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus }),
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error);
+      }
 
       setTournament({ ...tournament, status: newStatus });
       toast.success(`Tournament ${newStatus === 'in_progress' ? 'started' : newStatus}`);
     } catch (error) {
       console.error('Error updating tournament:', error);
-      toast.error('Failed to update tournament status');
+      toast.error(error instanceof Error ? error.message : 'Failed to update tournament status');
     } finally {
       setActionLoading(false);
     }
   };
 
+  const handleDrawModeChange = (mode: 'random' | 'seeded') => {
+    setDrawMode(mode);
+    if (mode !== 'seeded' || !tournament) return;
+
+    // Start the preview from manual seeds and ratings; the director can reorder
+    const orders: Record<string, string[]> = {};
+    for (const division of tournament.divisions) {
+      const checkedInEntries = division.tournament_entries.filter((e) => e.checked_in);
+      orders[division.id] = orderForSeeding(
+        checkedInEntries.map((e) => ({ id: e.id, seed: e.seed, rating: e.player?.rating ?? null }))
+      ).map((e) => e.id);
+    }
+    setSeedOrders(orders);
+  };
+
   const generateBrackets = async () => {
     if (!tournament) return;
 
@@ -127,85 +180,20 @@ export default function TournamentDetailsPage() {
     setShowGenerateDialog(false);
 
     try {
-      // For each division, create brackets and matches
-      for (const division of tournament.divisions) {
-        // Get checked-in players for this division
-        const checkedInEntries = division.tournament_entries.filter((e) => e.checked_in);
-
-        // Create Main bracket
-        const { data: mainBracket, error: mainBracketError } = await supabase
-          .from('brackets')
-          .insert({
-            division_id: division.id,
-            bracket_type: 'main',
-            current_round: 1,
-            status: 'in_progress',
-          })
-          .select()
-          .single();
-
-        if (mainBracketError) throw mainBracketError;
-
-        // Create Consolation bracket
-        const { data: consolationBracket, error: consolationBracketError } = await supabase
-          .from('brackets')
-          .insert({
-            division_id: division.id,
-            bracket_type: 'consolation',
-            current_round: 1,
-            status: 'pending',
-          })
-          .select()
-          .single();
-
-        if (consolationBracketError) throw consolationBracketError;
-
-        // Shuffle players for random seeding
-        const shuffledEntries = [...checkedInEntries].sort(() => Math.random() - 0.5);
-
-        // Generate Round 1 matches
-        let tableNumber = 1;
-        const matches = [];
-
-        for (let i = 0; i < shuffledEntries.length; i += 2) {
-          const player1 = shuffledEntries[i];
-          const player2 = shuffledEntries[i + 1];
-
-          if (player2) {
-            // Regular match
-            matches.push({
-              bracket_id: mainBracket.id,
-              round_number: 1,
-              match_number: matches.length + 1,
-              player1_id: player1.player_id,
-              player2_id: player2.player_id,
-              table_number: tableNumber++,
-              status: 'pending',
-            });
-          } else {
-            // Bye - player auto-advances
-            matches.push({
-              bracket_id: mainBracket.id,
-              round_number: 1,
-              match_number: matches.length + 1,
-              player1_id: player1.player_id,
-              player2_id: null,
-              winner_id: player1.player_id,
-              table_number: null,
-              status: 'bye',
-            });
-          }
-        }
-
-        // Insert matches
-        if (matches.length > 0) {
-          const { error: matchesError } = await supabase.from('matches').insert(matches);
-          if (matchesError) throw matchesError;
-        }
+      // Brackets are generated server-side so a failed division rolls back the rest
+      const response = await authFetch(`/api/tournaments/${tournamentId}/brackets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ drawMode, seedOrders }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to generate brackets');
+        return;
       }
 
-      // Update tournament status
-      await updateTournamentStatus('in_progress');
+      setTournament({ ...tournament, status: 'in_progress' });
       toast.success('Brackets generated! Tournament started.');
       router.push(`/tournaments/${tournamentId}/brackets`);
     } catch (error) {
@@ -216,6 +204,67 @@ export default function TournamentDetailsPage() {
     }
   };
 
+  const updateDivision = async (
+    division: DivisionWithEntries,
+    changes: { scoreRules?: ScoreRules; lastChanceSettings?: LastChanceSettings | null }
+  ) => {
+    const response = await authFetch(`/api/tournaments/${tournamentId}/divisions/${division.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error);
+    }
+  };
+
+  const updateScoreRules = async (division: DivisionWithEntries, value: string) => {
+    if (!tournament) return;
+
+    const rules: ScoreRules = { max_overshoot: parseInt(value) };
+
+    try {
+      await updateDivision(division, { scoreRules: rules });
+
+      setTournament({
+        ...tournament,
+        divisions: tournament.divisions.map((d) =>
+          d.id === division.id ? { ...d, score_rules: rules } : d
+        ),
+      });
+      toast.success(`Score rules updated for ${division.name}`);
+    } catch (error) {
+      console.error('Error updating score rules:', error);
+      toast.error('Failed to update score rules');
+    }
+  };
+
+  const updateLastChance = async (division: DivisionWithEntries, value: string) => {
+    if (!tournament) return;
+
+    const feedRounds = parseInt(value);
+    const settings: LastChanceSettings | null =
+      feedRounds > 0
+        ? { consolation_rounds: Array.from({ length: feedRounds }, (_, i) => i + 1) }
+        : null;
+
+    try {
+      await updateDivision(division, { lastChanceSettings: settings });
+
+      setTournament({
+        ...tournament,
+        divisions: tournament.divisions.map((d) =>
+          d.id === division.id ? { ...d, last_chance_settings: settings } : d
+        ),
+      });
+      toast.success(`Last chance updated for ${division.name}`);
+    } catch (error) {
+      console.error('Error updating last chance:', error);
+      toast.error('Failed to update last chance settings');
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -269,6 +318,7 @@ export default function TournamentDetailsPage() {
             <Link href="/players">
               <Button variant="ghost">Players</Button>
             </Link>
+            <AuthButton />
           </nav>
         </div>
       </header>
@@ -296,10 +346,12 @@ export default function TournamentDetailsPage() {
           </div>
 
           <div className="flex flex-wrap gap-2">
-            <Link href={`/tournaments/${tournamentId}/players`}>
-              <Button variant="outline">Manage Players</Button>
-            </Link>
-            {tournament.status === 'in_progress' && (
+            {can('view') && (
+              <Link href={`/tournaments/${tournamentId}/players`}>
+                <Button variant="outline">Manage Players</Button>
+              </Link>
+            )}
+            {can('view') && tournament.status === 'in_progress' && (
               <>
                 <Link href={`/tournaments/${tournamentId}/brackets`}>
                   <Button variant="outline">View Brackets</Button>
@@ -372,9 +424,60 @@ export default function TournamentDetailsPage() {
                     <h3 className="font-semibold">{division.name}</h3>
                     <p className="text-sm text-gray-600">
                       {division.match_length}-point matches
-                      {division.clock_required && ' • Clock required'}
+                      {division.clock_required &&
+                        ` • Clock: ${describeClockSettings(getClockSettings(division))}`}
+                      {division.last_chance_settings?.consolation_rounds.length
+                        ? ` • Last chance: consolation round ${formatFeedRounds(division.last_chance_settings)} losers`
+                        : ''}
                     </p>
                   </div>
+                  {tournament.status === 'draft' && can('manage_tournament') && (
+                    <Select
+                      value={String(division.last_chance_settings?.consolation_rounds.length || 0)}
+                      onValueChange={(value) => updateLastChance(division, value)}
+                    >
+                      <SelectTrigger className="w-[220px] ml-auto mr-4">
+                        <SelectValue placeholder="Last chance" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="0">No last chance</SelectItem>
+                        <SelectItem value="1">Last chance: consolation R1 losers</SelectItem>
+                        <SelectItem value="2">Last chance: consolation R1–2 losers</SelectItem>
+                        <SelectItem value="3">Last chance: consolation R1–3 losers</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {can('manage_tournament') && tournament.status !== 'completed' && (
+                    <Select
+                      value={String((division.score_rules ?? DEFAULT_SCORE_RULES).max_overshoot)}
+                      onValueChange={(value) => updateScoreRules(division, value)}
+                    >
+                      <SelectTrigger
+                        className={tournament.status === 'draft' ? 'w-[220px] mr-4' : 'w-[220px] ml-auto mr-4'}
+                      >
+                        <SelectValue placeholder="Winning score" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="0">Winner scores exactly {division.match_length}</SelectItem>
+                        <SelectItem value="1">Winner up to {division.match_length + 1} (gammon)</SelectItem>
+                        <SelectItem value="2">Winner up to {division.match_length + 2} (backgammon)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {can('manage_tournament') && tournament.status !== 'completed' && (
+                    <ClockSettingsDialog
+                      tournamentId={tournamentId}
+                      division={division}
+                      onSaved={(settings) =>
+                        setTournament({
+                          ...tournament,
+                          divisions: tournament.divisions.map((d) =>
+                            d.id === division.id ? { ...d, ...settings } : d
+                          ),
+                        })
+                      }
+                    />
+                  )}
                   <div className="text-right">
                     <p className="font-semibold">
                       {division.tournament_entries?.length || 0} players
@@ -390,108 +493,171 @@ export default function TournamentDetailsPage() {
         </Card>
 
         {/* Tournament Controls */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Tournament Controls</CardTitle>
-            <CardDescription>Manage tournament status and generate brackets</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {tournament.status === 'draft' && (
-                <>
-                  <p className="text-gray-600">
-                    Once all players are registered and checked in, generate brackets to start the tournament.
-                  </p>
-                  <div className="flex gap-4">
-                    <Dialog open={showGenerateDialog} onOpenChange={setShowGenerateDialog}>
-                      <DialogTrigger asChild>
-                        <Button disabled={totalCheckedIn < 2}>
-                          Generate Brackets & Start
-                        </Button>
-                      </DialogTrigger>
-                      <DialogContent>
-                        <DialogHeader>
-                          <DialogTitle>Generate Brackets?</DialogTitle>
-                          <DialogDescription>
-                            This will create double elimination brackets for all divisions and start the tournament.
-                            Make sure all players are checked in before proceeding.
-                          </DialogDescription>
-                        </DialogHeader>
-                        <div className="py-4">
-                          <h4 className="font-medium mb-2">Division Summary:</h4>
-                          <ul className="space-y-1 text-sm">
-                            {tournament.divisions.map((div) => (
-                              <li key={div.id} className="flex justify-between">
-                                <span>{div.name}</span>
-                                <span>
-                                  {div.checkedInCount || 0} players
-                                  {(div.checkedInCount || 0) < 2 && (
-                                    <span className="text-red-500 ml-2">(need 2+)</span>
-                                  )}
-                                </span>
-                              </li>
-                            ))}
-                          </ul>
-                        </div>
-                        <DialogFooter>
-                          <Button variant="outline" onClick={() => setShowGenerateDialog(false)}>
-                            Cancel
-                          </Button>
-                          <Button onClick={generateBrackets} disabled={actionLoading}>
-                            {actionLoading ? 'Generating...' : 'Generate & Start'}
+        {can('manage_tournament') && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>Tournament Controls</CardTitle>
+              <CardDescription>Manage tournament status and generate brackets</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {tournament.status === 'draft' && (
+                  <>
+                    <p className="text-gray-600">
+                      Once all players are registered and checked in, generate brackets to start the tournament.
+                    </p>
+                    <div className="flex gap-4">
+                      <Dialog open={showGenerateDialog} onOpenChange={setShowGenerateDialog}>
+                        <DialogTrigger asChild>
+                          <Button disabled={totalCheckedIn < 2}>
+                            Generate Brackets & Start
                           </Button>
-                        </DialogFooter>
-                      </DialogContent>
-                    </Dialog>
-
-                    <Link href={`/tournaments/${tournamentId}/players`}>
-                      <Button variant="outline">Add Players First</Button>
-                    </Link>
-                  </div>
-                </>
-              )}
-
-              {tournament.status === 'in_progress' && (
-                <>
-                  <p className="text-gray-600">
-                    Tournament is active. Use the Director Dashboard to manage matches and scores.
-                  </p>
-                  <div className="flex gap-4">
-                    <Link href={`/tournaments/${tournamentId}/director`}>
-                      <Button>Open Director Dashboard</Button>
-                    </Link>
-                    <Link href={`/tournaments/${tournamentId}/public`}>
-                      <Button variant="outline">Public Bracket View</Button>
-                    </Link>
-                    <Button
-                      variant="outline"
-                      onClick={() => updateTournamentStatus('completed')}
-                      disabled={actionLoading}
-                    >
-                      Complete Tournament
-                    </Button>
-                  </div>
-                </>
-              )}
-
-              {tournament.status === 'completed' && (
-                <>
-                  <p className="text-gray-600">
-                    Tournament is complete. View final results and brackets.
-                  </p>
-                  <div className="flex gap-4">
-                    <Link href={`/tournaments/${tournamentId}/results`}>
-                      <Button>View Results</Button>
-                    </Link>
-                    <Link href={`/tournaments/${tournamentId}/brackets`}>
-                      <Button variant="outline">View Final Brackets</Button>
-                    </Link>
-                  </div>
-                </>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+                        </DialogTrigger>
+                        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+                          <DialogHeader>
+                            <DialogTitle>Generate Brackets?</DialogTitle>
+                            <DialogDescription>
+                              This will create double elimination brackets for all divisions and start the tournament.
+                              Make sure all players are checked in before proceeding.
+                            </DialogDescription>
+                          </DialogHeader>
+                          <div className="pt-4 space-y-2">
+                            <h4 className="font-medium">Draw:</h4>
+                            <Select
+                              value={drawMode}
+                              onValueChange={(value) =>
+                                handleDrawModeChange(value as 'random' | 'seeded')
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="random">Random draw</SelectItem>
+                                <SelectItem value="seeded">Seeded by manual seed / rating</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          {drawMode === 'seeded' && (
+                            <div className="space-y-6 py-2">
+                              {tournament.divisions.map((div) => (
+                                <SeedingPreview
+                                  key={div.id}
+                                  divisionName={div.name}
+                                  entries={div.tournament_entries}
+                                  order={seedOrders[div.id] || []}
+                                  onChange={(order) =>
+                                    setSeedOrders((prev) => ({ ...prev, [div.id]: order }))
+                                  }
+                                />
+                              ))}
+                            </div>
+                          )}
+                          <div className="py-4">
+                            <h4 className="font-medium mb-2">Division Summary:</h4>
+                            <ul className="space-y-1 text-sm">
+                              {tournament.divisions.map((div) => (
+                                <li key={div.id} className="flex justify-between">
+                                  <span>{div.name}</span>
+                                  <span>
+                                    {div.checkedInCount || 0} players
+                                    {(div.checkedInCount || 0) < 2 && (
+                                      <span className="text-red-500 ml-2">(need 2+)</span>
+                                    )}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                          <DialogFooter>
+                            <Button variant="outline" onClick={() => setShowGenerateDialog(false)}>
+                              Cancel
+                            </Button>
+                            <Button onClick={generateBrackets} disabled={actionLoading}>
+                              {actionLoading ? 'Generating...' : 'Generate & Start'}
+                            </Button>
+                          </DialogFooter>
+                        </DialogContent>
+                      </Dialog>
+
+                      <Link href={`/tournaments/${tournamentId}/players`}>
+                        <Button variant="outline">Add Players First</Button>
+                      </Link>
+                    </div>
+                  </>
+                )}
+
+                {tournament.status === 'in_progress' && (
+                  <>
+                    <p className="text-gray-600">
+                      Tournament is active. Use the Director Dashboard to manage matches and scores.
+                    </p>
+                    <div className="flex gap-4">
+                      <Link href={`/tournaments/${tournamentId}/director`}>
+                        <Button>Open Director Dashboard</Button>
+                      </Link>
+                      <Link href={`/tournaments/${tournamentId}/public`}>
+                        <Button variant="outline">Public Bracket View</Button>
+                      </Link>
+                      <Button
+                        variant="outline"
+                        onClick={() => updateTournamentStatus('completed')}
+                        disabled={actionLoading}
+                      >
+                        Complete Tournament
+                      </Button>
+                    </div>
+                  </>
+                )}
+
+                {tournament.status === 'completed' && (
+                  <>
+                    <p className="text-gray-600">
+                      Tournament is complete. View final results and brackets.
+                    </p>
+                    <div className="flex gap-4">
+                      <Link href={`/tournaments/${tournamentId}/results`}>
+                        <Button>View Results</Button>
+                      </Link>
+                      <Link href={`/tournaments/${tournamentId}/brackets`}>
+                        <Button variant="outline">View Final Brackets</Button>
+                      </Link>
+                    </div>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {can('manage_tournament') && tournament.status !== 'completed' && (
+          <TablePoolSettings
+            tournamentId={tournamentId}
+            pool={tournament.table_pool}
+            divisions={tournament.divisions}
+            onSaved={(pool, priorities) =>
+              setTournament({
+                ...tournament,
+                table_pool: pool,
+                divisions: tournament.divisions.map((d) => ({
+                  ...d,
+                  call_priority: priorities[d.id] ?? null,
+                })),
+              })
+            }
+          />
+        )}
+
+        {can('manage_tournament') && tournament.status !== 'completed' && (
+          <SmsTemplateEditor
+            tournamentId={tournamentId}
+            directorPhone={tournament.director_phone}
+            overrides={tournament.sms_templates}
+            onSaved={(settings) => setTournament({ ...tournament, ...settings })}
+          />
+        )}
+
+        {can('manage_staff') && <StaffManager tournamentId={tournamentId} />}
       </main>
     </div>
   );
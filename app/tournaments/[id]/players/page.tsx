@@ -9,6 +9,8 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { PlayerList } from '@/components/players/PlayerList';
 import { PlayerRegistrationForm } from '@/components/players/PlayerRegistrationForm';
+import { AuthButton } from '@/components/auth/AuthButton';
+import { RequireRole, useTournamentAccess } from '@/components/auth/TournamentAccess';
 import { supabase } from '@/lib/supabase';
 import { toast } from 'sonner';
 import type { Tournament, Division, TournamentEntry, Player } from '@/lib/database.types';
@@ -23,9 +25,10 @@ interface DivisionWithCounts extends Division {
   checkedIn: number;
 }
 
-export default function TournamentPlayersPage() {
+function TournamentPlayers() {
   const params = useParams();
   const tournamentId = params.id as string;
+  const { can } = useTournamentAccess();
 
   const [tournament, setTournament] = useState<Tournament | null>(null);
   const [divisions, setDivisions] = useState<DivisionWithCounts[]>([]);
@@ -145,6 +148,7 @@ export default function TournamentPlayersPage() {
             <Link href="/players">
               <Button variant="ghost">Players</Button>
             </Link>
+            <AuthButton />
           </nav>
         </div>
       </header>
@@ -236,15 +240,25 @@ export default function TournamentPlayersPage() {
           </div>
 
           {/* Add Player Form */}
-          <div>
-            <PlayerRegistrationForm
-              tournamentId={tournamentId}
-              divisions={divisions}
-              onSuccess={loadData}
-            />
-          </div>
+          {can('manage_players') && (
+            <div>
+              <PlayerRegistrationForm
+                tournamentId={tournamentId}
+                divisions={divisions}
+                onSuccess={loadData}
+              />
+            </div>
+          )}
         </div>
       </main>
     </div>
   );
 }
+
+export default function TournamentPlayersPage() {
+  return (
+    <RequireRole>
+      <TournamentPlayers />
+    </RequireRole>
+  );
+}
@@ -23,6 +23,8 @@ interface BracketWithMatches extends Bracket {
 interface DivisionWithBrackets extends Division {
   mainBracket?: BracketWithMatches;
   consolationBracket?: BracketWithMatches;
+  grandFinalBracket?: BracketWithMatches;
+  lastChanceBracket?: BracketWithMatches;
 }
 
 export default function PublicBracketPage() {
@@ -84,6 +86,10 @@ export default function PublicBracketPage() {
             divisionData.mainBracket = bracketWithMatches;
           } else if (bracket.bracket_type === 'consolation') {
             divisionData.consolationBracket = bracketWithMatches;
+          } else if (bracket.bracket_type === 'grand_final') {
+            divisionData.grandFinalBracket = bracketWithMatches;
+          } else if (bracket.bracket_type === 'last_chance') {
+            divisionData.lastChanceBracket = bracketWithMatches;
           }
         }
 
@@ -220,6 +226,8 @@ export default function PublicBracketPage() {
                   division={division}
                   mainBracket={division.mainBracket}
                   consolationBracket={division.consolationBracket}
+                  grandFinalBracket={division.grandFinalBracket}
+                  lastChanceBracket={division.lastChanceBracket}
                 />
               </TabsContent>
             ))}
@@ -9,6 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { supabase } from '@/lib/supabase';
 import { formatDate, getTournamentStatusColor } from '@/lib/utils';
+import { getGrandFinalResult } from '@/lib/bracket-generator';
 import type { Tournament, Division, Bracket, Match, Player } from '@/lib/database.types';
 
 interface MatchWithPlayers extends Match {
@@ -23,11 +24,19 @@ interface BracketWithMatches extends Bracket {
 interface DivisionResults extends Division {
   mainBracket?: BracketWithMatches;
   consolationBracket?: BracketWithMatches;
+  grandFinalBracket?: BracketWithMatches;
   winner?: Player;
   runnerUp?: Player;
+  thirdPlace?: Player;
   consolationWinner?: Player;
 }
 
+function getFinalMatch(matches: MatchWithPlayers[]): MatchWithPlayers | undefined {
+  if (matches.length === 0) return undefined;
+  const maxRound = Math.max(...matches.map((m) => m.round_number));
+  return matches.find((m) => m.round_number === maxRound);
+}
+
 export default function ResultsPage() {
   const params = useParams();
   const tournamentId = params.id as string;
@@ -89,36 +98,55 @@ export default function ResultsPage() {
 
           if (bracket.bracket_type === 'main') {
             divisionData.mainBracket = bracketWithMatches;
-
-            // Get winner and runner-up from final match
-            const finalMatch = matches?.find(
-              (m) => m.round_number === Math.max(...matches.map((mm) => mm.round_number))
-            );
-
-            if (finalMatch?.winner_id) {
-              divisionData.winner =
-                finalMatch.winner_id === finalMatch.player1_id
-                  ? finalMatch.player1
-                  : finalMatch.player2;
-              divisionData.runnerUp =
-                finalMatch.winner_id === finalMatch.player1_id
-                  ? finalMatch.player2
-                  : finalMatch.player1;
-            }
           } else if (bracket.bracket_type === 'consolation') {
             divisionData.consolationBracket = bracketWithMatches;
+          } else if (bracket.bracket_type === 'grand_final') {
+            divisionData.grandFinalBracket = bracketWithMatches;
+          }
+        }
 
-            // Get consolation winner
-            const finalMatch = matches?.find(
-              (m) => m.round_number === Math.max(...(matches?.map((mm) => mm.round_number) || [0]))
-            );
-
-            if (finalMatch?.winner_id) {
-              divisionData.consolationWinner =
-                finalMatch.winner_id === finalMatch.player1_id
-                  ? finalMatch.player1
-                  : finalMatch.player2;
-            }
+        const grandFinalMatches = divisionData.grandFinalBracket?.matches || [];
+
+        if (grandFinalMatches.length > 0) {
+          // Champion and runner-up come from the grand final (or its reset)
+          const result = getGrandFinalResult(grandFinalMatches);
+          const players = grandFinalMatches.flatMap((m) => [m.player1, m.player2]);
+
+          if (result) {
+            divisionData.winner = players.find((p) => p?.id === result.winnerId);
+            divisionData.runnerUp = players.find((p) => p?.id === result.runnerUpId);
+          }
+
+          // Third place is the player knocked out in the consolation final
+          const consolationFinal = getFinalMatch(divisionData.consolationBracket?.matches || []);
+          if (consolationFinal?.winner_id) {
+            divisionData.thirdPlace =
+              consolationFinal.winner_id === consolationFinal.player1_id
+                ? consolationFinal.player2
+                : consolationFinal.player1;
+          }
+        } else {
+          // Brackets generated before grand finals: main final decides the winner
+          const finalMatch = getFinalMatch(divisionData.mainBracket?.matches || []);
+
+          if (finalMatch?.winner_id) {
+            divisionData.winner =
+              finalMatch.winner_id === finalMatch.player1_id
+                ? finalMatch.player1
+                : finalMatch.player2;
+            divisionData.runnerUp =
+              finalMatch.winner_id === finalMatch.player1_id
+                ? finalMatch.player2
+                : finalMatch.player1;
+          }
+
+          const consolationFinal = getFinalMatch(divisionData.consolationBracket?.matches || []);
+
+          if (consolationFinal?.winner_id) {
+            divisionData.consolationWinner =
+              consolationFinal.winner_id === consolationFinal.player1_id
+                ? consolationFinal.player1
+                : consolationFinal.player2;
           }
         }
 
@@ -231,6 +259,15 @@ export default function ResultsPage() {
                   </div>
                 )}
 
+                {/* Third Place - Consolation Final Loser */}
+                {division.thirdPlace && (
+                  <div className="text-center p-3 bg-orange-50 rounded-lg border border-orange-200">
+                    <div className="text-2xl mb-1">🥉</div>
+                    <p className="text-xs text-orange-700">Third Place</p>
+                    <p className="font-semibold text-gray-900">{division.thirdPlace.name}</p>
+                  </div>
+                )}
+
                 {/* Consolation Winner - 3rd Place */}
                 {division.consolationWinner && (
                   <div className="text-center p-3 bg-orange-50 rounded-lg border border-orange-200">
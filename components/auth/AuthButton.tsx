@@ -0,0 +1,28 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/lib/supabase';
+import { useSessionUser } from '@/components/auth/TournamentAccess';
+
+export function AuthButton() {
+  const pathname = usePathname();
+  const { user, loading } = useSessionUser();
+
+  if (loading) return null;
+
+  if (!user) {
+    return (
+      <Link href={`/login?next=${encodeURIComponent(pathname)}`}>
+        <Button variant="outline">Sign In</Button>
+      </Link>
+    );
+  }
+
+  return (
+    <Button variant="ghost" onClick={() => supabase.auth.signOut()} title={user.email}>
+      Sign Out
+    </Button>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { createContext, useContext, useEffect, useState } from 'react';
+import { usePathname } from 'next/navigation';
+import Link from 'next/link';
+import type { User } from '@supabase/supabase-js';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { supabase } from '@/lib/supabase';
+import { getTournamentRole, getUserActor, hasPermission, type Permission } from '@/lib/auth';
+import type { AuditActor } from '@/lib/audit';
+import type { StaffRole } from '@/lib/database.types';
+
+interface TournamentAccess {
+  user: User | null;
+  role: StaffRole | null;
+  actor: AuditActor | null;
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+}
+
+const TournamentAccessContext = createContext<TournamentAccess>({
+  user: null,
+  role: null,
+  actor: null,
+  loading: true,
+  can: () => false,
+});
+
+/**
+ * Track the signed-in director
+ */
+export function useSessionUser() {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setUser(data.session?.user ?? null);
+      setLoading(false);
+    });
+
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+    });
+
+    return () => {
+      listener.subscription.unsubscribe();
+    };
+  }, []);
+
+  return { user, loading };
+}
+
+export function TournamentAccessProvider({
+  tournamentId,
+  children,
+}: {
+  tournamentId: string;
+  children: React.ReactNode;
+}) {
+  const { user, loading: userLoading } = useSessionUser();
+  const [resolved, setResolved] = useState<{ key: string; role: StaffRole | null } | null>(null);
+
+  // Roles are looked up per tournament and user; a stale lookup never leaks across either
+  const key = user ? `${tournamentId}:${user.id}` : null;
+
+  useEffect(() => {
+    if (!user || !key) return;
+
+    getTournamentRole(tournamentId, user)
+      .then((role) => setResolved({ key, role }))
+      .catch(() => setResolved({ key, role: null }));
+  }, [tournamentId, user, key]);
+
+  const role = key && resolved?.key === key ? resolved.role : null;
+  const roleLoading = !!key && resolved?.key !== key;
+
+  return (
+    <TournamentAccessContext.Provider
+      value={{
+        user,
+        role,
+        actor: user ? getUserActor(user) : null,
+        loading: userLoading || roleLoading,
+        can: (permission) => hasPermission(role, permission),
+      }}
+    >
+      {children}
+    </TournamentAccessContext.Provider>
+  );
+}
+
+export function useTournamentAccess() {
+  return useContext(TournamentAccessContext);
+}
+
+function AccessLoading() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b bg-white">
+        <div className="container mx-auto px-4 py-4">
+          <Skeleton className="h-8 w-64" />
+        </div>
+      </header>
+    </div>
+  );
+}
+
+function AccessDenied({ user }: { user: User | null }) {
+  const pathname = usePathname();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          {user ? 'No Access' : 'Sign In Required'}
+        </h1>
+        <p className="text-gray-600 mb-4">
+          {user
+            ? `${user.email} is not on the staff for this tournament.`
+            : 'This page is only available to tournament directors.'}
+        </p>
+        <Link href={user ? '/tournaments' : `/login?next=${encodeURIComponent(pathname)}`}>
+          <Button>{user ? 'Back to Tournaments' : 'Sign In'}</Button>
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Only render children for directors with the given permission
+ */
+export function RequireRole({
+  permission = 'view',
+  children,
+}: {
+  permission?: Permission;
+  children: React.ReactNode;
+}) {
+  const { user, loading, can } = useTournamentAccess();
+
+  if (loading) return <AccessLoading />;
+  if (!user || !can(permission)) return <AccessDenied user={user} />;
+
+  return <>{children}</>;
+}
+
+/**
+ * Only render children for signed-in directors, on pages outside any one
+ * tournament. API routes still check what each director may change.
+ */
+export function RequireSignIn({ children }: { children: React.ReactNode }) {
+  const { user, loading } = useSessionUser();
+
+  if (loading) return <AccessLoading />;
+  if (!user) return <AccessDenied user={null} />;
+
+  return <>{children}</>;
+}
@@ -25,6 +25,8 @@ function getBracketTypeLabel(type: BracketType): string {
       return 'Main Bracket (Winners)';
     case 'consolation':
       return 'Consolation Bracket (Losers)';
+    case 'grand_final':
+      return 'Grand Final';
     case 'last_chance':
       return 'Last Chance Bracket';
     default:
@@ -38,6 +40,8 @@ function getBracketTypeColor(type: BracketType): string {
       return 'bg-blue-100 text-blue-800';
     case 'consolation':
       return 'bg-orange-100 text-orange-800';
+    case 'grand_final':
+      return 'bg-yellow-100 text-yellow-800';
     case 'last_chance':
       return 'bg-purple-100 text-purple-800';
     default:
@@ -45,6 +49,15 @@ function getBracketTypeColor(type: BracketType): string {
   }
 }
 
+function getRoundLabel(type: BracketType, roundNum: number, maxRound: number): string {
+  if (type === 'grand_final') {
+    return roundNum === 1 ? 'Grand Final' : 'Bracket Reset';
+  }
+  if (roundNum !== maxRound) return `Round ${roundNum}`;
+  if (type === 'last_chance') return 'Last Chance Finals';
+  return type === 'main' ? 'Finals' : 'Consolation Finals';
+}
+
 export function BracketDisplay({
   bracket,
   matches,
@@ -111,11 +124,7 @@ export function BracketDisplay({
               {/* Round Header */}
               <div className="text-center mb-3">
                 <h4 className="font-semibold text-gray-700">
-                  {roundNum === maxRound
-                    ? bracket.bracket_type === 'main'
-                      ? 'Finals'
-                      : 'Consolation Finals'
-                    : `Round ${roundNum}`}
+                  {getRoundLabel(bracket.bracket_type, roundNum, maxRound)}
                 </h4>
                 <p className="text-xs text-gray-500">
                   {roundsData[roundNum].length} match{roundsData[roundNum].length !== 1 ? 'es' : ''}
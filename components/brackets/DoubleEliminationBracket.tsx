@@ -18,6 +18,8 @@ interface DoubleEliminationBracketProps {
   division: Division;
   mainBracket?: BracketWithMatches;
   consolationBracket?: BracketWithMatches;
+  grandFinalBracket?: BracketWithMatches;
+  lastChanceBracket?: BracketWithMatches;
   onMatchClick?: (match: MatchWithPlayers) => void;
   compact?: boolean;
 }
@@ -26,17 +28,27 @@ export function DoubleEliminationBracket({
   division,
   mainBracket,
   consolationBracket,
+  grandFinalBracket,
+  lastChanceBracket,
   onMatchClick,
   compact = false,
 }: DoubleEliminationBracketProps) {
   const mainMatches = mainBracket?.matches || [];
   const consolationMatches = consolationBracket?.matches || [];
+  const grandFinalMatches = grandFinalBracket?.matches || [];
+  const lastChanceMatches = lastChanceBracket?.matches || [];
+  const allMatches = [
+    ...mainMatches,
+    ...consolationMatches,
+    ...grandFinalMatches,
+    ...lastChanceMatches,
+  ];
 
-  const totalMatches = mainMatches.length + consolationMatches.length;
-  const completedMatches = [...mainMatches, ...consolationMatches].filter(
+  const totalMatches = allMatches.length;
+  const completedMatches = allMatches.filter(
     (m) => m.status === 'completed' || m.status === 'bye'
   ).length;
-  const inProgressMatches = [...mainMatches, ...consolationMatches].filter(
+  const inProgressMatches = allMatches.filter(
     (m) => m.status === 'in_progress'
   ).length;
 
@@ -90,6 +102,32 @@ export function DoubleEliminationBracket({
           </div>
         )}
 
+        {/* Grand Final (reset match appears only if the consolation side wins) */}
+        {grandFinalBracket && grandFinalMatches.length > 0 && (
+          <div className="border-t pt-6">
+            <BracketDisplay
+              bracket={grandFinalBracket}
+              matches={grandFinalMatches}
+              matchLength={division.match_length}
+              onMatchClick={onMatchClick}
+              compact={compact}
+            />
+          </div>
+        )}
+
+        {/* Last Chance Bracket */}
+        {lastChanceBracket && lastChanceMatches.length > 0 && (
+          <div className="border-t pt-6">
+            <BracketDisplay
+              bracket={lastChanceBracket}
+              matches={lastChanceMatches}
+              matchLength={division.match_length}
+              onMatchClick={onMatchClick}
+              compact={compact}
+            />
+          </div>
+        )}
+
         {/* Empty State */}
         {!mainBracket && !consolationBracket && (
           <div className="text-center py-8 text-gray-500">
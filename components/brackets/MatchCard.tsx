@@ -1,7 +1,9 @@
 'use client';
 
+import { useState } from 'react';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
+import { GAME_RESULTS, runningScores } from '@/lib/scoresheet';
 import type { Match, Player, MatchStatus } from '@/lib/database.types';
 
 interface MatchCardProps {
@@ -40,6 +42,10 @@ export function MatchCard({ match, matchLength, onClick, compact = false }: Matc
   const player1IsWinner = match.winner_id === match.player1_id;
   const player2IsWinner = match.winner_id === match.player2_id;
 
+  const [showGames, setShowGames] = useState(false);
+  const games = match.games ?? [];
+  const scores = runningScores(games, match.player1_id);
+
   return (
     <div
       onClick={onClick}
@@ -124,8 +130,56 @@ export function MatchCard({ match, matchLength, onClick, compact = false }: Matc
         <div className="mt-2 pt-2 border-t text-xs text-gray-500 text-center">
           Final: {match.player1_score} - {match.player2_score}
           {matchLength > 0 && ` (${matchLength}pt match)`}
+          {match.forfeit === 'time' && ' • on time'}
+          {games.length > 0 && (
+            <button
+              type="button"
+              className="ml-2 text-blue-600 hover:underline"
+              onClick={(e) => {
+                // Don't open the match the card belongs to
+                e.stopPropagation();
+                setShowGames(!showGames);
+              }}
+            >
+              {showGames ? 'Hide games' : `${games.length} games`}
+            </button>
+          )}
         </div>
       )}
+
+      {/* Game-by-game scoresheet */}
+      {!compact && showGames && games.length > 0 && (
+        <table className="mt-2 w-full text-xs">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="text-left font-normal">#</th>
+              <th className="text-left font-normal">Winner</th>
+              <th className="text-right font-normal">Cube</th>
+              <th className="text-right font-normal">Pts</th>
+              <th className="text-right font-normal">Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {games.map((game, index) => (
+              <tr key={game.game_number}>
+                <td>{game.game_number}</td>
+                <td className="truncate max-w-[100px]">
+                  {game.winner_id === match.player1_id ? player1Name : player2Name}
+                  {game.result !== 'single' && (
+                    <span className="text-gray-500"> ({GAME_RESULTS[game.result].label})</span>
+                  )}
+                  {game.crawford && <span className="text-gray-500"> CR</span>}
+                </td>
+                <td className="text-right font-mono">{game.cube_value}</td>
+                <td className="text-right font-mono">{game.points}</td>
+                <td className="text-right font-mono">
+                  {scores[index].player1Score}-{scores[index].player2Score}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
     </div>
   );
 }
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTournamentAccess } from '@/components/auth/TournamentAccess';
+import { authFetch } from '@/lib/auth';
+import { formatElapsed } from '@/lib/match-timing';
+import { holdsTable, orderCallQueue, pickFreeTable } from '@/lib/table-pool';
+import { toast } from 'sonner';
+import type { TablePool } from '@/lib/database.types';
+import type { BoardMatch } from '@/components/director/TableBoard';
+
+interface CallQueueProps {
+  tournamentId: string;
+  pool: TablePool | null;
+  matches: BoardMatch[];
+  now: number;
+  onCalled: () => void;
+}
+
+export function CallQueue({ tournamentId, pool, matches, now, onCalled }: CallQueueProps) {
+  const { can } = useTournamentAccess();
+  const [calling, setCalling] = useState<string | null>(null);
+
+  const queue = orderCallQueue(
+    matches.filter(
+      (m) => m.status === 'pending' && m.table_number === null && m.player1_id && m.player2_id
+    ),
+    (m) => m.call_priority
+  );
+  const occupied = new Set(matches.filter(holdsTable).map((m) => m.table_number as number));
+
+  const handleCall = async (match: BoardMatch, table: number) => {
+    setCalling(match.id);
+    try {
+      const response = await authFetch(`/api/tournaments/${tournamentId}/call-queue`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ matchId: match.id, tableNumber: table }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to call match');
+        return;
+      }
+      toast.success(`${match.player1?.name} vs ${match.player2?.name} called to table ${table}`);
+      onCalled();
+    } catch (error) {
+      console.error('Error calling match:', error);
+      toast.error('Failed to call match');
+    } finally {
+      setCalling(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Call Queue</CardTitle>
+        <CardDescription>Ready matches waiting for a table, next to call first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {queue.length === 0 ? (
+          <p className="text-center text-gray-500 py-2">No matches waiting for a table</p>
+        ) : (
+          <div className="space-y-2">
+            {queue.map((match, index) => {
+              // Suggest a different table for each match so the whole queue can be called
+              const table = pickFreeTable(pool, match.division_id, occupied);
+              if (table !== null) occupied.add(table);
+              const waited = Math.max(0, Math.floor((now - new Date(match.created_at).getTime()) / 60000));
+              return (
+                <div key={match.id} className="p-2 bg-gray-50 rounded text-sm space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      {index + 1}. {match.player1?.name} vs {match.player2?.name}
+                    </span>
+                    <span className="font-mono text-gray-600">{formatElapsed(waited)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2 text-gray-600">
+                      {match.division_name}
+                      {match.call_priority !== null && (
+                        <Badge variant="outline">Priority {match.call_priority}</Badge>
+                      )}
+                    </span>
+                    {can('score') && (
+                      <Button
+                        size="sm"
+                        onClick={() => table !== null && handleCall(match, table)}
+                        disabled={table === null || calling === match.id}
+                      >
+                        {table === null ? 'No free table' : `Call to table ${table}`}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { toast } from 'sonner';
+import { authFetch } from '@/lib/auth';
+import type { CorrectionPreview, DownstreamState } from '@/lib/corrections';
+import type { BracketType, Match, Player } from '@/lib/database.types';
+
+interface MatchWithPlayers extends Match {
+  player1?: Player;
+  player2?: Player;
+}
+
+interface CorrectResultDialogProps {
+  match: MatchWithPlayers | null;
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const BRACKET_LABELS: Record<BracketType, string> = {
+  main: 'Main',
+  consolation: 'Consolation',
+  grand_final: 'Grand Final',
+  last_chance: 'Last Chance',
+};
+
+const STATE_BADGES: Record<DownstreamState, { label: string; className: string }> = {
+  repair: { label: 'Will update', className: 'bg-green-100 text-green-800' },
+  warn: { label: 'In progress', className: 'bg-yellow-100 text-yellow-800' },
+  blocked: { label: 'Already played', className: 'bg-red-100 text-red-800' },
+};
+
+export function CorrectResultDialog({ match, open, onClose, onSuccess }: CorrectResultDialogProps) {
+  const [player1Score, setPlayer1Score] = useState<string>('');
+  const [player2Score, setPlayer2Score] = useState<string>('');
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<CorrectionPreview | null>(null);
+  const [confirmed, setConfirmed] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset form when match changes
+  useEffect(() => {
+    if (match) {
+      setPlayer1Score(match.player1_score.toString());
+      setPlayer2Score(match.player2_score.toString());
+      setReason('');
+      setPreview(null);
+      setConfirmed(false);
+      setError(null);
+    }
+  }, [match]);
+
+  if (!match) return null;
+
+  const getName = (playerId: string | null) =>
+    playerId === match.player1_id
+      ? match.player1?.name || 'Player 1'
+      : playerId === match.player2_id
+      ? match.player2?.name || 'Player 2'
+      : 'Unknown';
+
+  const submit = async (dryRun: boolean) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/matches/${match.id}/correct`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          player1Score: parseInt(player1Score) || 0,
+          player2Score: parseInt(player2Score) || 0,
+          reason: reason.trim() || undefined,
+          dryRun,
+          confirm: confirmed,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.preview) setPreview(result.preview);
+        setError(result.error || 'Failed to correct result');
+        return;
+      }
+
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+
+      toast.success(
+        result.changes.length > 0
+          ? `Result corrected, ${result.changes.length} later matches updated`
+          : 'Result corrected'
+      );
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error correcting result:', err);
+      setError('Failed to correct result. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateScore = (setter: (value: string) => void, value: string) => {
+    setter(value);
+    // A new score needs a fresh look at what it affects
+    setPreview(null);
+    setConfirmed(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Correct Result</DialogTitle>
+          <DialogDescription>
+            Match {match.match_number} • Round {match.round_number} • currently{' '}
+            {getName(match.winner_id)} wins {match.player1_score}-{match.player2_score}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="correctPlayer1Score">{getName(match.player1_id)}</Label>
+              <Input
+                id="correctPlayer1Score"
+                type="number"
+                min="0"
+                value={player1Score}
+                onChange={(e) => updateScore(setPlayer1Score, e.target.value)}
+                className="text-xl text-center font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="correctPlayer2Score">{getName(match.player2_id)}</Label>
+              <Input
+                id="correctPlayer2Score"
+                type="number"
+                min="0"
+                value={player2Score}
+                onChange={(e) => updateScore(setPlayer2Score, e.target.value)}
+                className="text-xl text-center font-mono"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="correctionReason">Reason</Label>
+            <Textarea
+              id="correctionReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Players reported the score reversed"
+            />
+          </div>
+
+          {/* Downstream Impact */}
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                {preview.changes.length === 0
+                  ? preview.winnerChanged
+                    ? 'No later matches are affected.'
+                    : 'The winner stays the same; only the score changes.'
+                  : 'Later matches affected:'}
+              </p>
+              {preview.changes.map((change) => (
+                <div
+                  key={change.match.id}
+                  className="flex items-center justify-between p-2 bg-gray-50 rounded text-sm"
+                >
+                  <span>
+                    <span className="text-gray-500 mr-2">
+                      {BRACKET_LABELS[change.bracket_type]} R{change.match.round_number} M
+                      {change.match.match_number}
+                    </span>
+                    {change.action === 'remove'
+                      ? 'No longer needed, will be removed'
+                      : `${getName(change.from)} → ${getName(change.to)}`}
+                  </span>
+                  <Badge className={STATE_BADGES[change.state].className}>
+                    {STATE_BADGES[change.state].label}
+                  </Badge>
+                </div>
+              ))}
+              {preview.needsConfirmation && !preview.blocked && (
+                <div className="flex items-center space-x-2 pt-2">
+                  <Checkbox
+                    id="confirmInProgress"
+                    checked={confirmed}
+                    onCheckedChange={(checked) => setConfirmed(checked === true)}
+                  />
+                  <Label htmlFor="confirmInProgress" className="cursor-pointer">
+                    Restart the in-progress matches with the new players
+                  </Label>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button variant="outline" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button
+              onClick={() => submit(false)}
+              disabled={loading || preview.blocked || (preview.needsConfirmation && !confirmed)}
+            >
+              {loading ? 'Saving...' : 'Apply Correction'}
+            </Button>
+          ) : (
+            <Button onClick={() => submit(true)} disabled={loading}>
+              {loading ? 'Checking...' : 'Review Impact'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
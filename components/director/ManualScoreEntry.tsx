@@ -14,10 +14,13 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { supabase } from '@/lib/supabase';
+import { authFetch } from '@/lib/auth';
+import { ScoresheetEditor } from '@/components/director/ScoresheetEditor';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
-import type { Match, Player } from '@/lib/database.types';
+import { validateScore, DEFAULT_SCORE_RULES } from '@/lib/score-parser';
+import { validateScoresheet } from '@/lib/scoresheet';
+import type { Match, MatchGame, Player, ScoreRules } from '@/lib/database.types';
 
 interface MatchWithPlayers extends Match {
   player1?: Player;
@@ -27,6 +30,7 @@ interface MatchWithPlayers extends Match {
 interface ManualScoreEntryProps {
   match: MatchWithPlayers | null;
   matchLength: number;
+  scoreRules?: ScoreRules | null;
   open: boolean;
   onClose: () => void;
   onSuccess: () => void;
@@ -35,6 +39,7 @@ interface ManualScoreEntryProps {
 export function ManualScoreEntry({
   match,
   matchLength,
+  scoreRules = null,
   open,
   onClose,
   onSuccess,
@@ -42,6 +47,7 @@ export function ManualScoreEntry({
   const [player1Score, setPlayer1Score] = useState<string>('');
   const [player2Score, setPlayer2Score] = useState<string>('');
   const [tableNumber, setTableNumber] = useState<string>('');
+  const [games, setGames] = useState<MatchGame[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -51,6 +57,7 @@ export function ManualScoreEntry({
       setPlayer1Score(match.player1_score?.toString() || '');
       setPlayer2Score(match.player2_score?.toString() || '');
       setTableNumber(match.table_number?.toString() || '');
+      setGames(match.games ?? []);
       setError(null);
     }
   }, [match]);
@@ -78,32 +85,43 @@ export function ManualScoreEntry({
       ? player2Name
       : null;
 
+  const maxScore = matchLength + (scoreRules ?? DEFAULT_SCORE_RULES).max_overshoot;
+
   // Validation
-  const validateScores = (): string | null => {
-    if (p1Score < 0 || p2Score < 0) {
-      return 'Scores must be positive';
-    }
-    if (p1Score > matchLength && p2Score > matchLength) {
-      return `Scores cannot both exceed match length (${matchLength})`;
-    }
-    if (p1Score !== matchLength && p2Score !== matchLength) {
-      return `One player must reach ${matchLength} points to win`;
-    }
-    if (p1Score === p2Score) {
-      return 'Scores cannot be tied';
-    }
-    if (Math.max(p1Score, p2Score) !== matchLength) {
-      return `Winner must have exactly ${matchLength} points`;
-    }
-    if (Math.min(p1Score, p2Score) >= matchLength) {
-      return `Losing score must be less than ${matchLength}`;
-    }
-    return null;
+  const validateScores = (): string | null =>
+    validateScore({ player1Score: p1Score, player2Score: p2Score }, matchLength, scoreRules).error ??
+    validateScoresheet(
+      games,
+      {
+        player1Id: match.player1_id,
+        player2Id: match.player2_id,
+        player1Score: p1Score,
+        player2Score: p2Score,
+      },
+      matchLength,
+      scoreRules
+    ).error ??
+    null;
+
+  const applyGameTotals = (total1: number, total2: number) => {
+    setPlayer1Score(Math.min(total1, maxScore).toString());
+    setPlayer2Score(Math.min(total2, maxScore).toString());
   };
 
   const validationError = player1Score && player2Score ? validateScores() : null;
   const isValid = !validationError && winnerId !== null;
 
+  const retryAdvance = async (matchId: string) => {
+    const response = await authFetch(`/api/matches/${matchId}/advance`, { method: 'POST' });
+    if (!response.ok) {
+      toast.error('The next matches still could not be generated');
+      return;
+    }
+    const advancement = await response.json();
+    toast.success(`${advancement.createdMatches} new matches ready`);
+    onSuccess();
+  };
+
   const handleSubmit = async () => {
     const err = validateScores();
     if (err) {
@@ -115,21 +133,36 @@ export function ManualScoreEntry({
     setError(null);
 
     try {
-      const { error: updateError } = await supabase
-        .from('matches')
-        .update({
-          player1_score: p1Score,
-          player2_score: p2Score,
-          winner_id: winnerId,
-          table_number: tableNumber ? parseInt(tableNumber) : null,
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-        })
-        .eq('id', match.id);
-
-      if (updateError) throw updateError;
+      // Saving the score also creates the matches this result unlocks
+      const response = await authFetch(`/api/matches/${match.id}/score`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          player1Score: p1Score,
+          player2Score: p2Score,
+          games,
+          tableNumber: tableNumber ? parseInt(tableNumber) : null,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || 'Failed to save score. Please try again.');
+        return;
+      }
 
+      const { advancement } = result;
       toast.success(`Score saved! ${winnerName} wins ${p1Score}-${p2Score}`);
+      if (!advancement) {
+        toast.error('Score saved, but the next matches could not be generated', {
+          description: 'Retry here or with Create Next Matches on the director dashboard',
+          action: { label: 'Retry', onClick: () => retryAdvance(match.id) },
+        });
+      } else if (advancement.tournamentCompleted) {
+        toast.success('Tournament complete!');
+      } else if (advancement.createdMatches > 0) {
+        toast.success(`${advancement.createdMatches} new matches ready`);
+      }
       onSuccess();
       onClose();
     } catch (err) {
@@ -143,7 +176,7 @@ export function ManualScoreEntry({
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Enter Match Score</DialogTitle>
           <DialogDescription>
@@ -166,7 +199,7 @@ export function ManualScoreEntry({
               id="player1Score"
               type="number"
               min="0"
-              max={matchLength}
+              max={maxScore}
               value={player1Score}
               onChange={(e) => setPlayer1Score(e.target.value)}
               placeholder="Score"
@@ -194,7 +227,7 @@ export function ManualScoreEntry({
               id="player2Score"
               type="number"
               min="0"
-              max={matchLength}
+              max={maxScore}
               value={player2Score}
               onChange={(e) => setPlayer2Score(e.target.value)}
               placeholder="Score"
@@ -218,6 +251,16 @@ export function ManualScoreEntry({
             />
           </div>
 
+          {/* Game-by-game scoresheet */}
+          <ScoresheetEditor
+            games={games}
+            player1={match.player1}
+            player2={match.player2}
+            matchLength={matchLength}
+            onChange={setGames}
+            onUseTotals={applyGameTotals}
+          />
+
           {/* Validation Error */}
           {(error || validationError) && (
             <Alert variant="destructive">
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTournamentAccess } from '@/components/auth/TournamentAccess';
+import { authFetch } from '@/lib/auth';
+import { cn } from '@/lib/utils';
+import { elapsedMinutes, expectedMinutes, formatElapsed } from '@/lib/match-timing';
+import { toast } from 'sonner';
+import type { Match, Player } from '@/lib/database.types';
+
+export interface OverdueMatch extends Match {
+  player1?: Player;
+  player2?: Player;
+  division_name: string;
+  match_length: number;
+}
+
+interface OverdueMatchesProps {
+  tournamentId: string;
+  matches: OverdueMatch[];
+  minutesPerPoint: number;
+  now: number;
+  onSettingsSaved: (minutesPerPoint: number) => void;
+}
+
+export function OverdueMatches({
+  tournamentId,
+  matches,
+  minutesPerPoint,
+  now,
+  onSettingsSaved,
+}: OverdueMatchesProps) {
+  const { can } = useTournamentAccess();
+  const [pace, setPace] = useState(minutesPerPoint.toString());
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    const value = parseInt(pace);
+    if (!(value > 0)) {
+      toast.error('Minutes per point must be at least 1');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await authFetch(`/api/tournaments/${tournamentId}/settings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ matchMinutesPerPoint: value }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to update overdue alert');
+        return;
+      }
+
+      onSettingsSaved(value);
+      toast.success('Overdue alert updated');
+    } catch (error) {
+      console.error('Error updating overdue alert:', error);
+      toast.error('Failed to update overdue alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className={cn(matches.length > 0 && 'border-red-300')}>
+      <CardHeader>
+        <CardTitle className={cn(matches.length > 0 && 'text-red-700')}>
+          Overdue Matches
+          {matches.length > 0 && ` (${matches.length})`}
+        </CardTitle>
+        <CardDescription>
+          Matches running longer than {minutesPerPoint} minutes per point
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {matches.length === 0 ? (
+          <p className="text-center text-gray-500 py-2">Every match is on pace</p>
+        ) : (
+          <div className="space-y-2">
+            {matches.map((match) => (
+              <div key={match.id} className="p-2 bg-red-50 rounded text-sm">
+                <div className="flex justify-between">
+                  <span className="font-medium">
+                    {match.table_number ? `Table ${match.table_number}` : match.division_name}
+                  </span>
+                  <span className="font-mono text-red-700">
+                    {formatElapsed(elapsedMinutes(match, now) ?? 0)} /{' '}
+                    {formatElapsed(expectedMinutes(match.match_length, minutesPerPoint))}
+                  </span>
+                </div>
+                <p className="text-gray-600">
+                  {match.player1?.name} vs {match.player2?.name}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {can('manage_tournament') && (
+          <div className="flex items-end gap-2">
+            <div className="space-y-1 flex-1">
+              <Label htmlFor="minutesPerPoint" className="text-xs">
+                Alert after (minutes per point)
+              </Label>
+              <Input
+                id="minutesPerPoint"
+                type="number"
+                min="1"
+                value={pace}
+                onChange={(e) => setPace(e.target.value)}
+              />
+            </div>
+            <Button size="sm" variant="outline" onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
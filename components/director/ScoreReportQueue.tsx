@@ -8,8 +8,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { supabase } from '@/lib/supabase';
+import { authFetch } from '@/lib/auth';
+import { useTournamentAccess } from '@/components/auth/TournamentAccess';
 import { formatRelativeTime } from '@/lib/utils';
-import type { ScoreReport, Match, Player } from '@/lib/database.types';
+import { validateScore } from '@/lib/score-parser';
+import type { ScoreReport, ScoreOrientation, ScoreRules, Match, Player } from '@/lib/database.types';
 
 interface ScoreReportWithDetails extends ScoreReport {
   match?: Match & {
@@ -19,6 +22,7 @@ interface ScoreReportWithDetails extends ScoreReport {
       division?: {
         match_length: number;
         name: string;
+        score_rules: ScoreRules | null;
       };
     };
   };
@@ -30,6 +34,13 @@ interface ScoreReportQueueProps {
   onScoreApproved?: () => void;
 }
 
+const ORIENTATION_LABELS: Record<ScoreOrientation, string> = {
+  names: 'Matched player names',
+  sender: 'Relative to sender ("I won")',
+  sender_first: "Sender's score first",
+  match_order: 'Assumed match order',
+};
+
 function getConfidenceBadge(score: number | null) {
   if (score === null) return <Badge variant="outline">Unknown</Badge>;
   if (score >= 80) return <Badge className="bg-green-100 text-green-800">High ({score}%)</Badge>;
@@ -43,9 +54,14 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
   const [editingReport, setEditingReport] = useState<ScoreReportWithDetails | null>(null);
   const [editScores, setEditScores] = useState({ player1: 0, player2: 0 });
   const [processing, setProcessing] = useState<string | null>(null);
+  const { can } = useTournamentAccess();
+  const canScore = can('score');
 
   const loadReports = useCallback(async () => {
     try {
+      // Opponents who never replied hand their report to the director
+      await authFetch(`/api/tournaments/${tournamentId}/score-reports/expire`, { method: 'POST' });
+
       // Get all brackets for this tournament to filter matches
       const { data: brackets } = await supabase
         .from('brackets')
@@ -70,12 +86,12 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
             player1:players!matches_player1_id_fkey (*),
             player2:players!matches_player2_id_fkey (*),
             bracket:brackets!inner (
-              division:divisions!inner (name, match_length)
+              division:divisions!inner (name, match_length, score_rules)
             )
           ),
           reporter:players!score_reports_reported_by_player_id_fkey (*)
         `)
-        .eq('status', 'pending')
+        .in('status', ['pending', 'disputed', 'awaiting_confirmation'])
         .in('match.bracket_id', bracketIds)
         .order('created_at', { ascending: false });
 
@@ -91,6 +107,12 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
     loadReports();
   }, [loadReports]);
 
+  // Re-check every minute so unanswered confirmations time out on screen
+  useEffect(() => {
+    const interval = setInterval(loadReports, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [loadReports]);
+
   // Real-time subscription
   useEffect(() => {
     const channel = supabase
@@ -107,47 +129,40 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
     };
   }, [loadReports]);
 
+  // Checked against the division's rules before a director can approve
+  const getScoreError = (report: ScoreReportWithDetails, player1Score?: number, player2Score?: number) => {
+    const division = report.match?.bracket?.division;
+    if (!division) return null;
+    return (
+      validateScore(
+        {
+          player1Score: player1Score ?? report.parsed_player1_score ?? undefined,
+          player2Score: player2Score ?? report.parsed_player2_score ?? undefined,
+        },
+        division.match_length,
+        division.score_rules
+      ).error ?? null
+    );
+  };
+
   const handleApprove = async (report: ScoreReportWithDetails, p1Score?: number, p2Score?: number) => {
     if (!report.match) return;
 
     setProcessing(report.id);
     try {
-      const finalP1Score = p1Score ?? report.parsed_player1_score ?? 0;
-      const finalP2Score = p2Score ?? report.parsed_player2_score ?? 0;
-      const winnerId = finalP1Score > finalP2Score ? report.match.player1_id : report.match.player2_id;
-
-      // Update the match
-      const { error: matchError } = await supabase
-        .from('matches')
-        .update({
-          winner_id: winnerId,
-          player1_score: finalP1Score,
-          player2_score: finalP2Score,
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-        })
-        .eq('id', report.match_id);
-
-      if (matchError) throw matchError;
-
-      // Update the report status
-      await supabase
-        .from('score_reports')
-        .update({
-          status: 'approved',
-          approved_at: new Date().toISOString(),
-        })
-        .eq('id', report.id);
-
-      // Send confirmation SMS
-      await fetch('/api/sms/send', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          to: report.reported_by_phone,
-          message: `Your score has been approved! ${report.match.player1?.name} ${finalP1Score} - ${report.match.player2?.name} ${finalP2Score}`,
-        }),
-      });
+      // The server records the result, advances the bracket and texts the reporter
+      const response = await authFetch(
+        `/api/tournaments/${tournamentId}/score-reports/${report.id}/approve`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ player1Score: p1Score, player2Score: p2Score }),
+        }
+      );
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error);
+      }
 
       loadReports();
       onScoreApproved?.();
@@ -162,22 +177,18 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
   const handleReject = async (report: ScoreReportWithDetails, reason?: string) => {
     setProcessing(report.id);
     try {
-      await supabase
-        .from('score_reports')
-        .update({ status: 'rejected' })
-        .eq('id', report.id);
-
-      // Send rejection SMS
-      await fetch('/api/sms/send', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          to: report.reported_by_phone,
-          message: reason
-            ? `Your score report was not accepted: ${reason}. Please re-submit or see the tournament director.`
-            : 'Your score report could not be processed. Please re-submit or see the tournament director.',
-        }),
-      });
+      const response = await authFetch(
+        `/api/tournaments/${tournamentId}/score-reports/${report.id}/reject`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ reason }),
+        }
+      );
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error);
+      }
 
       loadReports();
     } catch (error) {
@@ -189,7 +200,11 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
 
   const handleApproveAll = async () => {
     const highConfidenceReports = reports.filter(
-      (r) => r.confidence_score !== null && r.confidence_score >= 80
+      (r) =>
+        r.status === 'pending' &&
+        r.confidence_score !== null &&
+        r.confidence_score >= 80 &&
+        getScoreError(r) === null
     );
 
     for (const report of highConfidenceReports) {
@@ -219,7 +234,11 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
   }
 
   const highConfidenceCount = reports.filter(
-    (r) => r.confidence_score !== null && r.confidence_score >= 80
+    (r) =>
+      r.status === 'pending' &&
+      r.confidence_score !== null &&
+      r.confidence_score >= 80 &&
+      getScoreError(r) === null
   ).length;
 
   return (
@@ -255,6 +274,12 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
                           {report.reported_by_phone}
                         </span>
                         {getConfidenceBadge(report.confidence_score)}
+                        {report.status === 'disputed' && (
+                          <Badge className="bg-red-100 text-red-800">Disputed</Badge>
+                        )}
+                        {report.status === 'awaiting_confirmation' && (
+                          <Badge className="bg-blue-100 text-blue-800">Awaiting opponent</Badge>
+                        )}
                         {report.match?.bracket?.division && (
                           <Badge variant="outline">
                             {report.match.bracket.division.name}
@@ -280,6 +305,18 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
                       <p className="font-mono">&quot;{report.raw_text}&quot;</p>
                     </div>
 
+                    {/* Opponent's Reply */}
+                    {report.status === 'disputed' && (
+                      <div className="bg-white p-2 rounded border border-red-200">
+                        <p className="text-sm text-gray-500 mb-1">Opponent&apos;s reply:</p>
+                        {report.confirmation_text ? (
+                          <p className="font-mono">&quot;{report.confirmation_text}&quot;</p>
+                        ) : (
+                          <p className="text-sm text-red-600">No reply before the confirmation timed out</p>
+                        )}
+                      </div>
+                    )}
+
                     {/* Parsed Result */}
                     <div>
                       <p className="text-sm text-gray-500 mb-1">Parsed as:</p>
@@ -292,19 +329,30 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
                       ) : (
                         <p className="text-red-600">Could not parse scores</p>
                       )}
+                      {report.orientation && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {ORIENTATION_LABELS[report.orientation]}
+                          {report.reporter && ` • reported by ${report.reporter.name}`}
+                        </p>
+                      )}
+                      {report.parse_reasons && report.parse_reasons.length > 0 && (
+                        <ul className="text-xs text-gray-500 mt-1 list-disc list-inside">
+                          {report.parse_reasons.map((reason, i) => (
+                            <li key={i}>{reason}</li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
 
                     {/* Actions */}
+                    {canScore && (
                     <div className="flex gap-2 pt-2">
                       <Button
                         size="sm"
                         className="bg-green-600 hover:bg-green-700"
                         onClick={() => handleApprove(report)}
-                        disabled={
-                          processing === report.id ||
-                          report.parsed_player1_score === null ||
-                          report.parsed_player2_score === null
-                        }
+                        disabled={processing === report.id || getScoreError(report) !== null}
+                        title={getScoreError(report) ?? undefined}
                       >
                         {processing === report.id ? 'Processing...' : 'Approve'}
                       </Button>
@@ -326,12 +374,13 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
                         Reject
                       </Button>
                     </div>
+                    )}
                   </div>
                 ))}
               </div>
 
               {/* Batch Actions */}
-              {highConfidenceCount > 0 && (
+              {canScore && highConfidenceCount > 0 && (
                 <div className="pt-4 border-t">
                   <Button onClick={handleApproveAll} className="w-full">
                     Approve All High-Confidence Reports ({highConfidenceCount})
@@ -386,6 +435,12 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
                 </p>
               )}
 
+              {getScoreError(editingReport, editScores.player1, editScores.player2) && (
+                <p className="text-sm text-red-600">
+                  {getScoreError(editingReport, editScores.player1, editScores.player2)}
+                </p>
+              )}
+
               <div className="flex gap-2 justify-end">
                 <Button variant="outline" onClick={() => setEditingReport(null)}>
                   Cancel
@@ -394,7 +449,10 @@ export function ScoreReportQueue({ tournamentId, onScoreApproved }: ScoreReportQ
                   onClick={() =>
                     handleApprove(editingReport, editScores.player1, editScores.player2)
                   }
-                  disabled={processing === editingReport.id}
+                  disabled={
+                    processing === editingReport.id ||
+                    getScoreError(editingReport, editScores.player1, editScores.player2) !== null
+                  }
                 >
                   Save & Approve
                 </Button>
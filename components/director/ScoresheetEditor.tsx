@@ -0,0 +1,170 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CUBE_VALUES,
+  GAME_RESULTS,
+  crawfordGameNumber,
+  gamePoints,
+  runningScores,
+} from '@/lib/scoresheet';
+import type { GameResult, MatchGame, Player } from '@/lib/database.types';
+
+interface ScoresheetEditorProps {
+  games: MatchGame[];
+  player1?: Player;
+  player2?: Player;
+  matchLength: number;
+  onChange: (games: MatchGame[]) => void;
+  onUseTotals: (player1Score: number, player2Score: number) => void;
+}
+
+export function ScoresheetEditor({
+  games,
+  player1,
+  player2,
+  matchLength,
+  onChange,
+  onUseTotals,
+}: ScoresheetEditorProps) {
+  const player1Id = player1?.id ?? null;
+  const scores = runningScores(games, player1Id);
+  const totals = scores[scores.length - 1];
+
+  const updateGame = (index: number, changes: Partial<MatchGame>) => {
+    onChange(
+      games.map((game, i) => {
+        if (i !== index) return game;
+        const updated = { ...game, ...changes };
+        return { ...updated, points: gamePoints(updated.cube_value, updated.result) };
+      })
+    );
+  };
+
+  const addGame = () => {
+    const gameNumber = games.length + 1;
+    onChange([
+      ...games,
+      {
+        game_number: gameNumber,
+        winner_id: '',
+        cube_value: 1,
+        result: 'single',
+        points: 1,
+        crawford: crawfordGameNumber(games, player1Id, matchLength) === gameNumber,
+      },
+    ]);
+  };
+
+  const removeGame = (index: number) => {
+    onChange(
+      games
+        .filter((_, i) => i !== index)
+        .map((game, i) => ({ ...game, game_number: i + 1 }))
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-base font-medium">Games (Optional)</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addGame}>
+          Add Game
+        </Button>
+      </div>
+
+      {games.map((game, index) => (
+        <div key={game.game_number} className="flex items-center gap-2 text-sm">
+          <span className="w-6 text-gray-500">{game.game_number}</span>
+          <Select
+            value={game.winner_id}
+            onValueChange={(value) => updateGame(index, { winner_id: value })}
+          >
+            <SelectTrigger className="flex-1 min-w-0">
+              <SelectValue placeholder="Winner" />
+            </SelectTrigger>
+            <SelectContent>
+              {[player1, player2].filter(Boolean).map((player) => (
+                <SelectItem key={player!.id} value={player!.id}>
+                  {player!.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={game.cube_value.toString()}
+            onValueChange={(value) => updateGame(index, { cube_value: parseInt(value) })}
+          >
+            <SelectTrigger className="w-[70px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CUBE_VALUES.map((value) => (
+                <SelectItem key={value} value={value.toString()}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={game.result}
+            onValueChange={(value) => updateGame(index, { result: value as GameResult })}
+          >
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(GAME_RESULTS) as GameResult[]).map((result) => (
+                <SelectItem key={result} value={result}>
+                  {GAME_RESULTS[result].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-1 text-xs text-gray-600" title="Crawford game">
+            <Checkbox
+              checked={game.crawford}
+              onCheckedChange={(checked) => updateGame(index, { crawford: checked === true })}
+            />
+            CR
+          </label>
+          <span className="w-8 text-right font-mono">{game.points}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => removeGame(index)}
+            aria-label={`Remove game ${game.game_number}`}
+          >
+            ×
+          </Button>
+        </div>
+      ))}
+
+      {totals && (
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>
+            Games total {totals.player1Score}-{totals.player2Score}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onUseTotals(totals.player1Score, totals.player2Score)}
+          >
+            Use as final score
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTournamentAccess } from '@/components/auth/TournamentAccess';
+import { authFetch } from '@/lib/auth';
+import { cn } from '@/lib/utils';
+import { holdsTable } from '@/lib/table-pool';
+import { toast } from 'sonner';
+import type { Match, Player, TablePool } from '@/lib/database.types';
+
+export interface BoardMatch extends Match {
+  player1?: Player;
+  player2?: Player;
+  division_id: string;
+  division_name: string;
+  call_priority: number | null;
+}
+
+interface TableBoardProps {
+  tournamentId: string;
+  pool: TablePool | null;
+  matches: BoardMatch[];
+  onMoved: () => void;
+}
+
+export function TableBoard({ tournamentId, pool, matches, onMoved }: TableBoardProps) {
+  const { can } = useTournamentAccess();
+  const [moving, setMoving] = useState(false);
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+
+  const seated = matches.filter(holdsTable);
+  const waiting = matches.filter(
+    (m) => m.status === 'pending' && m.table_number === null && m.player1_id && m.player2_id
+  );
+
+  // Without a pool, show the tables in use and the next free one
+  const tableCount =
+    pool?.count ?? Math.max(0, ...seated.map((m) => m.table_number as number)) + 1;
+  const disabled = new Set(pool?.disabled ?? []);
+  const tables = Array.from({ length: tableCount }, (_, i) => i + 1);
+
+  const handleDrop = async (table: number, matchId: string) => {
+    setDropTarget(null);
+    const match = matches.find((m) => m.id === matchId);
+    if (!match || match.table_number === table) return;
+
+    setMoving(true);
+    try {
+      const response = await authFetch(`/api/tournaments/${tournamentId}/tables`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ matchId, tableNumber: table }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to move match');
+        return;
+      }
+      toast.success(`${match.player1?.name} vs ${match.player2?.name} moved to table ${table}`);
+      onMoved();
+    } catch (error) {
+      console.error('Error moving match:', error);
+      toast.error('Failed to move match');
+    } finally {
+      setMoving(false);
+    }
+  };
+
+  const renderMatch = (match: BoardMatch) => (
+    <div
+      key={match.id}
+      draggable={can('score') && !moving}
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', match.id)}
+      className={cn(
+        'text-xs p-1 rounded bg-white border',
+        can('score') && 'cursor-grab',
+        match.status === 'in_progress' && 'border-yellow-400'
+      )}
+    >
+      <p className="font-medium truncate">{match.player1?.name}</p>
+      <p className="font-medium truncate">{match.player2?.name}</p>
+      <p className="text-gray-500 truncate">{match.division_name}</p>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tables</CardTitle>
+        <CardDescription>
+          {can('score') ? 'Drag a match onto another table to move it' : 'Matches by table'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+          {tables.map((table) => {
+            const match = seated.find((m) => m.table_number === table);
+            const outOfService = disabled.has(table);
+            return (
+              <div
+                key={table}
+                onDragOver={(e) => {
+                  if (outOfService) return;
+                  e.preventDefault();
+                  setDropTarget(table);
+                }}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(table, e.dataTransfer.getData('text/plain'));
+                }}
+                className={cn(
+                  'rounded border p-2 min-h-[88px] space-y-1',
+                  outOfService ? 'bg-gray-100 text-gray-400' : match ? 'bg-gray-50' : 'bg-green-50',
+                  dropTarget === table && 'ring-2 ring-blue-400'
+                )}
+              >
+                <p className="text-xs font-semibold">Table {table}</p>
+                {outOfService ? (
+                  <p className="text-xs">Out of service</p>
+                ) : match ? (
+                  renderMatch(match)
+                ) : (
+                  <p className="text-xs text-green-700">Free</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {waiting.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Waiting for a table ({waiting.length})</p>
+            <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+              {waiting.map(renderMatch)}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -30,7 +30,8 @@ import {
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import type { TournamentEntry, Division, Player } from '@/lib/database.types';
-import { supabase } from '@/lib/supabase';
+import { authFetch } from '@/lib/auth';
+import { useTournamentAccess } from '@/components/auth/TournamentAccess';
 import { toast } from 'sonner';
 import { formatPhoneNumber } from '@/lib/utils';
 
@@ -52,6 +53,8 @@ export function PlayerList({ entries, divisions, tournamentId, onUpdate }: Playe
   const [editingEntry, setEditingEntry] = useState<TournamentEntryWithPlayer | null>(null);
   const [deleteEntry, setDeleteEntry] = useState<TournamentEntryWithPlayer | null>(null);
   const [loading, setLoading] = useState(false);
+  const { can } = useTournamentAccess();
+  const canManage = can('manage_players');
 
   const filteredEntries = entries.filter((entry) => {
     const matchesSearch =
@@ -62,14 +65,27 @@ export function PlayerList({ entries, divisions, tournamentId, onUpdate }: Playe
     return matchesSearch && matchesDivision;
   });
 
+  // Entry changes go through the server, which checks the director's role and audits them
+  const updateEntries = async (changes: {
+    entryIds: string[];
+    checkedIn?: boolean;
+    entryFeePaid?: boolean;
+    divisionId?: string;
+  }) => {
+    const response = await authFetch(`/api/tournaments/${tournamentId}/entries`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error || 'Failed to update entries');
+    }
+  };
+
   const handleCheckIn = async (entry: TournamentEntryWithPlayer, checked: boolean) => {
     try {
-      const { error } = await supabase
-        .from('tournament_entries')
-        .update({ checked_in: checked })
-        .eq('id', entry.id);
-
-      if (error) throw error;
+      await updateEntries({ entryIds: [entry.id], checkedIn: checked });
       toast.success(checked ? 'Player checked in' : 'Check-in removed');
       onUpdate();
     } catch (error) {
@@ -80,12 +96,7 @@ export function PlayerList({ entries, divisions, tournamentId, onUpdate }: Playe
 
   const handleEntryFeePaid = async (entry: TournamentEntryWithPlayer, paid: boolean) => {
     try {
-      const { error } = await supabase
-        .from('tournament_entries')
-        .update({ entry_fee_paid: paid })
-        .eq('id', entry.id);
-
-      if (error) throw error;
+      await updateEntries({ entryIds: [entry.id], entryFeePaid: paid });
       toast.success(paid ? 'Entry fee marked as paid' : 'Entry fee marked as unpaid');
       onUpdate();
     } catch (error) {
@@ -99,12 +110,7 @@ export function PlayerList({ entries, divisions, tournamentId, onUpdate }: Playe
 
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('tournament_entries')
-        .update({ division_id: editingEntry.division_id })
-        .eq('id', editingEntry.id);
-
-      if (error) throw error;
+      await updateEntries({ entryIds: [editingEntry.id], divisionId: editingEntry.division_id });
       toast.success('Division updated');
       setEditingEntry(null);
       onUpdate();
@@ -121,12 +127,15 @@ export function PlayerList({ entries, divisions, tournamentId, onUpdate }: Playe
 
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('tournament_entries')
-        .delete()
-        .eq('id', deleteEntry.id);
-
-      if (error) throw error;
+      const response = await authFetch(`/api/tournaments/${tournamentId}/entries`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entryId: deleteEntry.id }),
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to remove player');
+      }
       toast.success('Player removed from tournament');
       setDeleteEntry(null);
       onUpdate();
@@ -150,12 +159,7 @@ export function PlayerList({ entries, divisions, tournamentId, onUpdate }: Playe
         return;
       }
 
-      const { error } = await supabase
-        .from('tournament_entries')
-        .update({ checked_in: true })
-        .in('id', idsToUpdate);
-
-      if (error) throw error;
+      await updateEntries({ entryIds: idsToUpdate, checkedIn: true });
       toast.success(`${idsToUpdate.length} players checked in`);
       onUpdate();
     } catch (error) {
@@ -190,7 +194,7 @@ export function PlayerList({ entries, divisions, tournamentId, onUpdate }: Playe
             ))}
           </SelectContent>
         </Select>
-        <Button onClick={handleCheckInAll} disabled={loading} variant="outline">
+        <Button onClick={handleCheckInAll} disabled={loading || !canManage} variant="outline">
           Check In All
         </Button>
       </div>
@@ -222,6 +226,7 @@ export function PlayerList({ entries, divisions, tournamentId, onUpdate }: Playe
                   <TableCell>
                     <Checkbox
                       checked={entry.checked_in}
+                      disabled={!canManage}
                       onCheckedChange={(checked) => handleCheckIn(entry, checked === true)}
                     />
                   </TableCell>
@@ -238,27 +243,30 @@ export function PlayerList({ entries, divisions, tournamentId, onUpdate }: Playe
                   <TableCell>
                     <Checkbox
                       checked={entry.entry_fee_paid}
+                      disabled={!canManage}
                       onCheckedChange={(checked) => handleEntryFeePaid(entry, checked === true)}
                     />
                   </TableCell>
                   <TableCell>
-                    <div className="flex gap-1">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => setEditingEntry(entry)}
-                      >
-                        Edit
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="text-red-600 hover:text-red-700"
-                        onClick={() => setDeleteEntry(entry)}
-                      >
-                        Remove
-                      </Button>
-                    </div>
+                    {canManage && (
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditingEntry(entry)}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => setDeleteEntry(entry)}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    )}
                   </TableCell>
                 </TableRow>
               ))
@@ -23,6 +23,7 @@ import {
 } from '@/components/ui/command';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { supabase } from '@/lib/supabase';
+import { authFetch } from '@/lib/auth';
 import { toast } from 'sonner';
 import { isValidEmail } from '@/lib/utils';
 import type { Player, Division } from '@/lib/database.types';
@@ -83,6 +84,17 @@ export function PlayerRegistrationForm({
     setSearchOpen(false);
   };
 
+  const addEntry = async (player: { playerId?: string; newPlayer?: typeof newPlayer }) => {
+    const response = await authFetch(`/api/tournaments/${tournamentId}/entries`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ divisionId, entryFeePaid, ...player }),
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || 'Failed to add player');
+    return result.player as Pick<Player, 'id' | 'name'>;
+  };
+
   const handleAddExistingPlayer = async () => {
     if (!selectedPlayer || !divisionId) {
       toast.error('Please select a player and division');
@@ -91,29 +103,7 @@ export function PlayerRegistrationForm({
 
     setLoading(true);
     try {
-      // Check if player is already registered
-      const { data: existing } = await supabase
-        .from('tournament_entries')
-        .select('id')
-        .eq('tournament_id', tournamentId)
-        .eq('player_id', selectedPlayer.id)
-        .eq('division_id', divisionId)
-        .single();
-
-      if (existing) {
-        toast.error('Player is already registered in this division');
-        return;
-      }
-
-      const { error } = await supabase.from('tournament_entries').insert({
-        tournament_id: tournamentId,
-        player_id: selectedPlayer.id,
-        division_id: divisionId,
-        entry_fee_paid: entryFeePaid,
-        checked_in: false,
-      });
-
-      if (error) throw error;
+      await addEntry({ playerId: selectedPlayer.id });
 
       toast.success(`${selectedPlayer.name} added to tournament`);
       setSelectedPlayer(null);
@@ -121,7 +111,7 @@ export function PlayerRegistrationForm({
       onSuccess();
     } catch (error) {
       console.error('Error adding player:', error);
-      toast.error('Failed to add player');
+      toast.error(error instanceof Error ? error.message : 'Failed to add player');
     } finally {
       setLoading(false);
     }
@@ -145,47 +135,16 @@ export function PlayerRegistrationForm({
 
     setLoading(true);
     try {
-      // Create the player
-      const { data: player, error: playerError } = await supabase
-        .from('players')
-        .insert({
-          name: newPlayer.name.trim(),
-          email: newPlayer.email.trim() || null,
-          phone: newPlayer.phone.trim() || null,
-        })
-        .select()
-        .single();
-
-      if (playerError) throw playerError;
-
-      // Add to tournament
-      const { error: entryError } = await supabase.from('tournament_entries').insert({
-        tournament_id: tournamentId,
-        player_id: player.id,
-        division_id: divisionId,
-        entry_fee_paid: entryFeePaid,
-        checked_in: false,
-      });
-
-      if (entryError) throw entryError;
+      const player = await addEntry({ newPlayer });
 
       toast.success(`${player.name} created and added to tournament`);
       setNewPlayer({ name: '', email: '', phone: '' });
       setEntryFeePaid(false);
       loadPlayers(); // Refresh player list
       onSuccess();
-    } catch (error: unknown) {
+    } catch (error) {
       console.error('Error creating player:', error);
-      if (error && typeof error === 'object' && 'message' in error) {
-        const errorMessage = (error as { message: string }).message;
-        if (errorMessage.includes('duplicate')) {
-          toast.error('A player with this email or phone already exists');
-        } else {
-          toast.error('Failed to create player');
-        }
-      } else {
-        toast.error('Failed to create player');
-      }
+      toast.error(error instanceof Error ? error.message : 'Failed to create player');
     } finally {
       setLoading(false);
     }
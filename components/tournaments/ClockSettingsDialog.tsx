@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { authFetch } from '@/lib/auth';
+import { CLOCK_OVERTIME, getClockSettings } from '@/lib/match-clock';
+import { toast } from 'sonner';
+import type { ClockOvertime, ClockSettings, Division } from '@/lib/database.types';
+
+interface ClockSettingsDialogProps {
+  tournamentId: string;
+  division: Division;
+  onSaved: (settings: { clock_required: boolean; clock_settings: ClockSettings }) => void;
+}
+
+export function ClockSettingsDialog({
+  tournamentId,
+  division,
+  onSaved,
+}: ClockSettingsDialogProps) {
+  const current = getClockSettings(division);
+
+  const [open, setOpen] = useState(false);
+  const [required, setRequired] = useState(division.clock_required);
+  const [reserveMinutes, setReserveMinutes] = useState(current.reserve_minutes.toString());
+  const [delaySeconds, setDelaySeconds] = useState(current.delay_seconds.toString());
+  const [overtime, setOvertime] = useState<ClockOvertime>(current.overtime);
+  const [saving, setSaving] = useState(false);
+
+  const reserve = parseInt(reserveMinutes);
+  const delay = parseInt(delaySeconds);
+  const isValid = reserve > 0 && delay >= 0;
+
+  const handleSave = async () => {
+    const settings = {
+      clock_required: required,
+      clock_settings: { reserve_minutes: reserve, delay_seconds: delay, overtime },
+    };
+
+    setSaving(true);
+    try {
+      const response = await authFetch(`/api/tournaments/${tournamentId}/divisions/${division.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          clockRequired: settings.clock_required,
+          clockSettings: settings.clock_settings,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to update clock settings');
+        return;
+      }
+
+      onSaved(settings);
+      toast.success(`Clock updated for ${division.name}`);
+      setOpen(false);
+    } catch (error) {
+      console.error('Error updating clock settings:', error);
+      toast.error('Failed to update clock settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="mr-4">
+          Clock
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Match Clock – {division.name}</DialogTitle>
+          <DialogDescription>
+            Players run the clock on the table tablet from the match&apos;s clock page
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="clockRequired"
+              checked={required}
+              onCheckedChange={(checked) => setRequired(checked === true)}
+            />
+            <Label htmlFor="clockRequired">Matches are played with a clock</Label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reserveMinutes">Reserve per player (minutes)</Label>
+              <Input
+                id="reserveMinutes"
+                type="number"
+                min="1"
+                value={reserveMinutes}
+                onChange={(e) => setReserveMinutes(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delaySeconds">Delay per move (seconds)</Label>
+              <Input
+                id="delaySeconds"
+                type="number"
+                min="0"
+                value={delaySeconds}
+                onChange={(e) => setDelaySeconds(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>When time runs out</Label>
+            <Select value={overtime} onValueChange={(value) => setOvertime(value as ClockOvertime)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CLOCK_OVERTIME) as ClockOvertime[]).map((policy) => (
+                  <SelectItem key={policy} value={policy}>
+                    {CLOCK_OVERTIME[policy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !isValid}>
+            {saving ? 'Saving...' : 'Save Clock'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { supabase } from '@/lib/supabase';
+import { useSessionUser } from '@/components/auth/TournamentAccess';
 import { toast } from 'sonner';
 
 const DEFAULT_DIVISIONS = [
@@ -26,6 +27,7 @@ interface FormData {
 
 export function CreateTournamentForm() {
   const router = useRouter();
+  const { user } = useSessionUser();
   const [loading, setLoading] = useState(false);
   const [saveAsTemplate, setSaveAsTemplate] = useState(false);
   const [formData, setFormData] = useState<FormData>({
@@ -44,6 +46,12 @@ export function CreateTournamentForm() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (!user) {
+      toast.error('Sign in to create a tournament');
+      router.push('/login?next=/tournaments/new');
+      return;
+    }
+
     if (!formData.name.trim()) {
       toast.error('Tournament name is required');
       return;
@@ -85,6 +93,7 @@ export function CreateTournamentForm() {
           end_date: formData.end_date || null,
           sms_phone_number: formData.sms_phone_number.trim() || null,
           status: 'draft',
+          created_by: user.id,
         })
         .select()
         .single();
@@ -0,0 +1,103 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { generateRound1Matches } from '@/lib/bracket-generator';
+import type { TournamentEntry, Player } from '@/lib/database.types';
+
+interface TournamentEntryWithPlayer extends TournamentEntry {
+  player?: Player;
+}
+
+interface SeedingPreviewProps {
+  divisionName: string;
+  entries: TournamentEntryWithPlayer[];
+  order: string[]; // Entry ids in seed order
+  onChange: (order: string[]) => void;
+}
+
+export function SeedingPreview({ divisionName, entries, order, onChange }: SeedingPreviewProps) {
+  const entriesById = new Map(entries.map((e) => [e.id, e]));
+  const seededEntries = order
+    .map((id) => entriesById.get(id))
+    .filter((e): e is TournamentEntryWithPlayer => !!e);
+
+  const getName = (playerId: string | null) =>
+    seededEntries.find((e) => e.player_id === playerId)?.player?.name || 'Unknown';
+
+  // Round 1 pairings for the current order (standard seed positions)
+  const round1 = generateRound1Matches(
+    seededEntries.map((e) => ({ id: e.player_id })),
+    1,
+    { seeded: true }
+  );
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium">{divisionName}</h4>
+
+      <ol className="space-y-1 text-sm">
+        {seededEntries.map((entry, index) => (
+          <li
+            key={entry.id}
+            className="flex items-center justify-between p-2 bg-gray-50 rounded"
+          >
+            <span>
+              <span className="font-mono text-gray-500 mr-2">#{index + 1}</span>
+              {entry.player?.name || 'Unknown'}
+              {entry.player?.rating !== null && entry.player?.rating !== undefined && (
+                <span className="text-gray-500 ml-2">({entry.player.rating})</span>
+              )}
+            </span>
+            <span className="flex gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+              >
+                ↑
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => move(index, 1)}
+                disabled={index === seededEntries.length - 1}
+              >
+                ↓
+              </Button>
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      <div className="text-sm">
+        <p className="text-gray-500 mb-1">Round 1:</p>
+        <ul className="space-y-1">
+          {round1.map((match) => (
+            <li key={match.match_number} className="flex items-center gap-2">
+              <span className="font-mono text-gray-500">M{match.match_number}</span>
+              <span>{getName(match.player1_id)}</span>
+              <span className="text-gray-400">vs</span>
+              {match.status === 'bye' ? (
+                <Badge className="bg-blue-100 text-blue-800">BYE</Badge>
+              ) : (
+                <span>{getName(match.player2_id)}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
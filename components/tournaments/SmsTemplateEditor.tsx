@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { authFetch } from '@/lib/auth';
+import {
+  SHARED_VARIABLES,
+  SMS_LANGUAGES,
+  SMS_TEMPLATES,
+  type SmsTemplateKey,
+} from '@/lib/sms-templates';
+import { toast } from 'sonner';
+import type { SmsLanguage, SmsTemplateOverrides } from '@/lib/database.types';
+
+const TEMPLATE_KEYS = Object.keys(SMS_TEMPLATES) as SmsTemplateKey[];
+
+interface SmsTemplateEditorProps {
+  tournamentId: string;
+  directorPhone: string | null;
+  overrides: SmsTemplateOverrides | null;
+  onSaved: (settings: { director_phone: string | null; sms_templates: SmsTemplateOverrides | null }) => void;
+}
+
+export function SmsTemplateEditor({
+  tournamentId,
+  directorPhone,
+  overrides,
+  onSaved,
+}: SmsTemplateEditorProps) {
+  const [language, setLanguage] = useState<SmsLanguage>('en');
+  const [drafts, setDrafts] = useState<SmsTemplateOverrides>(overrides ?? {});
+  const [phone, setPhone] = useState(directorPhone ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const draftText = (key: SmsTemplateKey) =>
+    drafts[key]?.[language] ?? SMS_TEMPLATES[key].text[language];
+
+  const setDraftText = (key: SmsTemplateKey, text: string) => {
+    setDrafts((prev) => ({ ...prev, [key]: { ...prev[key], [language]: text } }));
+  };
+
+  const isCustomized = (key: SmsTemplateKey) => {
+    const text = drafts[key]?.[language];
+    return !!text?.trim() && text.trim() !== SMS_TEMPLATES[key].text[language];
+  };
+
+  const handleSave = async () => {
+    // Only wording that differs from the default is stored, so improvements
+    // to the defaults still reach tournaments that never touched a template
+    const cleaned: SmsTemplateOverrides = {};
+    for (const key of TEMPLATE_KEYS) {
+      for (const lang of Object.keys(SMS_LANGUAGES) as SmsLanguage[]) {
+        const text = drafts[key]?.[lang]?.trim();
+        if (text && text !== SMS_TEMPLATES[key].text[lang]) {
+          cleaned[key] = { ...cleaned[key], [lang]: text };
+        }
+      }
+    }
+
+    const settings = {
+      director_phone: phone.trim() || null,
+      sms_templates: Object.keys(cleaned).length > 0 ? cleaned : null,
+    };
+
+    setSaving(true);
+    try {
+      const response = await authFetch(`/api/tournaments/${tournamentId}/settings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          directorPhone: settings.director_phone,
+          smsTemplates: settings.sms_templates,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to save text messages');
+        return;
+      }
+
+      setDrafts(cleaned);
+      onSaved(settings);
+      toast.success('Text messages saved');
+    } catch (error) {
+      console.error('Error saving SMS templates:', error);
+      toast.error('Failed to save text messages');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Text Messages</CardTitle>
+        <CardDescription>
+          Wording of every text players receive. Each player gets the language set in the player
+          database; {'{placeholders}'} are filled in when the text is sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="space-y-2">
+            <Label>Language</Label>
+            <Select value={language} onValueChange={(value) => setLanguage(value as SmsLanguage)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SMS_LANGUAGES) as SmsLanguage[]).map((lang) => (
+                  <SelectItem key={lang} value={lang}>
+                    {SMS_LANGUAGES[lang]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="directorPhone">Director phone ({'{director_phone}'})</Label>
+            <Input
+              id="directorPhone"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="+1-555-123-4567"
+              className="w-[220px]"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-4 max-h-[600px] overflow-y-auto pr-2">
+          {TEMPLATE_KEYS.map((key) => {
+            const template = SMS_TEMPLATES[key];
+            return (
+              <div key={key} className="space-y-2 p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm">{template.label}</span>
+                  {isCustomized(key) && <Badge variant="secondary">Customized</Badge>}
+                  {isCustomized(key) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto"
+                      onClick={() => setDraftText(key, template.text[language])}
+                    >
+                      Reset
+                    </Button>
+                  )}
+                </div>
+                <Textarea
+                  value={draftText(key)}
+                  onChange={(e) => setDraftText(key, e.target.value)}
+                  rows={2}
+                />
+                <p className="text-xs text-gray-500">
+                  {[...template.variables, ...SHARED_VARIABLES].map((name) => (
+                    <code key={name} className="mr-2">{`{${name}}`}</code>
+                  ))}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Text Messages'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/lib/supabase';
+import { ASSIGNABLE_ROLES, ROLE_LABELS, authFetch } from '@/lib/auth';
+import { isValidEmail } from '@/lib/utils';
+import { toast } from 'sonner';
+import type { StaffRole, TournamentStaff } from '@/lib/database.types';
+
+interface StaffManagerProps {
+  tournamentId: string;
+}
+
+export function StaffManager({ tournamentId }: StaffManagerProps) {
+  const [staff, setStaff] = useState<TournamentStaff[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<StaffRole>('scorekeeper');
+  const [loading, setLoading] = useState(false);
+
+  const loadStaff = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('tournament_staff')
+      .select('*')
+      .eq('tournament_id', tournamentId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading staff:', error);
+      return;
+    }
+    setStaff(data || []);
+  }, [tournamentId]);
+
+  useEffect(() => {
+    loadStaff();
+  }, [loadStaff]);
+
+  // Staff changes go through the server, which checks the caller manages staff and audits them
+  const sendStaffChange = async (method: 'POST' | 'PATCH' | 'DELETE', body: object) => {
+    const response = await authFetch(`/api/tournaments/${tournamentId}/staff`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const normalized = email.trim().toLowerCase();
+    if (!isValidEmail(normalized)) {
+      toast.error('Please enter a valid email address');
+      return;
+    }
+    if (staff.some((s) => s.email.toLowerCase() === normalized)) {
+      toast.error('That director is already on the staff');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await sendStaffChange('POST', { email: normalized, role });
+
+      toast.success(`${normalized} added as ${ROLE_LABELS[role]}`);
+      setEmail('');
+      loadStaff();
+    } catch (error) {
+      console.error('Error adding staff:', error);
+      toast.error('Failed to add staff member');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRoleChange = async (member: TournamentStaff, newRole: StaffRole) => {
+    try {
+      await sendStaffChange('PATCH', { staffId: member.id, role: newRole });
+
+      loadStaff();
+    } catch (error) {
+      console.error('Error changing role:', error);
+      toast.error('Failed to change role');
+    }
+  };
+
+  const handleRemove = async (member: TournamentStaff) => {
+    try {
+      await sendStaffChange('DELETE', { staffId: member.id });
+
+      toast.success(`${member.email} removed`);
+      loadStaff();
+    } catch (error) {
+      console.error('Error removing staff:', error);
+      toast.error('Failed to remove staff member');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Staff</CardTitle>
+        <CardDescription>
+          Directors who can sign in to run this tournament
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {staff.length === 0 ? (
+          <p className="text-sm text-gray-500">Only you can manage this tournament.</p>
+        ) : (
+          <div className="space-y-2">
+            {staff.map((member) => (
+              <div
+                key={member.id}
+                className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-lg"
+              >
+                <span className="font-medium truncate">{member.email}</span>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => handleRoleChange(member, value as StaffRole)}
+                  >
+                    <SelectTrigger className="w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ASSIGNABLE_ROLES.map((r) => (
+                        <SelectItem key={r} value={r}>
+                          {ROLE_LABELS[r]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => handleRemove(member)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="director@example.com"
+            className="flex-1 min-w-[200px]"
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as StaffRole)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ASSIGNABLE_ROLES.map((r) => (
+                <SelectItem key={r} value={r}>
+                  {ROLE_LABELS[r]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={loading}>
+            {loading ? 'Adding...' : 'Add Staff'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { authFetch } from '@/lib/auth';
+import { toast } from 'sonner';
+import type { Division, TablePool } from '@/lib/database.types';
+
+interface TablePoolSettingsProps {
+  tournamentId: string;
+  pool: TablePool | null;
+  divisions: Pick<Division, 'id' | 'name' | 'call_priority'>[];
+  onSaved: (pool: TablePool | null, priorities: Record<string, number | null>) => void;
+}
+
+function parseTableList(text: string): number[] {
+  return text
+    .split(/[\s,]+/)
+    .map((t) => parseInt(t))
+    .filter((t) => t > 0);
+}
+
+export function TablePoolSettings({ tournamentId, pool, divisions, onSaved }: TablePoolSettingsProps) {
+  const [enabled, setEnabled] = useState(!!pool);
+  const [count, setCount] = useState(pool?.count.toString() ?? '');
+  const [disabled, setDisabled] = useState(pool?.disabled.join(', ') ?? '');
+  const [ranges, setRanges] = useState<Record<string, { from: string; to: string }>>(() =>
+    Object.fromEntries(
+      divisions.map((d) => [
+        d.id,
+        {
+          from: pool?.division_ranges[d.id]?.from.toString() ?? '',
+          to: pool?.division_ranges[d.id]?.to.toString() ?? '',
+        },
+      ])
+    )
+  );
+  const [priorities, setPriorities] = useState<Record<string, string>>(() =>
+    Object.fromEntries(divisions.map((d) => [d.id, d.call_priority?.toString() ?? '']))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const setRange = (divisionId: string, field: 'from' | 'to', value: string) => {
+    setRanges((prev) => ({ ...prev, [divisionId]: { ...prev[divisionId], [field]: value } }));
+  };
+
+  const buildPool = (): TablePool | null => {
+    if (!enabled) return null;
+
+    const tableCount = parseInt(count) || 0;
+    const divisionRanges: TablePool['division_ranges'] = {};
+    for (const division of divisions) {
+      const from = parseInt(ranges[division.id]?.from);
+      const to = parseInt(ranges[division.id]?.to);
+      // A blank range lets the division use every table
+      if (from > 0 || to > 0) {
+        divisionRanges[division.id] = { from: from > 0 ? from : 1, to: to > 0 ? to : tableCount };
+      }
+    }
+
+    return {
+      count: tableCount,
+      disabled: parseTableList(disabled).filter((t) => t <= tableCount),
+      division_ranges: divisionRanges,
+    };
+  };
+
+  const buildPriorities = (): Record<string, number | null> =>
+    Object.fromEntries(
+      divisions.map((d) => {
+        const priority = parseInt(priorities[d.id]);
+        return [d.id, Number.isNaN(priority) ? null : priority];
+      })
+    );
+
+  const handleSave = async () => {
+    const newPool = buildPool();
+    const newPriorities = buildPriorities();
+    if (newPool && newPool.count < 1) {
+      toast.error('Enter how many tables there are');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await authFetch(`/api/tournaments/${tournamentId}/tables`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pool: newPool, priorities: newPriorities }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to save tables');
+        return;
+      }
+
+      onSaved(newPool, newPriorities);
+      toast.success(
+        result.seated > 0 ? `Tables saved, ${result.seated} waiting matches seated` : 'Tables saved'
+      );
+    } catch (error) {
+      console.error('Error saving tables:', error);
+      toast.error('Failed to save tables');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Tables</CardTitle>
+        <CardDescription>
+          Matches get the lowest free table when they become playable, and wait for one when every
+          table is taken. Waiting matches from divisions with a lower call priority number are
+          called first, then the longest waiting.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="tablePoolEnabled"
+            checked={enabled}
+            onCheckedChange={(checked) => setEnabled(checked === true)}
+          />
+          <Label htmlFor="tablePoolEnabled">Limit matches to a fixed set of tables</Label>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Call priority (lower number is called first, blank for last)</Label>
+          {divisions.map((division) => (
+            <div key={division.id} className="flex items-center gap-2">
+              <span className="w-40 text-sm">{division.name}</span>
+              <Input
+                type="number"
+                min="1"
+                className="w-24"
+                value={priorities[division.id] ?? ''}
+                onChange={(e) =>
+                  setPriorities((prev) => ({ ...prev, [division.id]: e.target.value }))
+                }
+                placeholder="Priority"
+              />
+            </div>
+          ))}
+        </div>
+
+        {enabled && (
+          <>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tableCount">Number of tables</Label>
+                <Input
+                  id="tableCount"
+                  type="number"
+                  min="1"
+                  value={count}
+                  onChange={(e) => setCount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="disabledTables">Out of service</Label>
+                <Input
+                  id="disabledTables"
+                  value={disabled}
+                  onChange={(e) => setDisabled(e.target.value)}
+                  placeholder="e.g. 4, 11"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tables per division (blank for any table)</Label>
+              {divisions.map((division) => (
+                <div key={division.id} className="flex items-center gap-2">
+                  <span className="w-40 text-sm">{division.name}</span>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-24"
+                    value={ranges[division.id]?.from ?? ''}
+                    onChange={(e) => setRange(division.id, 'from', e.target.value)}
+                    placeholder="From"
+                  />
+                  <span className="text-gray-500">–</span>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-24"
+                    value={ranges[division.id]?.to ?? ''}
+                    onChange={(e) => setRange(division.id, 'to', e.target.value)}
+                    placeholder="To"
+                  />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Tables'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
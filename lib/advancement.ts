@@ -0,0 +1,292 @@
+import { supabaseAdmin } from './supabase-admin';
+import { recordAuditEvents, type AuditEventInput } from './audit';
+import { callMatches } from './match-calls';
+import { assignTables } from './table-pool';
+import { fillFreeTables, getOccupiedTables, getTablePool } from './table-assignment';
+import {
+  planDoubleElimination,
+  planLastChance,
+  generatePlannedMatches,
+  generateLastChanceMatches,
+  getCurrentRound,
+  getGrandFinalResult,
+  type BracketPlan,
+  type MatchesByBracket,
+  type PlannedBracketMatch,
+} from './bracket-generator';
+import type { Bracket, BracketStatus, BracketType, Division, Match } from './database.types';
+
+export interface AdvancementResult {
+  createdMatches: number;
+  completedBrackets: BracketType[];
+  divisionCompleted: boolean;
+  tournamentCompleted: boolean;
+}
+
+const NO_ADVANCEMENT: AdvancementResult = {
+  createdMatches: 0,
+  completedBrackets: [],
+  divisionCompleted: false,
+  tournamentCompleted: false,
+};
+
+function isFinished(match: Pick<Match, 'status'>): boolean {
+  return match.status === 'completed' || match.status === 'bye';
+}
+
+/**
+ * Check whether the last slot a bracket can ever fill has been played
+ */
+function isPlanFinished(plan: BracketPlan, bracketType: BracketType, matches: Match[]): boolean {
+  const slots = plan.matches.filter(m => m.bracket_type === bracketType && !m.if_necessary);
+  if (slots.length === 0) return false;
+
+  const finalRound = Math.max(...slots.map(m => m.round_number));
+  const finals = matches.filter(m => m.round_number === finalRound);
+  return finals.length > 0 && matches.every(isFinished);
+}
+
+/**
+ * Advance a division after a result: create every match whose players are
+ * now decided, move brackets to their lowest unfinished round and mark
+ * brackets, and then the tournament, completed when nothing is left.
+ * Safe to call repeatedly, even at the same time: slots that already have
+ * a match are skipped, and the unique (bracket_id, round_number,
+ * match_number) constraint drops a slot another call inserted first.
+ */
+export async function advanceDivision(divisionId: string): Promise<AdvancementResult> {
+  const { data: division, error: divisionError } = await supabaseAdmin
+    .from('divisions')
+    .select('*')
+    .eq('id', divisionId)
+    .single();
+
+  if (divisionError) throw divisionError;
+
+  const { data: bracketsData, error: bracketsError } = await supabaseAdmin
+    .from('brackets')
+    .select('*')
+    .eq('division_id', divisionId);
+
+  if (bracketsError) throw bracketsError;
+
+  const brackets = (bracketsData || []) as Bracket[];
+  const bracketsByType = new Map(brackets.map(b => [b.bracket_type, b]));
+  const mainBracket = bracketsByType.get('main');
+  if (!mainBracket) return NO_ADVANCEMENT;
+
+  const { data: matchesData, error: matchesError } = await supabaseAdmin
+    .from('matches')
+    .select('*')
+    .in('bracket_id', brackets.map(b => b.id));
+
+  if (matchesError) throw matchesError;
+
+  const matches = (matchesData || []) as Match[];
+  if (matches.length === 0) return NO_ADVANCEMENT;
+
+  const matchesByBracket: MatchesByBracket = {};
+  for (const bracket of brackets) {
+    matchesByBracket[bracket.bracket_type] = matches.filter(m => m.bracket_id === bracket.id);
+  }
+
+  // Winners move up the main bracket, losers drop into the consolation
+  // bracket, and the two bracket winners meet in the grand final
+  const mainMatches = matchesByBracket.main || [];
+  const plan = planDoubleElimination(mainMatches.filter(m => m.round_number === 1).length * 2);
+  const lastChanceSettings = (division as Division).last_chance_settings;
+
+  // Tables are shared by every division of the tournament
+  const tournamentId = (division as Division).tournament_id;
+  const tablePool = await getTablePool(tournamentId);
+  const occupiedTables = await getOccupiedTables(tournamentId);
+
+  // A slot is filled as soon as both of its feeder matches finish. New byes
+  // can decide further slots, so keep going until nothing more is ready.
+  const createdMatches: Match[] = [];
+  for (;;) {
+    const nextMatches = [
+      ...generatePlannedMatches(plan, matchesByBracket),
+      ...(lastChanceSettings
+        ? generateLastChanceMatches(plan, matchesByBracket, lastChanceSettings)
+        : []),
+    ].filter(m => bracketsByType.has(m.bracket_type));
+
+    if (nextMatches.length === 0) break;
+
+    const insertMatches = (rows: (PlannedBracketMatch & { table_number: number | null })[]) =>
+      supabaseAdmin
+        .from('matches')
+        .upsert(
+          rows.map(({ bracket_type, ...match }) => ({
+            ...match,
+            bracket_id: bracketsByType.get(bracket_type)!.id,
+          })),
+          { onConflict: 'bracket_id,round_number,match_number', ignoreDuplicates: true }
+        )
+        .select();
+
+    let { data: inserted, error: insertError } = await insertMatches(
+      assignTables(nextMatches, tablePool, divisionId, occupiedTables)
+    );
+
+    // Another match was seated at one of the tables since they were looked
+    // up. Create the matches without tables; filling free tables below
+    // seats them.
+    if (insertError?.code === '23505') {
+      ({ data: inserted, error: insertError } = await insertMatches(
+        nextMatches.map(m => ({ ...m, table_number: null }))
+      ));
+    }
+
+    if (insertError) throw insertError;
+
+    const insertedMatches = (inserted || []) as Match[];
+    createdMatches.push(...insertedMatches);
+    occupiedTables.push(
+      ...insertedMatches.filter(m => m.table_number !== null).map(m => m.table_number as number)
+    );
+    for (const bracket of brackets) {
+      matchesByBracket[bracket.bracket_type] = [
+        ...(matchesByBracket[bracket.bracket_type] || []),
+        ...insertedMatches.filter(m => m.bracket_id === bracket.id),
+      ];
+    }
+
+    if (!insertedMatches.some(m => m.status === 'bye')) break;
+  }
+
+  // Nothing left to create and nothing left to play: the division is over
+  const divisionCompleted = createdMatches.length === 0 && matches.every(isFinished);
+  const completedBrackets: BracketType[] = [];
+
+  for (const bracket of brackets) {
+    const bracketMatches = matchesByBracket[bracket.bracket_type] || [];
+
+    let finished = divisionCompleted;
+    if (!finished && bracketMatches.length > 0) {
+      if (bracket.bracket_type === 'grand_final') {
+        finished = getGrandFinalResult(bracketMatches) !== null;
+      } else if (bracket.bracket_type === 'last_chance') {
+        const entrants = bracketMatches.filter(m => m.round_number === 1).length * 2;
+        finished = isPlanFinished(planLastChance(entrants), 'last_chance', bracketMatches);
+      } else {
+        finished = isPlanFinished(plan, bracket.bracket_type, bracketMatches);
+      }
+    }
+
+    const status: BracketStatus = finished
+      ? 'completed'
+      : bracketMatches.length > 0
+      ? 'in_progress'
+      : bracket.status;
+    const currentRound = bracketMatches.length > 0
+      ? getCurrentRound(bracketMatches)
+      : bracket.current_round;
+
+    if (status === bracket.status && currentRound === bracket.current_round) continue;
+
+    const { error: bracketError } = await supabaseAdmin
+      .from('brackets')
+      .update({ current_round: currentRound, status })
+      .eq('id', bracket.id);
+
+    if (bracketError) throw bracketError;
+    if (finished && bracket.status !== 'completed') completedBrackets.push(bracket.bracket_type);
+  }
+
+  const tournamentCompleted = divisionCompleted
+    ? await completeTournamentIfFinished(tournamentId)
+    : false;
+
+  const auditEvents: AuditEventInput[] = createdMatches.map(match => ({
+    tournamentId,
+    action: 'matches.created',
+    actor: 'system',
+    matchId: match.id,
+    details: {
+      division: (division as Division).name,
+      bracket_type: brackets.find(b => b.id === match.bracket_id)?.bracket_type,
+      round_number: match.round_number,
+      match_number: match.match_number,
+      player1_id: match.player1_id,
+      player2_id: match.player2_id,
+      status: match.status,
+    },
+  }));
+  for (const bracketType of completedBrackets) {
+    auditEvents.push({
+      tournamentId,
+      action: 'bracket.completed',
+      actor: 'system',
+      details: { division: (division as Division).name, bracket_type: bracketType },
+    });
+  }
+  if (tournamentCompleted) {
+    auditEvents.push({
+      tournamentId,
+      action: 'tournament.status_changed',
+      actor: 'system',
+      details: { status: 'completed' },
+    });
+  }
+  await recordAuditEvents(auditEvents);
+
+  // Tables this result freed go to matches that were waiting for one
+  const seatedMatchIds = await fillFreeTables(tournamentId);
+
+  // A failed text shouldn't undo the result that created the match
+  try {
+    await callMatches([...createdMatches.map(m => m.id), ...seatedMatchIds]);
+  } catch (callError) {
+    console.error('Failed to send match calls:', callError);
+  }
+
+  return {
+    createdMatches: createdMatches.length,
+    completedBrackets,
+    divisionCompleted,
+    tournamentCompleted,
+  };
+}
+
+/**
+ * Advance the division a match belongs to. Called after a result is
+ * recorded, whether by the director, queue approval or SMS auto-approval.
+ */
+export async function advanceAfterMatch(matchId: string): Promise<AdvancementResult> {
+  const { data: match, error } = await supabaseAdmin
+    .from('matches')
+    .select('id, bracket:brackets!inner (division_id)')
+    .eq('id', matchId)
+    .single();
+
+  if (error) throw error;
+
+  const bracket = match.bracket as unknown as { division_id: string };
+  return advanceDivision(bracket.division_id);
+}
+
+/**
+ * Mark the tournament completed once every division's brackets are done.
+ * Returns true only when this call changed the status.
+ */
+async function completeTournamentIfFinished(tournamentId: string): Promise<boolean> {
+  const { data: brackets, error } = await supabaseAdmin
+    .from('brackets')
+    .select('status, division:divisions!inner (tournament_id)')
+    .eq('division.tournament_id', tournamentId);
+
+  if (error) throw error;
+  if (!brackets || brackets.some(b => b.status !== 'completed')) return false;
+
+  const { data: updated, error: tournamentError } = await supabaseAdmin
+    .from('tournaments')
+    .update({ status: 'completed' })
+    .eq('id', tournamentId)
+    .neq('status', 'completed')
+    .select('id');
+
+  if (tournamentError) throw tournamentError;
+  return (updated || []).length > 0;
+}
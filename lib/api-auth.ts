@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import { supabaseAdmin } from './supabase-admin';
+import { getTournamentRole, hasPermission, type Permission } from './auth';
+import type { StaffRole } from './database.types';
+
+export interface AuthorizedDirector {
+  user: User;
+  role: StaffRole;
+}
+
+export interface AuthorizedPlayerManager {
+  user: User;
+  tournamentIds: string[]; // Tournaments the director may manage players of
+}
+
+/**
+ * The signed-in user behind an API request's bearer token, or the error
+ * response to send back
+ */
+async function getRequestUser(request: NextRequest): Promise<User | NextResponse> {
+  const token = request.headers.get('authorization')?.replace(/^Bearer /i, '');
+  if (!token) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+
+  return data.user;
+}
+
+/**
+ * Check the bearer token on an API request belongs to a director with the
+ * given permission in the tournament. Returns the director, or the error
+ * response to send back.
+ */
+export async function requireTournamentPermission(
+  request: NextRequest,
+  tournamentId: string,
+  permission: Permission
+): Promise<AuthorizedDirector | NextResponse> {
+  const user = await getRequestUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const role = await getTournamentRole(tournamentId, user, supabaseAdmin);
+  if (!hasPermission(role, permission)) {
+    return NextResponse.json(
+      { error: 'You do not have permission to do this' },
+      { status: 403 }
+    );
+  }
+
+  return { user, role: role! };
+}
+
+/**
+ * Players are shared between tournaments, so a director may add players
+ * once they manage players in any tournament, and change a player only if
+ * they manage players in a tournament the player is entered in. Pass null
+ * for a player who doesn't exist yet.
+ */
+export async function requirePlayerPermission(
+  request: NextRequest,
+  playerId: string | null
+): Promise<AuthorizedPlayerManager | NextResponse> {
+  const user = await getRequestUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const [{ data: owned, error: ownedError }, { data: staff, error: staffError }] = await Promise.all([
+    supabaseAdmin.from('tournaments').select('id').eq('created_by', user.id),
+    supabaseAdmin
+      .from('tournament_staff')
+      .select('tournament_id, role')
+      .eq('email', user.email?.toLowerCase() ?? ''),
+  ]);
+
+  if (ownedError) throw ownedError;
+  if (staffError) throw staffError;
+
+  let tournamentIds = [
+    ...(owned || []).map(t => t.id as string),
+    ...(staff || [])
+      .filter(s => hasPermission(s.role as StaffRole, 'manage_players'))
+      .map(s => s.tournament_id as string),
+  ];
+
+  if (playerId) {
+    const { data: entries, error } = await supabaseAdmin
+      .from('tournament_entries')
+      .select('tournament_id')
+      .eq('player_id', playerId);
+
+    if (error) throw error;
+    const enteredIn = new Set((entries || []).map(e => e.tournament_id as string));
+    tournamentIds = tournamentIds.filter(id => enteredIn.has(id));
+  }
+
+  if (tournamentIds.length === 0) {
+    return NextResponse.json(
+      {
+        error: playerId
+          ? 'Only directors of a tournament this player is entered in can change them'
+          : 'You do not have permission to do this',
+      },
+      { status: 403 }
+    );
+  }
+
+  return { user, tournamentIds: [...new Set(tournamentIds)] };
+}
+
+/**
+ * Same as requireTournamentPermission, for routes that only know a match
+ */
+export async function requireMatchPermission(
+  request: NextRequest,
+  matchId: string,
+  permission: Permission
+): Promise<AuthorizedDirector | NextResponse> {
+  const { data: match } = await supabaseAdmin
+    .from('matches')
+    .select('id, bracket:brackets!inner (division:divisions!inner (tournament_id))')
+    .eq('id', matchId)
+    .single();
+
+  if (!match) {
+    return NextResponse.json({ error: 'Match not found' }, { status: 404 });
+  }
+
+  const bracket = match.bracket as unknown as { division: { tournament_id: string } };
+  return requireTournamentPermission(request, bracket.division.tournament_id, permission);
+}
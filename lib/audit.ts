@@ -0,0 +1,41 @@
+import { supabaseAdmin } from './supabase-admin';
+import type { AuditAction } from './database.types';
+
+export type AuditActor = 'system' | `user:${string}` | `sms:${string}`;
+
+export interface AuditEventInput {
+  tournamentId: string;
+  action: AuditAction;
+  actor: AuditActor;
+  matchId?: string | null;
+  playerId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record director and system actions so disputes can be settled later.
+ * Failures are logged rather than thrown: the action itself has already
+ * happened and should not be reported as failed.
+ */
+export async function recordAuditEvents(events: AuditEventInput[]): Promise<void> {
+  if (events.length === 0) return;
+
+  const { error } = await supabaseAdmin.from('audit_events').insert(
+    events.map(event => ({
+      tournament_id: event.tournamentId,
+      action: event.action,
+      actor: event.actor,
+      match_id: event.matchId ?? null,
+      player_id: event.playerId ?? null,
+      details: event.details ?? null,
+    }))
+  );
+
+  if (error) {
+    console.error('Failed to record audit events:', error);
+  }
+}
+
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  return recordAuditEvents([event]);
+}
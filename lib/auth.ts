@@ -0,0 +1,85 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { StaffRole } from './database.types';
+
+export type Permission =
+  | 'view' // Director dashboard, brackets, players and audit log
+  | 'score' // Enter scores and handle the score report queue
+  | 'manage_players' // Check-ins, entry fees and division changes
+  | 'manage_tournament' // Generate brackets, correct results, change status
+  | 'manage_staff'; // Add and remove directors
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: ['view', 'score', 'manage_players', 'manage_tournament', 'manage_staff'],
+  co_director: ['view', 'score', 'manage_players', 'manage_tournament'],
+  scorekeeper: ['view', 'score'],
+  read_only: ['view'],
+};
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  co_director: 'Co-director',
+  scorekeeper: 'Scorekeeper',
+  read_only: 'Read-only',
+};
+
+// The owner is the tournament creator and is never a staff row
+export const ASSIGNABLE_ROLES: StaffRole[] = ['co_director', 'scorekeeper', 'read_only'];
+
+export function hasPermission(role: StaffRole | null, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Get a user's role in a tournament. The creator is its owner; everyone
+ * else needs a staff entry for their email. Tournaments created before
+ * sign-in existed have no creator, and so no owner, until someone with
+ * database access claims them for their director (claim_legacy_tournaments
+ * in supabase/migrations).
+ * API routes pass their service client; the browser reads its own staff
+ * entry through row level security.
+ */
+export async function getTournamentRole(
+  tournamentId: string,
+  user: Pick<User, 'id' | 'email'>,
+  client: SupabaseClient = supabase
+): Promise<StaffRole | null> {
+  const { data: tournament } = await client
+    .from('tournaments')
+    .select('created_by')
+    .eq('id', tournamentId)
+    .single();
+
+  if (!tournament) return null;
+  if (tournament.created_by && tournament.created_by === user.id) return 'owner';
+  if (!user.email) return null;
+
+  const { data: staff } = await client
+    .from('tournament_staff')
+    .select('role')
+    .eq('tournament_id', tournamentId)
+    .eq('email', user.email.toLowerCase())
+    .maybeSingle();
+
+  return (staff?.role as StaffRole) || null;
+}
+
+/**
+ * Audit actor for a signed-in director
+ */
+export function getUserActor(user: Pick<User, 'id' | 'email'>): `user:${string}` {
+  return `user:${user.email || user.id}`;
+}
+
+/**
+ * fetch() for our own API routes, sending the director's session so the
+ * route can check their role
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const { data } = await supabase.auth.getSession();
+  const headers = new Headers(init.headers);
+  if (data.session) {
+    headers.set('Authorization', `Bearer ${data.session.access_token}`);
+  }
+  return fetch(input, { ...init, headers });
+}
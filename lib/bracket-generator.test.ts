@@ -0,0 +1,364 @@
+import { describe, expect, it } from 'vitest';
+import {
+  generateLastChanceMatches,
+  generatePlannedMatches,
+  generateRound1Matches,
+  getCorrectionImpact,
+  getGrandFinalResult,
+  getLastChanceEntrants,
+  planDoubleElimination,
+  type SlotSource,
+} from './bracket-generator';
+import type { Match } from './database.types';
+
+let nextId = 1;
+
+// A match row: decided when it has a winner, a bye when it has one player
+function row(
+  round: number,
+  matchNumber: number,
+  player1: string | null,
+  player2: string | null,
+  winner: string | null = null
+): Match {
+  const bye = !player1 || !player2;
+  return {
+    id: `m${nextId++}`,
+    bracket_id: 'b1',
+    round_number: round,
+    match_number: matchNumber,
+    player1_id: player1,
+    player2_id: player2,
+    winner_id: bye ? player1 ?? player2 : winner,
+    player1_score: 0,
+    player2_score: 0,
+    table_number: null,
+    status: bye ? 'bye' : winner ? 'completed' : 'pending',
+    started_at: null,
+    completed_at: null,
+    called_at: null,
+    games: null,
+    forfeit: null,
+    created_at: '2026-10-01T00:00:00Z',
+  };
+}
+
+describe('generateRound1Matches', () => {
+  it('gives the byes in a short field to the top seeds', () => {
+    const players = ['s1', 's2', 's3', 's4', 's5'].map(id => ({ id }));
+    const matches = generateRound1Matches(players, 1, { seeded: true });
+
+    expect(matches).toHaveLength(4);
+    expect(matches.filter(m => m.status === 'bye').map(m => m.winner_id)).toEqual(['s1', 's2', 's3']);
+    expect(matches.find(m => m.status === 'pending')).toMatchObject({
+      player1_id: 's4',
+      player2_id: 's5',
+      winner_id: null,
+    });
+  });
+
+  it('places every player exactly once', () => {
+    const players = Array.from({ length: 11 }, (_, i) => ({ id: `p${i + 1}` }));
+    const matches = generateRound1Matches(players);
+    const placed = matches.flatMap(m => [m.player1_id, m.player2_id]).filter(Boolean);
+
+    expect(matches).toHaveLength(8);
+    expect(placed.sort()).toEqual(players.map(p => p.id).sort());
+  });
+});
+
+describe('planDoubleElimination', () => {
+  const countByBracket = (playerCount: number) => {
+    const plan = planDoubleElimination(playerCount);
+    const counts: Record<string, number> = {};
+    for (const m of plan.matches) counts[m.bracket_type] = (counts[m.bracket_type] || 0) + 1;
+    return { plan, counts };
+  };
+
+  it('sizes a field that is not a power of two up to the next one', () => {
+    const { plan, counts } = countByBracket(5);
+
+    expect(plan).toMatchObject({ bracketSize: 8, winnersRounds: 3, losersRounds: 4 });
+    expect(counts).toEqual({ main: 7, consolation: 6, grand_final: 2 });
+  });
+
+  it('sends the main final loser straight to the grand final with two players', () => {
+    const { plan, counts } = countByBracket(2);
+
+    expect(counts).toEqual({ main: 1, grand_final: 2 });
+    expect(plan.matches.find(m => m.bracket_type === 'grand_final' && m.round_number === 1)?.sources).toEqual([
+      { kind: 'winner', bracket_type: 'main', round_number: 1, match_number: 1 },
+      { kind: 'loser', bracket_type: 'main', round_number: 1, match_number: 1 },
+    ]);
+  });
+
+  it('plans nothing for a single player', () => {
+    expect(planDoubleElimination(1).matches).toEqual([]);
+  });
+
+  it('drops every main bracket loser into the consolation bracket exactly once', () => {
+    const plan = planDoubleElimination(16);
+    const drops = plan.matches
+      .flatMap(m => m.sources)
+      .filter((s): s is Exclude<SlotSource, { kind: 'entrant' }> =>
+        s.kind === 'loser' && s.bracket_type === 'main'
+      )
+      .map(s => `${s.round_number}:${s.match_number}`);
+    const mainMatches = plan.matches
+      .filter(m => m.bracket_type === 'main')
+      .map(m => `${m.round_number}:${m.match_number}`);
+
+    expect(drops.sort()).toEqual(mainMatches.sort());
+  });
+
+  it('crosses dropped players over so they avoid their own side of the bracket', () => {
+    const plan = planDoubleElimination(16);
+    const dropFor = (round: number, matchNumber: number) =>
+      plan.matches.find(
+        m => m.bracket_type === 'consolation' && m.round_number === round && m.match_number === matchNumber
+      )?.sources[1];
+
+    // Main round 2 drops in reverse order
+    expect(dropFor(2, 1)).toMatchObject({ bracket_type: 'main', round_number: 2, match_number: 4 });
+    expect(dropFor(2, 4)).toMatchObject({ bracket_type: 'main', round_number: 2, match_number: 1 });
+    // Main round 3 drops with its halves swapped
+    expect(dropFor(4, 1)).toMatchObject({ bracket_type: 'main', round_number: 3, match_number: 2 });
+    expect(dropFor(4, 2)).toMatchObject({ bracket_type: 'main', round_number: 3, match_number: 1 });
+  });
+
+  it('only plays the bracket reset when the first grand final needs it', () => {
+    const reset = planDoubleElimination(8).matches.find(
+      m => m.bracket_type === 'grand_final' && m.round_number === 2
+    );
+
+    expect(reset?.if_necessary).toBe(true);
+    expect(reset?.sources).toEqual([
+      { kind: 'winner', bracket_type: 'grand_final', round_number: 1, match_number: 1 },
+      { kind: 'loser', bracket_type: 'grand_final', round_number: 1, match_number: 1 },
+    ]);
+  });
+});
+
+describe('getGrandFinalResult', () => {
+  it('is decided by the first grand final when the main bracket side wins', () => {
+    expect(getGrandFinalResult([row(1, 1, 'main', 'cons', 'main')])).toEqual({
+      winnerId: 'main',
+      runnerUpId: 'cons',
+    });
+  });
+
+  it('waits for the reset when the consolation side wins the first grand final', () => {
+    const first = row(1, 1, 'main', 'cons', 'cons');
+
+    expect(getGrandFinalResult([first])).toBeNull();
+    expect(getGrandFinalResult([first, row(2, 1, 'cons', 'main')])).toBeNull();
+    expect(getGrandFinalResult([first, row(2, 1, 'cons', 'main', 'main')])).toEqual({
+      winnerId: 'main',
+      runnerUpId: 'cons',
+    });
+  });
+
+  it('crowns the only finalist of a bye', () => {
+    expect(getGrandFinalResult([row(1, 1, 'main', null)])).toEqual({
+      winnerId: 'main',
+      runnerUpId: null,
+    });
+  });
+
+  it('is undecided before the grand final is played', () => {
+    expect(getGrandFinalResult([])).toBeNull();
+    expect(getGrandFinalResult([row(1, 1, 'main', 'cons')])).toBeNull();
+  });
+});
+
+describe('last chance', () => {
+  const plan = planDoubleElimination(8);
+  const settings = { consolation_rounds: [1] };
+
+  it('waits until every feed round match is decided', () => {
+    const consolation = [row(1, 1, 'p5', 'p6', 'p5'), row(1, 2, 'p7', 'p8')];
+
+    expect(getLastChanceEntrants(plan, { consolation }, settings)).toBeNull();
+    expect(generateLastChanceMatches(plan, { consolation }, settings)).toEqual([]);
+  });
+
+  it('draws the feed round losers once they are all known', () => {
+    const consolation = [row(1, 1, 'p5', 'p6', 'p5'), row(1, 2, 'p7', 'p8', 'p7')];
+
+    expect(getLastChanceEntrants(plan, { consolation }, settings)).toEqual(['p6', 'p8']);
+
+    const [match, ...rest] = generateLastChanceMatches(plan, { consolation }, settings);
+    expect(rest).toEqual([]);
+    expect(match).toMatchObject({ bracket_type: 'last_chance', round_number: 1, status: 'pending' });
+    expect([match.player1_id, match.player2_id].sort()).toEqual(['p6', 'p8']);
+  });
+
+  it('leaves out the empty side of a feed round bye', () => {
+    const consolation = [row(1, 1, 'p5', 'p6', 'p5'), row(1, 2, 'p7', null)];
+
+    expect(getLastChanceEntrants(plan, { consolation }, settings)).toEqual(['p6']);
+    // One player is no bracket
+    expect(generateLastChanceMatches(plan, { consolation }, settings)).toEqual([]);
+  });
+
+  it('advances last chance winners once the draw is made', () => {
+    const last_chance = [row(1, 1, 'a', 'b', 'a'), row(1, 2, 'c', 'd', 'd')];
+
+    expect(generateLastChanceMatches(plan, { last_chance }, { consolation_rounds: [1, 2] })).toEqual([
+      {
+        bracket_type: 'last_chance',
+        round_number: 2,
+        match_number: 1,
+        player1_id: 'a',
+        player2_id: 'd',
+        status: 'pending',
+        winner_id: null,
+      },
+    ]);
+  });
+});
+
+describe('generatePlannedMatches', () => {
+  it('waits for both matches feeding a slot', () => {
+    const main = [row(1, 1, 'p1', 'p2', 'p1'), row(1, 2, 'p3', 'p4')];
+
+    expect(generatePlannedMatches(planDoubleElimination(4), { main })).toEqual([]);
+  });
+
+  it('sends winners on in the main bracket and losers down to the consolation bracket', () => {
+    const main = [row(1, 1, 'p1', 'p2', 'p1'), row(1, 2, 'p3', 'p4', 'p4')];
+
+    expect(generatePlannedMatches(planDoubleElimination(4), { main })).toEqual([
+      {
+        bracket_type: 'main',
+        round_number: 2,
+        match_number: 1,
+        player1_id: 'p1',
+        player2_id: 'p4',
+        status: 'pending',
+        winner_id: null,
+      },
+      {
+        bracket_type: 'consolation',
+        round_number: 1,
+        match_number: 1,
+        player1_id: 'p2',
+        player2_id: 'p3',
+        status: 'pending',
+        winner_id: null,
+      },
+    ]);
+  });
+
+  it('turns a slot a bye leaves half empty into a bye', () => {
+    const main = [row(1, 1, 'p1', null), row(1, 2, 'p2', 'p3', 'p2')];
+
+    expect(generatePlannedMatches(planDoubleElimination(3), { main })).toEqual([
+      expect.objectContaining({ bracket_type: 'main', round_number: 2, player1_id: 'p1', player2_id: 'p2' }),
+      expect.objectContaining({
+        bracket_type: 'consolation',
+        round_number: 1,
+        player1_id: 'p3',
+        player2_id: null,
+        status: 'bye',
+        winner_id: 'p3',
+      }),
+    ]);
+  });
+
+  it('only creates the bracket reset when the consolation side wins the grand final', () => {
+    const plan = planDoubleElimination(2);
+    const main = [row(1, 1, 'p1', 'p2', 'p1')];
+
+    expect(
+      generatePlannedMatches(plan, { main, grand_final: [row(1, 1, 'p1', 'p2', 'p1')] })
+    ).toEqual([]);
+    expect(
+      generatePlannedMatches(plan, { main, grand_final: [row(1, 1, 'p1', 'p2', 'p2')] })
+    ).toEqual([
+      expect.objectContaining({
+        bracket_type: 'grand_final',
+        round_number: 2,
+        player1_id: 'p2',
+        player2_id: 'p1',
+        status: 'pending',
+      }),
+    ]);
+  });
+
+  it('skips slots that already have a match', () => {
+    const main = [row(1, 1, 'p1', 'p2', 'p1'), row(1, 2, 'p3', 'p4', 'p4'), row(2, 1, 'p1', 'p4')];
+
+    expect(generatePlannedMatches(planDoubleElimination(4), { main }).map(m => m.bracket_type)).toEqual([
+      'consolation',
+    ]);
+  });
+});
+
+describe('getCorrectionImpact', () => {
+  it('changes nothing when the winner stays the same', () => {
+    const main = [row(1, 1, 'p1', 'p2', 'p1')];
+
+    expect(getCorrectionImpact(planDoubleElimination(4), { main }, 'main', main[0], 'p1')).toEqual([]);
+  });
+
+  it('swaps the two players wherever the old result sent them', () => {
+    const main = [row(1, 1, 'p1', 'p2', 'p1'), row(1, 2, 'p3', 'p4', 'p3'), row(2, 1, 'p1', 'p3')];
+    const consolation = [row(1, 1, 'p2', 'p4')];
+
+    const changes = getCorrectionImpact(planDoubleElimination(4), { main, consolation }, 'main', main[0], 'p2');
+
+    expect(changes).toEqual([
+      { bracket_type: 'main', match: main[2], action: 'replace', field: 'player1_id', from: 'p1', to: 'p2' },
+      { bracket_type: 'consolation', match: consolation[0], action: 'replace', field: 'player1_id', from: 'p2', to: 'p1' },
+    ]);
+  });
+
+  it('carries a change through a bye to the match after it', () => {
+    const main = [row(1, 1, 'p1', null), row(1, 2, 'p2', 'p3', 'p2'), row(2, 1, 'p1', 'p2', 'p1')];
+    const consolation = [row(1, 1, 'p3', null), row(2, 1, 'p3', 'p2')];
+
+    const changes = getCorrectionImpact(planDoubleElimination(3), { main, consolation }, 'main', main[1], 'p3');
+
+    expect(changes.map(c => [c.bracket_type, c.match.round_number, c.field, c.from, c.to])).toEqual([
+      ['main', 2, 'player2_id', 'p2', 'p3'],
+      ['consolation', 1, 'player1_id', 'p3', 'p2'],
+      ['consolation', 2, 'player1_id', 'p3', 'p2'],
+    ]);
+  });
+
+  it('removes a bracket reset the corrected grand final no longer needs', () => {
+    const main = [row(1, 1, 'p1', 'p2', 'p1')];
+    const grand_final = [row(1, 1, 'p1', 'p2', 'p2'), row(2, 1, 'p2', 'p1')];
+
+    const changes = getCorrectionImpact(
+      planDoubleElimination(2),
+      { main, grand_final },
+      'grand_final',
+      grand_final[0],
+      'p1'
+    );
+
+    expect(changes).toEqual([
+      { bracket_type: 'grand_final', match: grand_final[1], action: 'remove', from: 'p2', to: null },
+    ]);
+  });
+
+  it('swaps the players drawn into the last chance bracket from a feed round', () => {
+    const consolation = [row(1, 1, 'p5', 'p6', 'p5')];
+    const last_chance = [row(1, 1, 'p6', 'p8')];
+
+    const changes = getCorrectionImpact(
+      planDoubleElimination(8),
+      { consolation, last_chance },
+      'consolation',
+      consolation[0],
+      'p6',
+      { consolation_rounds: [1] }
+    );
+
+    expect(changes).toEqual([
+      { bracket_type: 'last_chance', match: last_chance[0], action: 'replace', field: 'player1_id', from: 'p6', to: 'p5' },
+    ]);
+  });
+});
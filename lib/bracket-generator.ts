@@ -1,4 +1,4 @@
-import type { Player, Match, Bracket } from './database.types';
+import type { Player, Match, Bracket, BracketType, LastChanceSettings } from './database.types';
 
 interface BracketMatch {
   round_number: number;
@@ -9,6 +9,42 @@ interface BracketMatch {
   winner_id: string | null;
 }
 
+/**
+ * Where a player in a planned match comes from: a position in the
+ * round 1 draw, or the winner/loser of an earlier match
+ */
+export type SlotSource =
+  | { kind: 'entrant'; position: number }
+  | {
+      kind: 'winner' | 'loser';
+      bracket_type: BracketType;
+      round_number: number;
+      match_number: number;
+    };
+
+export interface PlannedMatch {
+  bracket_type: BracketType;
+  round_number: number;
+  match_number: number;
+  sources: [SlotSource, SlotSource];
+  // Only played when the first source match was won by its second player
+  if_necessary?: boolean;
+}
+
+export interface BracketPlan {
+  bracketSize: number;
+  matches: PlannedMatch[];
+}
+
+export interface DoubleEliminationPlan extends BracketPlan {
+  winnersRounds: number;
+  losersRounds: number;
+}
+
+export type PlannedBracketMatch = BracketMatch & { bracket_type: BracketType };
+
+export type MatchesByBracket = Partial<Record<BracketType, Match[]>>;
+
 /**
  * Calculate the number of rounds needed for a double elimination bracket
  */
@@ -36,53 +72,363 @@ function shuffle<T>(array: T[]): T[] {
   return shuffled;
 }
 
+/**
+ * Standard seed order for a bracket of the given size
+ * e.g. 8 -> [1, 8, 4, 5, 2, 7, 3, 6], so seed 1 meets seed 8 in round 1
+ */
+function seedPositions(bracketSize: number): number[] {
+  let positions = [1];
+  while (positions.length < bracketSize) {
+    const size = positions.length * 2;
+    positions = positions.flatMap(seed => [seed, size + 1 - seed]);
+  }
+  return positions;
+}
+
+/**
+ * Order entrants for a seeded draw: manual seeds first, then by rating
+ * (highest first), then unrated players in random order
+ */
+export function orderForSeeding<T extends { seed: number | null; rating: number | null }>(
+  entrants: T[]
+): T[] {
+  const seeded = entrants
+    .filter(e => e.seed !== null)
+    .sort((a, b) => a.seed! - b.seed!);
+  const rated = entrants
+    .filter(e => e.seed === null && e.rating !== null)
+    .sort((a, b) => b.rating! - a.rating!);
+  const unrated = shuffle(entrants.filter(e => e.seed === null && e.rating === null));
+  return [...seeded, ...rated, ...unrated];
+}
+
 /**
  * Generate round 1 matches for a main bracket
  * Handles byes when player count is not a power of 2
+ * With `seeded`, players must already be in seed order (see orderForSeeding);
+ * otherwise the draw is random
  */
 export function generateRound1Matches(
-  players: Player[],
-  startingTableNumber: number = 1
+  players: Pick<Player, 'id'>[],
+  startingTableNumber: number = 1,
+  options: { seeded?: boolean } = {}
 ): BracketMatch[] {
-  const shuffledPlayers = shuffle(players);
-  const bracketSize = nextPowerOf2(shuffledPlayers.length);
-  const byeCount = bracketSize - shuffledPlayers.length;
+  const orderedPlayers = options.seeded ? players : shuffle(players);
+  const bracketSize = nextPowerOf2(orderedPlayers.length);
+  const positions = seedPositions(bracketSize);
   const matches: BracketMatch[] = [];
 
-  // Players who get byes (highest seeds in a real tournament,
-  // but we're using random seeding so just pick the first ones)
-  const byePlayers = shuffledPlayers.slice(0, byeCount);
-  const regularPlayers = shuffledPlayers.slice(byeCount);
+  // Players are placed in standard seed positions (1 vs 16, 8 vs 9, ...),
+  // so the byes (the empty seeds past the player count) go to the top
+  // seeds and are spread across the bracket instead of meeting each other
+  for (let i = 0; i < positions.length; i += 2) {
+    const player1 = orderedPlayers[positions[i] - 1] || null;
+    const player2 = orderedPlayers[positions[i + 1] - 1] || null;
+    const present = player1 || player2;
 
-  let matchNumber = 1;
-
-  // Create bye matches first (these players auto-advance)
-  for (const player of byePlayers) {
     matches.push({
       round_number: 1,
-      match_number: matchNumber++,
-      player1_id: player.id,
-      player2_id: null,
-      status: 'bye',
-      winner_id: player.id, // Auto-win
+      match_number: i / 2 + 1,
+      player1_id: present?.id || null,
+      player2_id: player1 && player2 ? player2.id : null,
+      status: player1 && player2 ? 'pending' : 'bye',
+      winner_id: player1 && player2 ? null : present?.id || null, // Auto-win
     });
   }
 
-  // Create regular matches
-  for (let i = 0; i < regularPlayers.length; i += 2) {
+  return matches;
+}
+
+/**
+ * Order in which losers of a winners round drop into the consolation bracket.
+ * Alternates between reversing and swapping halves so a dropped player is
+ * not immediately paired with someone from their own side of the bracket.
+ * Both orders are their own inverse.
+ */
+function dropDownMatchNumber(winnersRound: number, matchNumber: number, matchCount: number): number {
+  if (matchCount === 1) return matchNumber;
+  if (winnersRound % 2 === 0) return matchCount - matchNumber + 1;
+  return ((matchNumber - 1 + matchCount / 2) % matchCount) + 1;
+}
+
+function from(
+  kind: 'winner' | 'loser',
+  bracket_type: BracketType,
+  round_number: number,
+  match_number: number
+): SlotSource {
+  return { kind, bracket_type, round_number, match_number };
+}
+
+/**
+ * Plan a single elimination tree: round 1 from the draw, then winners pair off
+ */
+function planSingleElimination(bracketType: BracketType, bracketSize: number): PlannedMatch[] {
+  const matches: PlannedMatch[] = [];
+  const rounds = calculateRounds(bracketSize);
+
+  for (let round = 1; round <= rounds; round++) {
+    const matchCount = bracketSize / Math.pow(2, round);
+    for (let m = 1; m <= matchCount; m++) {
+      matches.push({
+        bracket_type: bracketType,
+        round_number: round,
+        match_number: m,
+        sources:
+          round === 1
+            ? [{ kind: 'entrant', position: 2 * m - 2 }, { kind: 'entrant', position: 2 * m - 1 }]
+            : [
+                from('winner', bracketType, round - 1, 2 * m - 1),
+                from('winner', bracketType, round - 1, 2 * m),
+              ],
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Plan every match of a double elimination event: the main (winners)
+ * bracket, the consolation (losers) bracket with its feed-in rounds, and
+ * the grand final between the two bracket winners
+ */
+export function planDoubleElimination(playerCount: number): DoubleEliminationPlan {
+  const bracketSize = playerCount <= 1 ? 1 : nextPowerOf2(playerCount);
+  const winnersRounds = calculateRounds(bracketSize);
+  const losersRounds = Math.max(0, 2 * winnersRounds - 2);
+
+  if (winnersRounds === 0) {
+    return { bracketSize, winnersRounds, losersRounds, matches: [] };
+  }
+
+  // Main bracket: round 1 from the draw, then winners pair off
+  const matches = planSingleElimination('main', bracketSize);
+
+  // Consolation bracket: round 1 pairs main round 1 losers, then rounds
+  // alternate between survivors meeting players dropping down from the
+  // main bracket and survivors playing each other
+  for (let round = 1; round <= losersRounds; round++) {
+    const matchCount = bracketSize / Math.pow(2, Math.ceil(round / 2) + 1);
+    for (let m = 1; m <= matchCount; m++) {
+      let sources: [SlotSource, SlotSource];
+      if (round === 1) {
+        sources = [from('loser', 'main', 1, 2 * m - 1), from('loser', 'main', 1, 2 * m)];
+      } else if (round % 2 === 0) {
+        const winnersRound = round / 2 + 1;
+        sources = [
+          from('winner', 'consolation', round - 1, m),
+          from('loser', 'main', winnersRound, dropDownMatchNumber(winnersRound, m, matchCount)),
+        ];
+      } else {
+        sources = [
+          from('winner', 'consolation', round - 1, 2 * m - 1),
+          from('winner', 'consolation', round - 1, 2 * m),
+        ];
+      }
+      matches.push({ bracket_type: 'consolation', round_number: round, match_number: m, sources });
+    }
+  }
+
+  // Grand final: main bracket winner against consolation bracket winner
+  // (with only two players, the main final loser goes straight through)
+  matches.push({
+    bracket_type: 'grand_final',
+    round_number: 1,
+    match_number: 1,
+    sources: [
+      from('winner', 'main', winnersRounds, 1),
+      losersRounds > 0
+        ? from('winner', 'consolation', losersRounds, 1)
+        : from('loser', 'main', winnersRounds, 1),
+    ],
+  });
+
+  // Bracket reset: if the consolation side wins, both players have one
+  // loss and the grand final is replayed
+  matches.push({
+    bracket_type: 'grand_final',
+    round_number: 2,
+    match_number: 1,
+    sources: [from('winner', 'grand_final', 1, 1), from('loser', 'grand_final', 1, 1)],
+    if_necessary: true,
+  });
+
+  return { bracketSize, winnersRounds, losersRounds, matches };
+}
+
+/**
+ * Plan a last chance bracket: single elimination among players knocked
+ * out of the consolation bracket in the configured rounds
+ */
+export function planLastChance(playerCount: number): BracketPlan {
+  const bracketSize = playerCount <= 1 ? 1 : nextPowerOf2(playerCount);
+  return { bracketSize, matches: planSingleElimination('last_chance', bracketSize) };
+}
+
+function slotKey(bracketType: BracketType, roundNumber: number, matchNumber: number): string {
+  return `${bracketType}:${roundNumber}:${matchNumber}`;
+}
+
+/**
+ * Resolves planned slots against the match rows created so far.
+ * A slot player is a player id, null when the slot will stay empty
+ * (a bye further up the tree), or undefined while still undecided.
+ */
+function createSlotResolver(plan: BracketPlan, matchesByBracket: MatchesByBracket) {
+  const planned = new Map<string, PlannedMatch>();
+  for (const match of plan.matches) {
+    planned.set(slotKey(match.bracket_type, match.round_number, match.match_number), match);
+  }
+
+  const rows = new Map<string, Match>();
+  for (const [bracketType, matches] of Object.entries(matchesByBracket)) {
+    for (const match of matches || []) {
+      rows.set(slotKey(bracketType as BracketType, match.round_number, match.match_number), match);
+    }
+  }
+
+  const memo = new Map<string, [string | null | undefined, string | null | undefined]>();
+
+  const resolveSource = (source: SlotSource): string | null | undefined => {
+    // Entrants are only known while building the draw; afterwards round 1 rows exist
+    if (source.kind === 'entrant') return undefined;
+
+    const key = slotKey(source.bracket_type, source.round_number, source.match_number);
+    const row = rows.get(key);
+
+    if (row) {
+      if (row.status === 'bye') return source.kind === 'winner' ? row.winner_id : null;
+      if (row.status !== 'completed' || !row.winner_id) return undefined;
+      if (source.kind === 'winner') return row.winner_id;
+      return row.winner_id === row.player1_id ? row.player2_id : row.player1_id;
+    }
+
+    const match = planned.get(key);
+    if (!match) return null;
+
+    // Not created yet: only decided if it collapses into a bye or an empty slot
+    const [player1, player2] = resolvePlayers(match);
+    if (player1 === undefined || player2 === undefined) return undefined;
+    if (player1 && player2) return undefined;
+    return source.kind === 'winner' ? player1 ?? player2 : null;
+  };
+
+  const isDecidedByPlayer1 = (source: SlotSource): boolean => {
+    if (source.kind === 'entrant') return false;
+    const row = rows.get(slotKey(source.bracket_type, source.round_number, source.match_number));
+    if (!row) return false;
+    return row.status === 'bye' ||
+      (row.status === 'completed' && !!row.winner_id && row.winner_id === row.player1_id);
+  };
+
+  const resolvePlayers = (match: PlannedMatch) => {
+    const key = slotKey(match.bracket_type, match.round_number, match.match_number);
+    const cached = memo.get(key);
+    if (cached) return cached;
+
+    const row = rows.get(key);
+    let players: [string | null | undefined, string | null | undefined];
+    if (row) {
+      players = [row.player1_id, row.player2_id];
+    } else if (match.if_necessary && isDecidedByPlayer1(match.sources[0])) {
+      players = [null, null];
+    } else {
+      players = [resolveSource(match.sources[0]), resolveSource(match.sources[1])];
+    }
+    memo.set(key, players);
+    return players;
+  };
+
+  return { rows, resolveSource, resolvePlayers };
+}
+
+/**
+ * Get the matches that can be created now: slots without a match row
+ * whose players are both decided. Slots left with a single player become
+ * byes; slots left with nobody are skipped.
+ */
+export function generatePlannedMatches(
+  plan: BracketPlan,
+  matchesByBracket: MatchesByBracket
+): PlannedBracketMatch[] {
+  const { rows, resolvePlayers } = createSlotResolver(plan, matchesByBracket);
+  const matches: PlannedBracketMatch[] = [];
+
+  for (const match of plan.matches) {
+    if (rows.has(slotKey(match.bracket_type, match.round_number, match.match_number))) continue;
+
+    const [player1, player2] = resolvePlayers(match);
+    if (player1 === undefined || player2 === undefined) continue;
+    if (!player1 && !player2) continue;
+
+    const present = player1 ?? player2;
     matches.push({
-      round_number: 1,
-      match_number: matchNumber++,
-      player1_id: regularPlayers[i].id,
-      player2_id: regularPlayers[i + 1]?.id || null,
-      status: regularPlayers[i + 1] ? 'pending' : 'bye',
-      winner_id: regularPlayers[i + 1] ? null : regularPlayers[i].id,
+      bracket_type: match.bracket_type,
+      round_number: match.round_number,
+      match_number: match.match_number,
+      player1_id: present,
+      player2_id: player1 && player2 ? player2 : null,
+      status: player1 && player2 ? 'pending' : 'bye',
+      winner_id: player1 && player2 ? null : present,
     });
   }
 
   return matches;
 }
 
+/**
+ * Get the players entering the last chance bracket: losers of the
+ * configured consolation rounds, in bracket order. Returns null until
+ * every match in those rounds has been decided.
+ */
+export function getLastChanceEntrants(
+  plan: DoubleEliminationPlan,
+  matchesByBracket: MatchesByBracket,
+  settings: LastChanceSettings
+): string[] | null {
+  const { resolveSource } = createSlotResolver(plan, matchesByBracket);
+  const feedMatches = plan.matches.filter(
+    m => m.bracket_type === 'consolation' && settings.consolation_rounds.includes(m.round_number)
+  );
+
+  if (feedMatches.length === 0) return [];
+
+  const entrants: string[] = [];
+  for (const match of feedMatches) {
+    const loser = resolveSource(from('loser', 'consolation', match.round_number, match.match_number));
+    if (loser === undefined) return null;
+    if (loser) entrants.push(loser);
+  }
+
+  return entrants;
+}
+
+/**
+ * Get the last chance matches that can be created now: the round 1 draw
+ * once all feed rounds are decided, then later rounds as winners emerge
+ */
+export function generateLastChanceMatches(
+  plan: DoubleEliminationPlan,
+  matchesByBracket: MatchesByBracket,
+  settings: LastChanceSettings
+): PlannedBracketMatch[] {
+  const existing = matchesByBracket.last_chance || [];
+
+  if (existing.length === 0) {
+    const entrants = getLastChanceEntrants(plan, matchesByBracket, settings);
+    if (!entrants || entrants.length < 2) return [];
+
+    return generateRound1Matches(entrants.map(id => ({ id }))).map(match => ({
+      ...match,
+      bracket_type: 'last_chance' as const,
+    }));
+  }
+
+  const lastChancePlan = planLastChance(existing.filter(m => m.round_number === 1).length * 2);
+  return generatePlannedMatches(lastChancePlan, matchesByBracket);
+}
+
 /**
  * Generate next round matches based on completed matches
  * Winners advance in their current bracket
@@ -136,26 +482,13 @@ export function getLosersFromRound(
     .filter((id): id is string => id !== null);
 }
 
-/**
- * Assign sequential table numbers to matches
- */
-export function assignTableNumbers(
-  matches: BracketMatch[],
-  startingTable: number = 1
-): (BracketMatch & { table_number: number | null })[] {
-  let tableNumber = startingTable;
-
-  return matches.map(match => ({
-    ...match,
-    // Only assign table numbers to matches that will actually be played
-    table_number: match.status === 'bye' ? null : tableNumber++,
-  }));
-}
-
 /**
  * Check if all matches in a round are completed
  */
-export function isRoundComplete(matches: Match[], roundNumber: number): boolean {
+export function isRoundComplete(
+  matches: Pick<Match, 'round_number' | 'status'>[],
+  roundNumber: number
+): boolean {
   const roundMatches = matches.filter(m => m.round_number === roundNumber);
   return roundMatches.length > 0 &&
     roundMatches.every(m => m.status === 'completed' || m.status === 'bye');
@@ -164,7 +497,7 @@ export function isRoundComplete(matches: Match[], roundNumber: number): boolean
 /**
  * Get the current active round number for a bracket
  */
-export function getCurrentRound(matches: Match[]): number {
+export function getCurrentRound(matches: Pick<Match, 'round_number' | 'status'>[]): number {
   if (matches.length === 0) return 1;
 
   const rounds = [...new Set(matches.map(m => m.round_number))].sort((a, b) => a - b);
@@ -192,6 +525,31 @@ export function isBracketComplete(matches: Match[]): boolean {
   return finalMatches.length === 1 && finalMatches[0].winner_id !== null;
 }
 
+/**
+ * Get the champion and runner-up from grand final matches.
+ * The first grand final decides it when the main bracket side (player 1)
+ * wins; otherwise the bracket reset does.
+ */
+export function getGrandFinalResult(
+  matches: Match[]
+): { winnerId: string; runnerUpId: string | null } | null {
+  const first = matches.find(m => m.round_number === 1);
+  const reset = matches.find(m => m.round_number === 2);
+
+  let deciding: Match | undefined;
+  if (reset) {
+    deciding = reset;
+  } else if (first && (first.status === 'bye' || first.winner_id === first.player1_id)) {
+    deciding = first;
+  }
+
+  if (!deciding?.winner_id) return null;
+  return {
+    winnerId: deciding.winner_id,
+    runnerUpId: deciding.winner_id === deciding.player1_id ? deciding.player2_id : deciding.player1_id,
+  };
+}
+
 /**
  * Get bracket winner
  */
@@ -203,3 +561,111 @@ export function getBracketWinner(matches: Match[]): string | null {
 
   return finalMatch?.winner_id || null;
 }
+
+/**
+ * A downstream match touched by correcting an earlier result: either a
+ * player advanced by the old result is replaced, or an if-necessary match
+ * that is no longer needed is removed
+ */
+export interface DownstreamChange {
+  bracket_type: BracketType;
+  match: Match;
+  action: 'replace' | 'remove';
+  field?: 'player1_id' | 'player2_id';
+  from: string;
+  to: string | null;
+}
+
+function isSameSource(a: SlotSource, b: SlotSource): boolean {
+  return a.kind !== 'entrant' && b.kind !== 'entrant' &&
+    a.kind === b.kind &&
+    a.bracket_type === b.bracket_type &&
+    a.round_number === b.round_number &&
+    a.match_number === b.match_number;
+}
+
+/**
+ * Work out which existing matches change when a completed match is given a
+ * different winner. The new winner takes the old winner's place, the old
+ * winner takes the old loser's place, and changes pass through byes.
+ */
+export function getCorrectionImpact(
+  plan: DoubleEliminationPlan,
+  matchesByBracket: MatchesByBracket,
+  bracketType: BracketType,
+  match: Match,
+  newWinnerId: string,
+  lastChanceSettings?: LastChanceSettings | null
+): DownstreamChange[] {
+  const oldWinner = match.winner_id;
+  if (!oldWinner || oldWinner === newWinnerId) return [];
+  const oldLoser = oldWinner === match.player1_id ? match.player2_id : match.player1_id;
+
+  const { rows } = createSlotResolver(plan, matchesByBracket);
+  const lastChanceMatches = matchesByBracket.last_chance || [];
+  const plannedMatches = [
+    ...plan.matches,
+    ...(lastChanceMatches.length > 0
+      ? planLastChance(lastChanceMatches.filter(m => m.round_number === 1).length * 2).matches
+      : []),
+  ];
+
+  const changes: DownstreamChange[] = [];
+  const queue: { source: SlotSource; from: string; to: string }[] = [
+    { source: from('winner', bracketType, match.round_number, match.match_number), from: oldWinner, to: newWinnerId },
+  ];
+  if (oldLoser) {
+    queue.push({
+      source: from('loser', bracketType, match.round_number, match.match_number),
+      from: oldLoser,
+      to: oldWinner,
+    });
+  }
+
+  const replace = (type: BracketType, row: Match, fromPlayer: string, toPlayer: string) => {
+    const field = row.player1_id === fromPlayer ? 'player1_id' : row.player2_id === fromPlayer ? 'player2_id' : null;
+    if (!field) return;
+
+    changes.push({ bracket_type: type, match: row, action: 'replace', field, from: fromPlayer, to: toPlayer });
+
+    // A bye passes its player straight on, so the change carries forward
+    if (row.status === 'bye') {
+      queue.push({ source: from('winner', type, row.round_number, row.match_number), from: fromPlayer, to: toPlayer });
+    }
+  };
+
+  // Last chance round 1 is drawn from the feed rounds' losers, not planned slots
+  if (
+    bracketType === 'consolation' && oldLoser &&
+    lastChanceSettings?.consolation_rounds.includes(match.round_number)
+  ) {
+    const drawn = lastChanceMatches.find(
+      m => m.round_number === 1 && (m.player1_id === oldLoser || m.player2_id === oldLoser)
+    );
+    if (drawn) replace('last_chance', drawn, oldLoser, oldWinner);
+  }
+
+  while (queue.length > 0) {
+    const change = queue.shift()!;
+
+    for (const planned of plannedMatches) {
+      if (!planned.sources.some(source => isSameSource(source, change.source))) continue;
+
+      const row = rows.get(slotKey(planned.bracket_type, planned.round_number, planned.match_number));
+      if (!row) continue;
+
+      // The reset only exists because the first grand final went the other
+      // way; any change to that result means it should not have been played
+      if (planned.if_necessary) {
+        if (!changes.some(c => c.match.id === row.id)) {
+          changes.push({ bracket_type: planned.bracket_type, match: row, action: 'remove', from: change.from, to: null });
+        }
+        continue;
+      }
+
+      replace(planned.bracket_type, row, change.from, change.to);
+    }
+  }
+
+  return changes;
+}
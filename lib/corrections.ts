@@ -0,0 +1,368 @@
+import { supabaseAdmin } from './supabase-admin';
+import { advanceDivision } from './advancement';
+import { recordAuditEvent, type AuditActor } from './audit';
+import { callMatches } from './match-calls';
+import { queueSMS } from './sms-queue';
+import { loadMessenger } from './sms-templates';
+import { validateScoresheet } from './scoresheet';
+import {
+  planDoubleElimination,
+  getCorrectionImpact,
+  type DownstreamChange,
+  type MatchesByBracket,
+} from './bracket-generator';
+import type { Bracket, BracketType, Division, Match, ScoreRules } from './database.types';
+
+export interface CorrectionInput {
+  player1Score: number;
+  player2Score: number;
+  reason?: string;
+}
+
+// repair: updated automatically; warn: already being played, so it goes
+// back to waiting and its players are texted; blocked: already has a
+// result, so the correction cannot go ahead
+export type DownstreamState = 'repair' | 'warn' | 'blocked';
+
+export interface CorrectionPreview {
+  match: Match;
+  bracketType: BracketType;
+  divisionId: string;
+  tournamentId: string;
+  matchLength: number;
+  scoreRules: ScoreRules | null;
+  newWinnerId: string;
+  winnerChanged: boolean;
+  changes: (DownstreamChange & { state: DownstreamState })[];
+  blocked: boolean;
+  needsConfirmation: boolean;
+}
+
+const MATCH_WITH_PLAYERS = `
+  *,
+  player1:players!matches_player1_id_fkey (*),
+  player2:players!matches_player2_id_fkey (*)
+`;
+
+// The players of a called or started match have been told to play it
+function wasCalled(match: Match): boolean {
+  return !!match.called_at || match.status === 'in_progress';
+}
+
+function getDownstreamState(match: Match): DownstreamState {
+  if (match.status === 'completed') return 'blocked';
+  if (match.status === 'in_progress') return 'warn';
+  return 'repair';
+}
+
+/**
+ * Work out what correcting a completed match would change downstream,
+ * without changing anything
+ */
+export async function previewCorrection(
+  matchId: string,
+  input: CorrectionInput
+): Promise<CorrectionPreview> {
+  const { data: match, error: matchError } = await supabaseAdmin
+    .from('matches')
+    .select(`${MATCH_WITH_PLAYERS}, bracket:brackets!inner (*)`)
+    .eq('id', matchId)
+    .single();
+
+  if (matchError) throw matchError;
+
+  const bracket = match.bracket as unknown as Bracket;
+
+  const { data: division, error: divisionError } = await supabaseAdmin
+    .from('divisions')
+    .select('*')
+    .eq('id', bracket.division_id)
+    .single();
+
+  if (divisionError) throw divisionError;
+
+  const { data: brackets, error: bracketsError } = await supabaseAdmin
+    .from('brackets')
+    .select('*')
+    .eq('division_id', bracket.division_id);
+
+  if (bracketsError) throw bracketsError;
+
+  const { data: matchesData, error: matchesError } = await supabaseAdmin
+    .from('matches')
+    .select(MATCH_WITH_PLAYERS)
+    .in('bracket_id', (brackets as Bracket[]).map(b => b.id));
+
+  if (matchesError) throw matchesError;
+
+  const matchesByBracket: MatchesByBracket = {};
+  for (const b of brackets as Bracket[]) {
+    matchesByBracket[b.bracket_type] = (matchesData as Match[]).filter(m => m.bracket_id === b.id);
+  }
+
+  const newWinnerId = (input.player1Score > input.player2Score ? match.player1_id : match.player2_id) as string;
+  const plan = planDoubleElimination(
+    (matchesByBracket.main || []).filter(m => m.round_number === 1).length * 2
+  );
+  const changes = getCorrectionImpact(
+    plan,
+    matchesByBracket,
+    bracket.bracket_type,
+    match as Match,
+    newWinnerId,
+    (division as Division).last_chance_settings
+  ).map(change => ({ ...change, state: getDownstreamState(change.match) }));
+
+  return {
+    match: match as Match,
+    bracketType: bracket.bracket_type,
+    divisionId: bracket.division_id,
+    tournamentId: (division as Division).tournament_id,
+    matchLength: (division as Division).match_length,
+    scoreRules: (division as Division).score_rules,
+    newWinnerId,
+    winnerChanged: newWinnerId !== match.winner_id,
+    changes,
+    blocked: changes.some(c => c.state === 'blocked'),
+    needsConfirmation: changes.some(c => c.state === 'warn'),
+  };
+}
+
+// applied: the correction and its repairs are saved; changed: the match or
+// a later one changed since the preview, so nothing was kept; partial: a
+// step failed and not every earlier step could be undone
+export type CorrectionOutcome = 'applied' | 'changed' | 'partial';
+
+// Puts back one write a correction made
+type UndoStep = () => PromiseLike<{ error: unknown }>;
+
+/**
+ * Put back what a correction wrote so far, newest first. Returns false if
+ * any of it could not be undone.
+ */
+async function undoSteps(steps: UndoStep[]): Promise<boolean> {
+  let clean = true;
+
+  for (const step of [...steps].reverse()) {
+    const { error } = await step();
+    if (error) {
+      console.error('Failed to undo correction step:', error);
+      clean = false;
+    }
+  }
+
+  return clean;
+}
+
+/**
+ * Correct a completed match: store the new result, repair downstream
+ * matches that have not started, record the correction and re-run
+ * advancement in case the change unlocks or removes matches.
+ * Callers must check the preview is not blocked first. Every write only
+ * goes ahead if its match still looks as it did in the preview; if one
+ * doesn't, or fails, the earlier ones are undone.
+ */
+export async function applyCorrection(
+  preview: CorrectionPreview,
+  input: CorrectionInput,
+  actor: AuditActor
+): Promise<CorrectionOutcome> {
+  const { match, changes } = preview;
+
+  // A scoresheet that no longer adds up to the result is dropped
+  const keepGames =
+    !!match.games &&
+    validateScoresheet(
+      match.games,
+      {
+        player1Id: match.player1_id,
+        player2Id: match.player2_id,
+        player1Score: input.player1Score,
+        player2Score: input.player2Score,
+      },
+      preview.matchLength,
+      preview.scoreRules
+    ).valid;
+
+  const { data: corrected, error: matchError } = await supabaseAdmin
+    .from('matches')
+    .update({
+      player1_score: input.player1Score,
+      player2_score: input.player2Score,
+      winner_id: preview.newWinnerId,
+      games: keepGames ? match.games : null,
+      forfeit: null,
+    })
+    .eq('id', match.id)
+    .eq('status', 'completed')
+    .eq('winner_id', match.winner_id)
+    .eq('player1_score', match.player1_score)
+    .eq('player2_score', match.player2_score)
+    .select('id');
+
+  if (matchError) throw matchError;
+  if (!corrected || corrected.length === 0) return 'changed';
+
+  const undo: UndoStep[] = [
+    () =>
+      supabaseAdmin
+        .from('matches')
+        .update({
+          player1_score: match.player1_score,
+          player2_score: match.player2_score,
+          winner_id: match.winner_id,
+          games: match.games,
+          forfeit: match.forfeit,
+        })
+        .eq('id', match.id),
+  ];
+
+  // Stops at the first step that fails or finds its match changed
+  let stepError: unknown = null;
+  let changed = false;
+
+  for (const change of changes) {
+    if (change.action === 'remove') {
+      const { data: removed, error } = await supabaseAdmin
+        .from('matches')
+        .delete()
+        .eq('id', change.match.id)
+        .eq('status', change.match.status)
+        .select();
+
+      if (error) {
+        stepError = error;
+        break;
+      }
+      if (!removed || removed.length === 0) {
+        changed = true;
+        break;
+      }
+      undo.push(() => supabaseAdmin.from('matches').insert(removed));
+      continue;
+    }
+
+    const { data: replaced, error } = await supabaseAdmin
+      .from('matches')
+      .update({
+        [change.field!]: change.to,
+        // A bye's only player is also its winner
+        ...(change.match.status === 'bye' ? { winner_id: change.to } : {}),
+        // The new pairing is called again once the correction is saved
+        ...(wasCalled(change.match)
+          ? { status: 'pending', started_at: null, called_at: null }
+          : {}),
+      })
+      .eq('id', change.match.id)
+      .eq('status', change.match.status)
+      .eq(change.field!, change.from)
+      .select('id');
+
+    if (error) {
+      stepError = error;
+      break;
+    }
+    if (!replaced || replaced.length === 0) {
+      changed = true;
+      break;
+    }
+    undo.push(() =>
+      supabaseAdmin
+        .from('matches')
+        .update({
+          [change.field!]: change.from,
+          winner_id: change.match.winner_id,
+          status: change.match.status,
+          started_at: change.match.started_at,
+          called_at: change.match.called_at,
+        })
+        .eq('id', change.match.id)
+    );
+  }
+
+  if (!stepError && !changed) {
+    const { error: correctionError } = await supabaseAdmin.from('match_corrections').insert({
+      match_id: match.id,
+      previous_winner_id: match.winner_id,
+      previous_player1_score: match.player1_score,
+      previous_player2_score: match.player2_score,
+      new_winner_id: preview.newWinnerId,
+      new_player1_score: input.player1Score,
+      new_player2_score: input.player2Score,
+      reason: input.reason || null,
+      affected_match_ids: changes.map(c => c.match.id),
+    });
+    stepError = correctionError;
+  }
+
+  if (stepError || changed) {
+    if (!(await undoSteps(undo))) return 'partial';
+    if (stepError) throw stepError;
+    return 'changed';
+  }
+
+  await recordAuditEvent({
+    tournamentId: preview.tournamentId,
+    action: 'match.corrected',
+    actor,
+    matchId: match.id,
+    details: {
+      previous: {
+        player1_score: match.player1_score,
+        player2_score: match.player2_score,
+        winner_id: match.winner_id,
+      },
+      player1_score: input.player1Score,
+      player2_score: input.player2Score,
+      winner_id: preview.newWinnerId,
+      reason: input.reason || null,
+      affected_match_ids: changes.map(c => c.match.id),
+    },
+  });
+
+  await advanceDivision(preview.divisionId);
+
+  // A failed text shouldn't undo the correction
+  try {
+    await notifyCalledPlayers(changes, preview.tournamentId);
+  } catch (notifyError) {
+    console.error('Failed to text players about the correction:', notifyError);
+  }
+
+  return 'applied';
+}
+
+/**
+ * Players already called to a match the correction took them out of are
+ * told it is off, and the matches that got a new player are called again
+ */
+async function notifyCalledPlayers(changes: DownstreamChange[], tournamentId: string): Promise<void> {
+  const called = changes.filter(c => wasCalled(c.match));
+
+  for (const change of called) {
+    const { match } = change;
+    const pairs = [
+      [match.player1, match.player2],
+      [match.player2, match.player1],
+    ].filter(([player]) => change.action === 'remove' || player?.id === change.from);
+
+    for (const [player, opponent] of pairs) {
+      if (!player?.phone || player.sms_opt_out) continue;
+
+      const say = await loadMessenger(player.language, tournamentId);
+      await queueSMS({
+        to: player.phone,
+        body: say('match_call_cancelled', {
+          player: player.name,
+          opponent: opponent?.name ?? say('to_be_decided'),
+          table: match.table_number ?? say('to_be_decided'),
+        }),
+        tournamentId,
+        playerId: player.id,
+        template: 'match_call_cancelled',
+      });
+    }
+  }
+
+  await callMatches(called.filter(c => c.action === 'replace').map(c => c.match.id));
+}
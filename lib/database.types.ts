@@ -1,9 +1,63 @@
 // Status types
 export type TournamentStatus = 'draft' | 'in_progress' | 'completed' | 'cancelled';
-export type BracketType = 'main' | 'consolation' | 'last_chance';
+export type BracketType = 'main' | 'consolation' | 'grand_final' | 'last_chance';
 export type BracketStatus = 'pending' | 'in_progress' | 'completed';
 export type MatchStatus = 'pending' | 'in_progress' | 'completed' | 'bye';
-export type ScoreReportStatus = 'pending' | 'approved' | 'rejected' | 'needs_clarification';
+export type ScoreReportStatus =
+  | 'pending'
+  | 'awaiting_confirmation'
+  | 'disputed'
+  | 'approved'
+  | 'rejected'
+  | 'withdrawn'
+  | 'needs_clarification';
+export type DisputeReason = 'opponent_rejected' | 'no_response';
+// How an SMS score was assigned to the two players
+export type ScoreOrientation =
+  | 'names' // Names in the text matched the players
+  | 'sender' // "I won", "lost 3-7", "beat me"
+  | 'sender_first' // A bare "9-4" is read from the sender's side
+  | 'match_order'; // Nothing to go on: listed as player1-player2
+export type StaffRole = 'owner' | 'co_director' | 'scorekeeper' | 'read_only';
+export type SmsLanguage = 'en' | 'es';
+export type SmsMessageStatus =
+  | 'queued' // Waiting to be sent, or to be retried at next_attempt_at
+  | 'sending' // Claimed by a queue run
+  | 'sent' // Accepted by Twilio
+  | 'delivered' // Twilio's status callback confirmed delivery
+  | 'failed'; // Out of retries, rejected for good, or undelivered
+export type SmsMessageKind = 'outbound' | 'reply'; // Queued text, or a TwiML answer to a player's text
+export type AuditAction =
+  | 'entry.added'
+  | 'entry.checked_in'
+  | 'entry.check_in_removed'
+  | 'entry.fee_paid'
+  | 'entry.fee_unpaid'
+  | 'entry.division_changed'
+  | 'entry.removed'
+  | 'player.updated'
+  | 'match.score_entered'
+  | 'match.corrected'
+  | 'match.called'
+  | 'match.started'
+  | 'match.table_changed'
+  | 'match.time_forfeit'
+  | 'matches.created'
+  | 'score_report.approved'
+  | 'score_report.auto_approved'
+  | 'score_report.confirmation_requested'
+  | 'score_report.confirmed'
+  | 'score_report.disputed'
+  | 'score_report.rejected'
+  | 'score_report.withdrawn'
+  | 'brackets.generated'
+  | 'bracket.completed'
+  | 'tournament.status_changed'
+  | 'tournament.settings_changed'
+  | 'division.settings_changed'
+  | 'staff.added'
+  | 'staff.role_changed'
+  | 'staff.removed';
 
 // Core entities
 export interface Player {
@@ -11,6 +65,9 @@ export interface Player {
   name: string;
   email: string | null;
   phone: string | null;
+  rating: number | null; // Used to seed draws
+  sms_opt_out: boolean; // No match-call texts; replies to their own texts still go out
+  language: SmsLanguage; // Texts to this player use this language's templates
   created_at: string;
   updated_at: string;
 }
@@ -23,18 +80,66 @@ export interface Tournament {
   end_date: string | null;
   status: TournamentStatus;
   sms_phone_number: string | null;
+  director_phone: string | null; // Filled into {director_phone} in SMS templates
+  sms_templates: SmsTemplateOverrides | null; // Null uses the defaults in lib/sms-templates
+  match_minutes_per_point: number | null; // Overdue alert pace; null uses DEFAULT_MINUTES_PER_POINT
+  table_pool: TablePool | null; // Null numbers tables 1, 2, 3... as needed
   created_by: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface LastChanceSettings {
+  consolation_rounds: number[]; // Losers of these consolation rounds enter last chance
+}
+
+export interface TablePool {
+  count: number; // Tables are numbered 1 to count
+  disabled: number[]; // Out of service; never assigned
+  division_ranges: Record<string, { from: number; to: number }>; // Division id -> the tables it plays on
+}
+
+// Director's wording for SMS templates: template key -> language -> text
+export type SmsTemplateOverrides = Record<string, Partial<Record<SmsLanguage, string>>>;
+
+export interface ScoreRules {
+  // Points the winner may finish past match_length: 0 records results exactly
+  // at match length, 2 allows a backgammon on the final game (10-7 to 9)
+  max_overshoot: number;
+}
+
+export type ClockOvertime = 'forfeit' | 'director';
+
+export interface ClockSettings {
+  reserve_minutes: number; // Each player's time bank for the whole match
+  delay_seconds: number; // Free time each move before the reserve runs down
+  overtime: ClockOvertime; // forfeit: running out loses the match; director: the director rules
+}
+
+export type MatchForfeit = 'time';
+
+export type GameResult = 'single' | 'gammon' | 'backgammon';
+
+// One game of a match's scoresheet
+export interface MatchGame {
+  game_number: number;
+  winner_id: string;
+  cube_value: number; // 1 when the cube was never turned
+  result: GameResult;
+  points: number; // cube_value times 1, 2 or 3 for the result
+  crawford: boolean;
+}
+
 export interface Division {
   id: string;
   tournament_id: string;
   name: string;
   match_length: number; // Points to win (9, 7, or 5)
   clock_required: boolean;
-  clock_settings: Record<string, unknown> | null;
+  clock_settings: ClockSettings | null; // Null uses defaultClockSettings(match_length)
+  last_chance_settings: LastChanceSettings | null;
+  score_rules: ScoreRules | null; // Null uses DEFAULT_SCORE_RULES
+  call_priority: number | null; // Lower is called to a table first; null after every numbered division
   created_at: string;
 }
 
@@ -45,6 +150,7 @@ export interface TournamentEntry {
   division_id: string;
   entry_fee_paid: boolean;
   checked_in: boolean;
+  seed: number | null; // Manual seed, overrides rating order
   created_at: string;
   // Joined relations
   player?: Player;
@@ -74,6 +180,9 @@ export interface Match {
   status: MatchStatus;
   started_at: string | null;
   completed_at: string | null;
+  called_at: string | null; // When the players were texted that the match is ready
+  games: MatchGame[] | null; // Optional game-by-game scoresheet
+  forfeit: MatchForfeit | null; // Set when the match was lost on time rather than played out
   created_at: string;
   // Joined relations
   player1?: Player;
@@ -91,12 +200,88 @@ export interface ScoreReport {
   parsed_player1_score: number | null;
   parsed_player2_score: number | null;
   confidence_score: number | null;
+  orientation: ScoreOrientation | null;
+  parse_reasons: string[] | null; // Why the parser read the text the way it did
   status: ScoreReportStatus;
+  // Two-party confirmation: the opponent is asked to reply YES/NO
+  confirmation_player_id: string | null;
+  confirmation_requested_at: string | null;
+  confirmation_text: string | null; // The opponent's reply, attached to disputes
+  dispute_reason: DisputeReason | null;
   approved_by: string | null;
   approved_at: string | null;
   created_at: string;
 }
 
+// What a multi-step SMS exchange is waiting for; each has a flow in lib/sms-flows
+export type SmsIntent = 'choose_match';
+
+// One phone's conversation in progress within a tournament
+export interface SmsSession {
+  id: string;
+  phone: string;
+  tournament_id: string;
+  player_id: string;
+  intent: SmsIntent;
+  payload: Record<string, unknown>; // Whatever the flow needs to pick up where it left off
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Every text sent to a player: the queue for outbound texts and a record of webhook replies
+export interface SmsMessage {
+  id: string;
+  tournament_id: string | null;
+  player_id: string | null;
+  to_phone: string;
+  body: string;
+  kind: SmsMessageKind;
+  template: string | null; // Template key the body was rendered from, if any
+  status: SmsMessageStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  twilio_sid: string | null;
+  sent_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TournamentStaff {
+  id: string;
+  tournament_id: string;
+  email: string; // Matched against the signed-in user's email
+  role: StaffRole;
+  created_at: string;
+}
+
+export interface MatchCorrection {
+  id: string;
+  match_id: string;
+  previous_winner_id: string | null;
+  previous_player1_score: number;
+  previous_player2_score: number;
+  new_winner_id: string;
+  new_player1_score: number;
+  new_player2_score: number;
+  reason: string | null;
+  affected_match_ids: string[]; // Downstream matches repaired or removed
+  created_at: string;
+}
+
+export interface AuditEvent {
+  id: string;
+  tournament_id: string;
+  action: AuditAction;
+  actor: string; // 'user:' plus the director's email, 'system', or 'sms:' plus the sender's phone
+  match_id: string | null;
+  player_id: string | null;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
 // Extended types with relations
 export interface DivisionWithEntries extends Division {
   tournament_entries: TournamentEntry[];
@@ -150,6 +335,37 @@ export interface Database {
         Insert: Partial<ScoreReport> & { match_id: string; reported_by_phone: string; raw_text: string };
         Update: Partial<ScoreReport>;
       };
+      sms_sessions: {
+        Row: SmsSession;
+        Insert: Partial<SmsSession> & {
+          phone: string;
+          tournament_id: string;
+          player_id: string;
+          intent: SmsIntent;
+          expires_at: string;
+        };
+        Update: Partial<SmsSession>;
+      };
+      sms_messages: {
+        Row: SmsMessage;
+        Insert: Partial<SmsMessage> & { to_phone: string; body: string };
+        Update: Partial<SmsMessage>;
+      };
+      tournament_staff: {
+        Row: TournamentStaff;
+        Insert: Partial<TournamentStaff> & { tournament_id: string; email: string; role: StaffRole };
+        Update: Partial<TournamentStaff>;
+      };
+      audit_events: {
+        Row: AuditEvent;
+        Insert: Partial<AuditEvent> & { tournament_id: string; action: AuditAction; actor: string };
+        Update: Partial<AuditEvent>;
+      };
+      match_corrections: {
+        Row: MatchCorrection;
+        Insert: Partial<MatchCorrection> & { match_id: string; new_winner_id: string };
+        Update: Partial<MatchCorrection>;
+      };
     };
   };
 }
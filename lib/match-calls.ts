@@ -0,0 +1,107 @@
+import { supabaseAdmin } from './supabase-admin';
+import { isPending, queueSMS } from './sms-queue';
+import { recordAuditEvents, type AuditEventInput } from './audit';
+import { roundLabel } from './sms-commands';
+import { createMessenger } from './sms-templates';
+import type { BracketType, Match, Player, Tournament } from './database.types';
+
+interface CallableMatch extends Omit<Match, 'player1' | 'player2'> {
+  player1: Player | null;
+  player2: Player | null;
+  bracket: {
+    bracket_type: BracketType;
+    division: {
+      name: string;
+      tournament_id: string;
+      tournament: Pick<Tournament, 'director_phone' | 'sms_templates'>;
+    };
+  };
+}
+
+/**
+ * Text both players that their match is ready to play. Only matches with
+ * both players and a table that haven't been called yet are sent, so this
+ * is safe to call for every match a round or result creates; a match
+ * waiting for a free table is called once it gets one. Players who opted
+ * out or have no phone are skipped.
+ */
+export async function callMatches(matchIds: string[]): Promise<number> {
+  if (matchIds.length === 0) return 0;
+
+  const { data, error } = await supabaseAdmin
+    .from('matches')
+    .select(`
+      *,
+      player1:players!matches_player1_id_fkey (*),
+      player2:players!matches_player2_id_fkey (*),
+      bracket:brackets!inner (
+        bracket_type,
+        division:divisions!inner (
+          name, tournament_id,
+          tournament:tournaments!inner (director_phone, sms_templates)
+        )
+      )
+    `)
+    .in('id', matchIds)
+    .eq('status', 'pending')
+    .is('called_at', null)
+    .not('player1_id', 'is', null)
+    .not('player2_id', 'is', null)
+    .not('table_number', 'is', null);
+
+  if (error) throw error;
+  if (!data || data.length === 0) return 0;
+
+  // Claim the matches first so a concurrent result can't call them twice
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('matches')
+    .update({ called_at: new Date().toISOString() })
+    .in('id', data.map(m => m.id))
+    .is('called_at', null)
+    .select('id');
+
+  if (claimError) throw claimError;
+
+  const claimedIds = new Set((claimed || []).map(m => m.id));
+  const matches = (data as CallableMatch[]).filter(m => claimedIds.has(m.id));
+
+  const auditEvents: AuditEventInput[] = [];
+  for (const match of matches) {
+    const { division } = match.bracket;
+    const texted: string[] = [];
+
+    for (const [player, opponent] of [
+      [match.player1, match.player2],
+      [match.player2, match.player1],
+    ]) {
+      if (!player?.phone || player.sms_opt_out) continue;
+
+      const say = createMessenger(player.language, division.tournament);
+      const queued = await queueSMS({
+        to: player.phone,
+        body: say('match_call', {
+          player: player.name,
+          opponent: opponent?.name || say('to_be_decided'),
+          division: division.name,
+          round: roundLabel(match),
+          table: match.table_number ?? say('to_be_decided'),
+        }),
+        tournamentId: division.tournament_id,
+        playerId: player.id,
+        template: 'match_call',
+      });
+      if (isPending(queued)) texted.push(player.id);
+    }
+
+    auditEvents.push({
+      tournamentId: division.tournament_id,
+      action: 'match.called',
+      actor: 'system',
+      matchId: match.id,
+      details: { table_number: match.table_number, texted },
+    });
+  }
+  await recordAuditEvents(auditEvents);
+
+  return matches.length;
+}
@@ -0,0 +1,124 @@
+import type { ClockOvertime, ClockSettings, Division } from './database.types';
+
+export const CLOCK_OVERTIME: Record<ClockOvertime, string> = {
+  forfeit: 'Running out of time loses the match',
+  director: 'Running out of time is ruled on by the director',
+};
+
+/**
+ * Standard match clock: two minutes per point of match length, 12 second
+ * delay, and running out loses the match
+ */
+export function defaultClockSettings(matchLength: number): ClockSettings {
+  return { reserve_minutes: matchLength * 2, delay_seconds: 12, overtime: 'forfeit' };
+}
+
+export function getClockSettings(division: Pick<Division, 'match_length' | 'clock_settings'>): ClockSettings {
+  return division.clock_settings ?? defaultClockSettings(division.match_length);
+}
+
+export function describeClockSettings(settings: ClockSettings): string {
+  return `${settings.reserve_minutes} min + ${settings.delay_seconds}s delay`;
+}
+
+// 0 is the match's player 1, 1 its player 2
+export type ClockSide = 0 | 1;
+
+export interface ClockState {
+  reserveMs: [number, number];
+  toMove: ClockSide | null; // Null until the first move
+  turnStartedAt: number | null; // Null while paused
+  flagged: ClockSide | null; // The player whose reserve ran out
+}
+
+export function newClock(settings: ClockSettings): ClockState {
+  const reserve = settings.reserve_minutes * 60 * 1000;
+  return { reserveMs: [reserve, reserve], toMove: null, turnStartedAt: null, flagged: null };
+}
+
+/**
+ * Delay and reserve left for one side at a moment in time
+ */
+export function timeLeft(
+  state: ClockState,
+  settings: ClockSettings,
+  side: ClockSide,
+  now: number
+): { delayMs: number; reserveMs: number } {
+  const delay = settings.delay_seconds * 1000;
+  if (state.toMove !== side || state.turnStartedAt === null) {
+    return { delayMs: delay, reserveMs: state.reserveMs[side] };
+  }
+
+  const elapsed = now - state.turnStartedAt;
+  return {
+    delayMs: Math.max(0, delay - elapsed),
+    reserveMs: Math.max(0, state.reserveMs[side] - Math.max(0, elapsed - delay)),
+  };
+}
+
+/**
+ * Charge the player on move for the time used so far, flagging them if
+ * their reserve is gone
+ */
+function settle(state: ClockState, settings: ClockSettings, now: number): ClockState {
+  if (state.toMove === null || state.turnStartedAt === null) return state;
+
+  const side = state.toMove;
+  const { reserveMs } = timeLeft(state, settings, side, now);
+  const reserves: [number, number] = [...state.reserveMs];
+  reserves[side] = reserveMs;
+
+  return {
+    ...state,
+    reserveMs: reserves,
+    turnStartedAt: reserveMs === 0 ? null : now,
+    flagged: reserveMs === 0 ? side : state.flagged,
+  };
+}
+
+/**
+ * A player finished their move: their clock stops and the opponent's starts
+ */
+export function pressClock(
+  state: ClockState,
+  settings: ClockSettings,
+  side: ClockSide,
+  now: number
+): ClockState {
+  if (state.flagged !== null) return state;
+  // Only the player on move (or either player before the first move) can press
+  if (state.toMove !== null && state.toMove !== side) return state;
+
+  const settled = settle(state, settings, now);
+  if (settled.flagged !== null) return settled;
+
+  return { ...settled, toMove: side === 0 ? 1 : 0, turnStartedAt: now };
+}
+
+export function pauseClock(state: ClockState, settings: ClockSettings, now: number): ClockState {
+  const settled = settle(state, settings, now);
+  return { ...settled, turnStartedAt: null };
+}
+
+export function resumeClock(state: ClockState, now: number): ClockState {
+  if (state.toMove === null || state.flagged !== null) return state;
+  return { ...state, turnStartedAt: now };
+}
+
+/**
+ * Flag the player on move once their reserve reaches zero
+ */
+export function checkFlag(state: ClockState, settings: ClockSettings, now: number): ClockState {
+  if (state.toMove === null || state.turnStartedAt === null) return state;
+  return timeLeft(state, settings, state.toMove, now).reserveMs === 0
+    ? settle(state, settings, now)
+    : state;
+}
+
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,42 @@
+import { supabaseAdmin } from './supabase-admin';
+import { recordAuditEvent, type AuditActor } from './audit';
+import type { Match } from './database.types';
+
+// Who started the match: the director's dashboard, a player's START text,
+// or the table tablet's clock
+export type MatchStartSource = 'director' | 'sms' | 'table';
+
+/**
+ * Mark a ready match as being played. Returns the started match, or null
+ * if it was not waiting to start (already started, finished, or missing a
+ * player).
+ */
+export async function startMatch(
+  matchId: string,
+  actor: AuditActor,
+  via: MatchStartSource
+): Promise<Match | null> {
+  const { data: started, error } = await supabaseAdmin
+    .from('matches')
+    .update({ status: 'in_progress', started_at: new Date().toISOString() })
+    .eq('id', matchId)
+    .eq('status', 'pending')
+    .not('player1_id', 'is', null)
+    .not('player2_id', 'is', null)
+    .select('*, bracket:brackets!inner (division:divisions!inner (tournament_id))')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!started) return null;
+
+  const bracket = started.bracket as unknown as { division: { tournament_id: string } };
+  await recordAuditEvent({
+    tournamentId: bracket.division.tournament_id,
+    action: 'match.started',
+    actor,
+    matchId,
+    details: { table_number: started.table_number, via },
+  });
+
+  return started;
+}
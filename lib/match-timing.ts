@@ -0,0 +1,40 @@
+import type { Match, Tournament } from './database.types';
+
+// A match is flagged overdue once it runs past this pace, e.g. 90 minutes
+// for a 9-point match
+export const DEFAULT_MINUTES_PER_POINT = 10;
+
+export function getMinutesPerPoint(tournament: Pick<Tournament, 'match_minutes_per_point'> | null): number {
+  return tournament?.match_minutes_per_point ?? DEFAULT_MINUTES_PER_POINT;
+}
+
+export function expectedMinutes(matchLength: number, minutesPerPoint: number): number {
+  return matchLength * minutesPerPoint;
+}
+
+/**
+ * Minutes since the match started, or null if it hasn't
+ */
+export function elapsedMinutes(match: Pick<Match, 'started_at'>, now: number): number | null {
+  if (!match.started_at) return null;
+  return Math.max(0, Math.floor((now - new Date(match.started_at).getTime()) / 60000));
+}
+
+export function isOverdue(
+  match: Pick<Match, 'status' | 'started_at'>,
+  matchLength: number,
+  minutesPerPoint: number,
+  now: number
+): boolean {
+  if (match.status !== 'in_progress') return false;
+  const elapsed = elapsedMinutes(match, now);
+  return elapsed !== null && elapsed > expectedMinutes(matchLength, minutesPerPoint);
+}
+
+/**
+ * "45m", "1h 05m"
+ */
+export function formatElapsed(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${(minutes % 60).toString().padStart(2, '0')}m`;
+}
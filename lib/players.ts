@@ -0,0 +1,64 @@
+import { supabaseAdmin } from './supabase-admin';
+import { SMS_LANGUAGES } from './sms-templates';
+import { isValidEmail } from './utils';
+import type { Player, SmsLanguage } from './database.types';
+
+export interface PlayerInput {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  rating?: number | null;
+  smsOptOut?: boolean;
+  language?: SmsLanguage;
+}
+
+/**
+ * Returns an error message for player details that can't be saved, or null
+ */
+export function validatePlayer(input: PlayerInput): string | null {
+  if (typeof input.name !== 'string' || !input.name.trim()) return 'Name is required';
+  if (input.email && !isValidEmail(input.email.trim())) return 'Please enter a valid email';
+  if (input.rating != null && !Number.isInteger(input.rating)) return 'Rating must be a whole number';
+  if (input.language !== undefined && !Object.hasOwn(SMS_LANGUAGES, input.language)) {
+    return 'Unknown language';
+  }
+  return null;
+}
+
+/**
+ * The columns to save for validated player details. Fields left out of the
+ * input are left out of the row, so an update keeps their current values.
+ */
+export function toPlayerRow(input: PlayerInput): Partial<Player> {
+  return {
+    name: input.name.trim(),
+    ...(input.email !== undefined ? { email: input.email?.trim() || null } : {}),
+    ...(input.phone !== undefined ? { phone: input.phone?.trim() || null } : {}),
+    ...(input.rating !== undefined ? { rating: input.rating } : {}),
+    ...(input.smsOptOut !== undefined ? { sms_opt_out: input.smsOptOut === true } : {}),
+    ...(input.language !== undefined ? { language: input.language } : {}),
+  };
+}
+
+/**
+ * Whether another player already has this phone in any of the forms the
+ * SMS webhook looks players up by. Two players sharing a phone would leave
+ * the webhook unable to tell who is texting.
+ */
+export async function isPhoneTaken(phone: string, exceptPlayerId?: string): Promise<boolean> {
+  const digits = phone.replace(/\D/g, '');
+  const variants = [...new Set([phone, `+${digits}`, digits, `+1${digits}`])];
+
+  let query = supabaseAdmin
+    .from('players')
+    .select('id')
+    // Quoted, since typed numbers may hold brackets or spaces
+    .or(variants.map(p => `phone.eq."${p.replace(/"/g, '')}"`).join(','));
+  if (exceptPlayerId) {
+    query = query.neq('id', exceptPlayerId);
+  }
+
+  const { data, error } = await query.limit(1);
+  if (error) throw error;
+  return !!data && data.length > 0;
+}
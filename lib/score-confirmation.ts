@@ -0,0 +1,463 @@
+import { supabaseAdmin } from './supabase-admin';
+import { isPending, queueSMS } from './sms-queue';
+import { recordAuditEvent, recordAuditEvents, type AuditActor } from './audit';
+import { advanceAfterMatch } from './advancement';
+import { loadMessenger } from './sms-templates';
+import type { DisputeReason, Division, MatchStatus, Player, ScoreReport } from './database.types';
+
+// How long the opponent has to reply before the report goes to the director
+export const CONFIRMATION_TIMEOUT_MINUTES = 15;
+
+export interface ReportMatch {
+  id: string;
+  status: MatchStatus;
+  player1_id: string | null;
+  player2_id: string | null;
+  player1: Player | null;
+  player2: Player | null;
+  bracket: { division: Pick<Division, 'tournament_id' | 'match_length' | 'score_rules'> };
+}
+
+export interface ReportWithMatch extends ScoreReport {
+  match: ReportMatch;
+}
+
+const REPORT_WITH_MATCH = `
+  *,
+  match:matches!inner (
+    id, player1_id, player2_id, status,
+    player1:players!matches_player1_id_fkey (*),
+    player2:players!matches_player2_id_fkey (*),
+    bracket:brackets!inner (division:divisions!inner (tournament_id, match_length, score_rules))
+  )
+`;
+
+/**
+ * Read a YES/NO reply to a confirmation request
+ */
+export function parseConfirmationReply(text: string): 'yes' | 'no' | null {
+  const word = text.trim().toLowerCase().split(/[\s.!,]+/)[0];
+  if (['yes', 'y', 'yep', 'yeah', 'confirm', 'correct', 'si', 'sí'].includes(word)) return 'yes';
+  if (['no', 'n', 'nope', 'wrong', 'dispute'].includes(word)) return 'no';
+  return null;
+}
+
+export function formatReportScore(report: Pick<ScoreReport, 'parsed_player1_score' | 'parsed_player2_score'>, match: ReportMatch): string {
+  return `${match.player1?.name || 'Player 1'} ${report.parsed_player1_score} - ${match.player2?.name || 'Player 2'} ${report.parsed_player2_score}`;
+}
+
+function reporterOf(report: ScoreReport, match: ReportMatch): Player | null {
+  return [match.player1, match.player2].find(p => p?.id === report.reported_by_player_id) ?? null;
+}
+
+/**
+ * Ask the reporter's opponent to confirm a score. Returns false when the
+ * opponent can't be texted, leaving the report for the director.
+ */
+export async function requestConfirmation(report: ScoreReport, match: ReportMatch): Promise<boolean> {
+  const opponent =
+    report.reported_by_player_id === match.player1_id ? match.player2 : match.player1;
+  if (!opponent?.phone) return false;
+
+  const reporter = opponent.id === match.player1_id ? match.player2 : match.player1;
+  const winner = report.parsed_winner_id === match.player1_id ? match.player1 : match.player2;
+
+  const tournamentId = match.bracket.division.tournament_id;
+  const say = await loadMessenger(opponent.language, tournamentId);
+  const queued = await queueSMS({
+    to: opponent.phone,
+    body: say('confirmation_request', {
+      reporter: reporter?.name || '',
+      score: formatReportScore(report, match),
+      winner: winner?.name || '',
+      minutes: CONFIRMATION_TIMEOUT_MINUTES,
+    }),
+    tournamentId,
+    playerId: opponent.id,
+    template: 'confirmation_request',
+  });
+  if (!isPending(queued)) return false;
+
+  const { error } = await supabaseAdmin
+    .from('score_reports')
+    .update({
+      status: 'awaiting_confirmation',
+      confirmation_player_id: opponent.id,
+      confirmation_requested_at: new Date().toISOString(),
+    })
+    .eq('id', report.id);
+
+  if (error) {
+    console.error('Failed to mark report awaiting confirmation:', error);
+    return false;
+  }
+
+  await recordAuditEvent({
+    tournamentId: match.bracket.division.tournament_id,
+    action: 'score_report.confirmation_requested',
+    actor: 'system',
+    matchId: match.id,
+    playerId: opponent.id,
+    details: { report_id: report.id, raw_text: report.raw_text },
+  });
+
+  return true;
+}
+
+/**
+ * The report a player has been asked to confirm, if any
+ */
+export async function findAwaitingConfirmation(playerId: string): Promise<ReportWithMatch | null> {
+  const { data } = await supabaseAdmin
+    .from('score_reports')
+    .select(REPORT_WITH_MATCH)
+    .eq('status', 'awaiting_confirmation')
+    .eq('confirmation_player_id', playerId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as ReportWithMatch | null) ?? null;
+}
+
+/**
+ * Both players agree: complete the match and advance the bracket. Returns
+ * false when the reply came too late: the report was withdrawn or handled,
+ * or the director already recorded a result.
+ */
+export async function confirmReport(
+  report: ReportWithMatch,
+  replyText: string,
+  actor: AuditActor
+): Promise<boolean> {
+  const { match } = report;
+
+  // Claim the report first so an UNDO or the director can't settle it too
+  const { data: claimed, error: reportError } = await supabaseAdmin
+    .from('score_reports')
+    .update({
+      status: 'approved',
+      confirmation_text: replyText,
+      approved_at: new Date().toISOString(),
+    })
+    .eq('id', report.id)
+    .eq('status', 'awaiting_confirmation')
+    .select('id');
+
+  if (reportError) throw reportError;
+  if (!claimed || claimed.length === 0) return false;
+
+  const { data: completed, error: matchError } = await supabaseAdmin
+    .from('matches')
+    .update({
+      winner_id: report.parsed_winner_id,
+      player1_score: report.parsed_player1_score,
+      player2_score: report.parsed_player2_score,
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', match.id)
+    .neq('status', 'completed')
+    .select('id');
+
+  if (matchError) throw matchError;
+  if (!completed || completed.length === 0) {
+    // The director's result stands; this report no longer applies
+    await supabaseAdmin.from('score_reports').update({ status: 'rejected' }).eq('id', report.id);
+    return false;
+  }
+
+  await recordAuditEvent({
+    tournamentId: match.bracket.division.tournament_id,
+    action: 'score_report.confirmed',
+    actor,
+    matchId: match.id,
+    playerId: report.confirmation_player_id,
+    details: {
+      report_id: report.id,
+      raw_text: report.raw_text,
+      confirmation_text: replyText,
+      player1_score: report.parsed_player1_score,
+      player2_score: report.parsed_player2_score,
+      winner_id: report.parsed_winner_id,
+    },
+  });
+
+  // Create the matches this result unlocks
+  try {
+    await advanceAfterMatch(match.id);
+  } catch (advanceError) {
+    console.error('Failed to advance bracket:', advanceError);
+  }
+
+  const reporter = reporterOf(report, match);
+  const say = await loadMessenger(reporter?.language, match.bracket.division.tournament_id);
+  await queueSMS({
+    to: report.reported_by_phone,
+    body: say('confirmation_received', { score: formatReportScore(report, match) }),
+    tournamentId: match.bracket.division.tournament_id,
+    playerId: reporter?.id,
+    template: 'confirmation_received',
+  });
+
+  return true;
+}
+
+/**
+ * The players disagree (or the opponent never replied): hand the report to
+ * the director with both texts attached. Returns false when the reply came
+ * too late, as for confirmReport.
+ */
+export async function disputeReport(
+  report: ReportWithMatch,
+  reason: DisputeReason,
+  replyText: string | null,
+  actor: AuditActor
+): Promise<boolean> {
+  const { data: disputed, error } = await supabaseAdmin
+    .from('score_reports')
+    .update({ status: 'disputed', dispute_reason: reason, confirmation_text: replyText })
+    .eq('id', report.id)
+    .eq('status', 'awaiting_confirmation')
+    .select('id');
+
+  if (error) throw error;
+  if (!disputed || disputed.length === 0) return false;
+
+  await recordAuditEvent({
+    tournamentId: report.match.bracket.division.tournament_id,
+    action: 'score_report.disputed',
+    actor,
+    matchId: report.match.id,
+    playerId: report.confirmation_player_id,
+    details: {
+      report_id: report.id,
+      raw_text: report.raw_text,
+      confirmation_text: replyText,
+      reason,
+    },
+  });
+
+  if (reason === 'opponent_rejected') {
+    const reporter = reporterOf(report, report.match);
+    const tournamentId = report.match.bracket.division.tournament_id;
+    const say = await loadMessenger(reporter?.language, tournamentId);
+    await queueSMS({
+      to: report.reported_by_phone,
+      body: say('dispute_received'),
+      tournamentId,
+      playerId: reporter?.id,
+      template: 'dispute_received',
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Load a report with its match, or null if it isn't one of the
+ * tournament's
+ */
+export async function getReport(tournamentId: string, reportId: string): Promise<ReportWithMatch | null> {
+  const { data } = await supabaseAdmin
+    .from('score_reports')
+    .select(REPORT_WITH_MATCH)
+    .eq('id', reportId)
+    .eq('match.bracket.division.tournament_id', tournamentId)
+    .maybeSingle();
+
+  return (data as ReportWithMatch | null) ?? null;
+}
+
+// Reports still waiting on a decision from the players or the director
+const OPEN_REPORT_STATUSES = ['pending', 'awaiting_confirmation', 'disputed'];
+
+/**
+ * A director accepts a report, possibly with corrected scores: complete the
+ * match, advance the bracket and let the reporter know. Returns false when
+ * the match or report was settled in the meantime.
+ */
+export async function approveReport(
+  report: ReportWithMatch,
+  player1Score: number,
+  player2Score: number,
+  approvedBy: string,
+  actor: AuditActor
+): Promise<boolean> {
+  const { match } = report;
+  const tournamentId = match.bracket.division.tournament_id;
+  const winnerId = player1Score > player2Score ? match.player1_id : match.player2_id;
+
+  const { data: completed, error: matchError } = await supabaseAdmin
+    .from('matches')
+    .update({
+      winner_id: winnerId,
+      player1_score: player1Score,
+      player2_score: player2Score,
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', match.id)
+    .in('status', ['pending', 'in_progress'])
+    .select('id');
+
+  if (matchError) throw matchError;
+  if (!completed || completed.length === 0) return false;
+
+  const { error: reportError } = await supabaseAdmin
+    .from('score_reports')
+    .update({
+      status: 'approved',
+      approved_at: new Date().toISOString(),
+      approved_by: approvedBy,
+    })
+    .eq('id', report.id)
+    .in('status', OPEN_REPORT_STATUSES);
+
+  if (reportError) throw reportError;
+
+  await recordAuditEvent({
+    tournamentId,
+    action: 'score_report.approved',
+    actor,
+    matchId: match.id,
+    playerId: report.reported_by_player_id,
+    details: {
+      report_id: report.id,
+      raw_text: report.raw_text,
+      player1_score: player1Score,
+      player2_score: player2Score,
+      winner_id: winnerId,
+      edited:
+        player1Score !== report.parsed_player1_score ||
+        player2Score !== report.parsed_player2_score,
+    },
+  });
+
+  // Create the matches this result unlocks
+  try {
+    await advanceAfterMatch(match.id);
+  } catch (advanceError) {
+    console.error('Failed to advance bracket:', advanceError);
+  }
+
+  const reporter = reporterOf(report, match);
+  const say = await loadMessenger(reporter?.language, tournamentId);
+  await queueSMS({
+    to: report.reported_by_phone,
+    body: say('report_approved', {
+      score: formatReportScore(
+        { parsed_player1_score: player1Score, parsed_player2_score: player2Score },
+        match
+      ),
+    }),
+    tournamentId,
+    playerId: reporter?.id,
+    template: 'report_approved',
+  });
+
+  return true;
+}
+
+/**
+ * A director turns a report down and tells the reporter why. Returns false
+ * when the report was settled in the meantime.
+ */
+export async function rejectReport(
+  report: ReportWithMatch,
+  reason: string | null,
+  actor: AuditActor
+): Promise<boolean> {
+  const { match } = report;
+  const tournamentId = match.bracket.division.tournament_id;
+
+  const { data: rejected, error } = await supabaseAdmin
+    .from('score_reports')
+    .update({ status: 'rejected' })
+    .eq('id', report.id)
+    .in('status', OPEN_REPORT_STATUSES)
+    .select('id');
+
+  if (error) throw error;
+  if (!rejected || rejected.length === 0) return false;
+
+  await recordAuditEvent({
+    tournamentId,
+    action: 'score_report.rejected',
+    actor,
+    matchId: match.id,
+    playerId: report.reported_by_player_id,
+    details: { report_id: report.id, raw_text: report.raw_text, reason },
+  });
+
+  const reporter = reporterOf(report, match);
+  const say = await loadMessenger(reporter?.language, tournamentId);
+  const template = reason ? 'report_rejected_with_reason' : 'report_rejected';
+  await queueSMS({
+    to: report.reported_by_phone,
+    body: say(template, { reason: reason ?? '' }),
+    tournamentId,
+    playerId: reporter?.id,
+    template,
+  });
+
+  return true;
+}
+
+/**
+ * Send reports whose opponent never replied to the director. There is no
+ * scheduler, so this runs whenever the webhook or the report queue is hit.
+ */
+export async function expireConfirmations(tournamentId?: string): Promise<number> {
+  const cutoff = new Date(Date.now() - CONFIRMATION_TIMEOUT_MINUTES * 60 * 1000).toISOString();
+
+  let query = supabaseAdmin
+    .from('score_reports')
+    .select(REPORT_WITH_MATCH)
+    .eq('status', 'awaiting_confirmation')
+    .lt('confirmation_requested_at', cutoff);
+  if (tournamentId) {
+    query = query.eq('match.bracket.division.tournament_id', tournamentId);
+  }
+
+  const { data: stale, error: staleError } = await query;
+  if (staleError) {
+    console.error('Failed to load stale confirmations:', staleError);
+    return 0;
+  }
+  if (!stale || stale.length === 0) return 0;
+
+  // Only expire reports nobody answered in the meantime
+  const { data: updated, error } = await supabaseAdmin
+    .from('score_reports')
+    .update({ status: 'disputed', dispute_reason: 'no_response' })
+    .in('id', stale.map(r => r.id))
+    .eq('status', 'awaiting_confirmation')
+    .select('id');
+
+  if (error) {
+    console.error('Failed to expire confirmations:', error);
+    return 0;
+  }
+
+  const updatedIds = new Set((updated || []).map(r => r.id));
+  const expired = (stale as ReportWithMatch[]).filter(r => updatedIds.has(r.id));
+
+  await recordAuditEvents(
+    expired.map(report => ({
+      tournamentId: report.match.bracket.division.tournament_id,
+      action: 'score_report.disputed' as const,
+      actor: 'system' as const,
+      matchId: report.match.id,
+      playerId: report.confirmation_player_id,
+      details: {
+        report_id: report.id,
+        raw_text: report.raw_text,
+        confirmation_text: null,
+        reason: 'no_response',
+      },
+    }))
+  );
+
+  return expired.length;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseScoreText, resolveScore } from './score-parser';
+
+const players = {
+  player1: { id: 'p1', name: 'John Smith' },
+  player2: { id: 'p2', name: 'Sarah Jones' },
+};
+
+describe('parseScoreText', () => {
+  it('reads a score pair with a separator', () => {
+    expect(parseScoreText('9-4')).toMatchObject({ player1Score: 9, player2Score: 4 });
+    expect(parseScoreText('9 to 4')).toMatchObject({ player1Score: 9, player2Score: 4 });
+    expect(parseScoreText('9/4')).toMatchObject({ player1Score: 9, player2Score: 4 });
+  });
+
+  it('prefers a separated pair over numbers next to other words', () => {
+    const parsed = parseScoreText('Table 3: 9-4');
+    expect(parsed).toMatchObject({ player1Score: 9, player2Score: 4 });
+    expect(parsed.error).toBeUndefined();
+  });
+
+  it('falls back to scores separated only by a space', () => {
+    expect(parseScoreText('John 9 4')).toMatchObject({
+      player1Name: 'John',
+      player1Score: 9,
+      player2Score: 4,
+    });
+  });
+
+  it('reads a name before each score', () => {
+    expect(parseScoreText('John 9 Sarah 4')).toMatchObject({
+      player1Name: 'John',
+      player2Name: 'Sarah',
+      player1Score: 9,
+      player2Score: 4,
+    });
+  });
+});
+
+describe('resolveScore', () => {
+  it('gives "Table 3: 9-4" to the sender as the winner', () => {
+    const resolved = resolveScore(parseScoreText('Table 3: 9-4'), players, 'p2');
+    expect(resolved).toMatchObject({ player1Score: 4, player2Score: 9, winnerId: 'p2' });
+  });
+
+  it('orients the scores by the names written', () => {
+    const resolved = resolveScore(parseScoreText('Sarah beat John 9-4'), players);
+    expect(resolved).toMatchObject({
+      player1Score: 4,
+      player2Score: 9,
+      winnerId: 'p2',
+      orientation: 'names',
+    });
+  });
+});
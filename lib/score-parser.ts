@@ -1,106 +1,441 @@
 /**
- * Score parser stub for Phase 2 SMS integration
- * This module will parse SMS text messages containing match scores
+ * Score parser for SMS score reports
+ *
+ * Parsing happens in two steps. parseScoreText() reads the text on its own:
+ * the two scores, any names written next to them, and whether the sender
+ * talked about themselves ("I won", "lost 3-7", "Sarah beat me"). Then
+ * resolveScore() matches those names against the two players in the match,
+ * tolerating typos, nicknames and accents, and decides which player each
+ * score belongs to. Both steps explain themselves through `reasons`.
  */
 
+import type { ScoreOrientation, ScoreRules } from './database.types';
+
 export interface ParsedScore {
+  // Scores in slot order; a winner/loser verb puts the winner in slot 1
   player1Name?: string;
   player2Name?: string;
   player1Score?: number;
   player2Score?: number;
   winnerName?: string;
-  confidence: 'high' | 'medium' | 'low';
+  senderSlot?: 1 | 2; // The sender wrote "I"/"me", or "won"/"lost" without a subject
+  confidence: number; // 0-100
+  reasons: string[];
   error?: string;
 }
 
+export interface MatchPlayer {
+  id: string;
+  name: string;
+}
+
+export interface MatchPlayers {
+  player1: MatchPlayer | null;
+  player2: MatchPlayer | null;
+}
+
+export interface ResolvedScore {
+  // Oriented to the match: player1Score belongs to match.player1
+  player1Score?: number;
+  player2Score?: number;
+  winnerId: string | null;
+  orientation: ScoreOrientation | null;
+  confidence: number; // 0-100
+  reasons: string[];
+  error?: string;
+}
+
+const LETTERS = 'A-Za-z\\u00C0-\\u024F';
+const WORD = new RegExp(`[${LETTERS}0-9][${LETTERS}0-9'’.-]*`, 'g');
+
+// Two scores written together: "9-4", "9 – 4", "9/4", "9 to 4"
+const SCORE_PAIR = /(?:^|[^\d])(\d{1,2})\s*(?:-|\/|\bto\b)\s*(\d{1,2})(?!\d)/i;
+
+// Two scores with only a space between them: "9 4". Used only when no pair
+// has a separator, so "Table 3: 9-4" isn't read as 3-9.
+const SPACED_PAIR = /(?:^|[^\d])(\d{1,2})\s+(\d{1,2})(?!\d)/;
+
+const WIN_WORDS = ['beat', 'beats', 'def', 'defeated', 'defeats', 'won', 'win', 'wins', 'over', 'crushed', 'topped'];
+const LOSS_WORDS = ['lost', 'lose', 'loses', 'fell'];
+const SENDER_WORDS = ['i', 'me', 'myself', 'im'];
+const FILLER_WORDS = [
+  'to', 'against', 'vs', 'v', 'versus', 'and', 'the', 'a', 'my', 'match', 'game', 'final',
+  'score', 'scores', 'result', 'was', 'is', 'it', 'just', 'by', 'with', 'in', 'at', 'of',
+  'for', 'points', 'point', 'pts', 'pt', 'opponent', 'table', 'we', 'played', 'ok', 'hi',
+];
+
+// Formal first names for common nicknames
+const NICKNAMES: Record<string, string[]> = {
+  al: ['albert', 'alan', 'allen', 'alfred'],
+  alex: ['alexander', 'alexandra', 'alexis'],
+  andy: ['andrew'],
+  ben: ['benjamin'],
+  bill: ['william'],
+  billy: ['william'],
+  bob: ['robert'],
+  bobby: ['robert'],
+  chris: ['christopher', 'christine', 'christina'],
+  dan: ['daniel'],
+  danny: ['daniel'],
+  dave: ['david'],
+  ed: ['edward', 'edwin'],
+  jim: ['james'],
+  jimmy: ['james'],
+  joe: ['joseph'],
+  jon: ['jonathan'],
+  kate: ['katherine', 'catherine', 'kathryn'],
+  katie: ['katherine', 'catherine', 'kathryn'],
+  liz: ['elizabeth'],
+  beth: ['elizabeth'],
+  matt: ['matthew'],
+  mike: ['michael'],
+  nick: ['nicholas'],
+  pat: ['patrick', 'patricia'],
+  peggy: ['margaret'],
+  rick: ['richard'],
+  dick: ['richard'],
+  rob: ['robert'],
+  sam: ['samuel', 'samantha'],
+  steve: ['steven', 'stephen'],
+  sue: ['susan', 'suzanne'],
+  tom: ['thomas'],
+  tony: ['anthony'],
+};
+
+// Written names must be at least this similar to a player's name to count
+const NAME_MATCH_THRESHOLD = 0.75;
+
+type Word = { text: string; kind: 'name' | 'sender' | 'win' | 'loss' | 'filler' };
+
+function classify(text: string): Word {
+  const lower = text.toLowerCase().replace(/['’.]/g, '');
+  if (SENDER_WORDS.includes(lower)) return { text, kind: 'sender' };
+  if (WIN_WORDS.includes(lower)) return { text, kind: 'win' };
+  if (LOSS_WORDS.includes(lower)) return { text, kind: 'loss' };
+  if (FILLER_WORDS.includes(lower) || /^\d+$/.test(lower)) return { text, kind: 'filler' };
+  return { text, kind: 'name' };
+}
+
+function words(text: string): Word[] {
+  return (text.match(WORD) || []).map(classify);
+}
+
 /**
- * Parse score text from SMS message
- * Phase 1: Stub implementation - returns mock data
- * Phase 2: Will implement actual NLP parsing
+ * Join the name words of a phrase; null when the phrase names nobody,
+ * 'sender' when it is "I" or "me"
  */
-export function parseScoreText(text: string): ParsedScore {
-  // Basic pattern matching for common formats
-  // Examples: "John 9 Sarah 4", "Mike beat Lisa 7-2", "Won 9-5"
-
-  // Try pattern: "Name Score Name Score"
-  const pattern1 = /(\w+)\s+(\d+)\s+(\w+)\s+(\d+)/i;
-  const match1 = text.match(pattern1);
+function subjectOf(phrase: Word[]): string | 'sender' | null {
+  if (phrase.some(w => w.kind === 'sender')) return 'sender';
+  const names = phrase.filter(w => w.kind === 'name').map(w => w.text);
+  return names.length > 0 ? names.join(' ') : null;
+}
 
-  if (match1) {
-    const [, name1, score1, name2, score2] = match1;
-    const s1 = parseInt(score1);
-    const s2 = parseInt(score2);
+/**
+ * Read the scores, names and sender references out of an SMS
+ */
+export function parseScoreText(text: string): ParsedScore {
+  const normalized = text.normalize('NFC').replace(/[–—−]/g, '-').trim();
+  const reasons: string[] = [];
 
+  const numbers: string[] = normalized.match(/\d+/g) || [];
+  if (numbers.length < 2) {
     return {
-      player1Name: name1,
-      player2Name: name2,
-      player1Score: s1,
-      player2Score: s2,
-      winnerName: s1 > s2 ? name1 : name2,
-      confidence: 'high',
+      confidence: 0,
+      reasons: ['Could not find two scores in the text'],
+      error: 'Could not parse score from text',
     };
   }
 
-  // Try pattern: "Name beat/def Name Score-Score"
-  const pattern2 = /(\w+)\s+(?:beat|def|defeated)\s+(\w+)\s+(\d+)-(\d+)/i;
-  const match2 = text.match(pattern2);
+  let confidence = 100;
+  if (numbers.length > 2) {
+    confidence -= 20;
+    reasons.push('More than two numbers in the text; used the first score pair');
+  }
+
+  const pair = normalized.match(SCORE_PAIR) ?? normalized.match(SPACED_PAIR);
+  let score1: number;
+  let score2: number;
+  let slot1: string | 'sender' | null;
+  let slot2: string | 'sender' | null;
+
+  if (pair && pair.index !== undefined) {
+    score1 = parseInt(pair[1]);
+    score2 = parseInt(pair[2]);
+    const start = pair.index + pair[0].indexOf(pair[1]);
+    const before = words(normalized.slice(0, start));
+    const after = words(normalized.slice(pair.index + pair[0].length));
+
+    const phrase = [...before, ...after];
+    const verbIndex = phrase.findIndex(w => w.kind === 'win' || w.kind === 'loss');
 
-  if (match2) {
-    const [, winner, loser, score1, score2] = match2;
+    if (verbIndex >= 0) {
+      // "Mary Ann beat O'Brien 9 to 4", "I won 9-4", "lost to Sarah 3-7"
+      const verb = phrase[verbIndex];
+      const subject = subjectOf(phrase.slice(0, verbIndex)) ?? 'sender';
+      const object = subjectOf(phrase.slice(verbIndex + 1));
+      const [winner, loser] = verb.kind === 'win' ? [subject, object] : [object, subject];
+
+      slot1 = winner;
+      slot2 = loser;
+      [score1, score2] = [Math.max(score1, score2), Math.min(score1, score2)];
+      reasons.push(`"${verb.text}" marks ${winner === 'sender' ? 'the sender' : winner ?? 'the opponent'} as the winner`);
+    } else {
+      // "John 9-4 Sarah", "Sarah 9-4", "9-4"
+      slot1 = subjectOf(before);
+      slot2 = subjectOf(after);
+      if (slot1 === null && slot2 !== null) {
+        // "9-4 John": a lone name after the scores goes with the first one
+        [slot1, slot2] = [slot2, null];
+      }
+    }
+  } else {
+    // "John 9 Sarah 4": each name is written before its own score
+    score1 = parseInt(numbers[0]);
+    score2 = parseInt(numbers[1]);
+    const first = normalized.indexOf(numbers[0]);
+    const second = normalized.indexOf(numbers[1], first + numbers[0].length);
+    slot1 = subjectOf(words(normalized.slice(0, first)));
+    slot2 = subjectOf(words(normalized.slice(first + numbers[0].length, second)));
+    reasons.push('Read as a name before each score');
+  }
+
+  if (score1 === score2) {
     return {
-      player1Name: winner,
-      player2Name: loser,
-      player1Score: parseInt(score1),
-      player2Score: parseInt(score2),
-      winnerName: winner,
-      confidence: 'high',
+      player1Score: score1,
+      player2Score: score2,
+      confidence: 0,
+      reasons: [...reasons, 'Both scores are the same'],
+      error: 'Scores cannot be tied',
     };
   }
 
-  // Try pattern: just scores "9-4" or "9 4"
-  const pattern3 = /(\d+)\s*[-:]\s*(\d+)/;
-  const match3 = text.match(pattern3);
+  const named = [slot1, slot2].filter(s => s !== null && s !== 'sender').length;
+  const senderSlot = slot1 === 'sender' ? 1 : slot2 === 'sender' ? 2 : undefined;
+
+  if (named === 2 || (named === 1 && senderSlot)) {
+    reasons.push('Both scores are attributed');
+  } else if (named === 1 || senderSlot) {
+    confidence -= 10;
+    reasons.push('Only one score is attributed; the other belongs to the opponent');
+  } else {
+    confidence -= 40;
+    reasons.push('No names in the text, so the scores could belong to either player');
+  }
+
+  const name1 = slot1 !== 'sender' ? slot1 ?? undefined : undefined;
+  const name2 = slot2 !== 'sender' ? slot2 ?? undefined : undefined;
 
-  if (match3) {
-    const [, score1, score2] = match3;
+  return {
+    player1Name: name1,
+    player2Name: name2,
+    player1Score: score1,
+    player2Score: score2,
+    winnerName: score1 > score2 ? name1 : name2,
+    senderSlot,
+    confidence,
+    reasons,
+  };
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * How well a written name refers to a player, from 0 to 1. Compares
+ * against the full name and every run of its words ("Mary Ann",
+ * "O'Brien"), so first names, last names, typos and nicknames all count.
+ */
+export function nameSimilarity(written: string, playerName: string): number {
+  const w = normalizeName(written);
+  const full = normalizeName(playerName);
+  if (!w || !full) return 0;
+  if (w === full) return 1;
+
+  const tokens = full.split(' ');
+  let best = 0;
+  for (let start = 0; start < tokens.length; start++) {
+    for (let end = start + 1; end <= tokens.length; end++) {
+      const candidate = tokens.slice(start, end).join(' ');
+      const distance = editDistance(w, candidate);
+      best = Math.max(best, 1 - distance / Math.max(w.length, candidate.length));
+
+      // "Jon" for "Jonathan", "Rob" for "Roberts"
+      if (w.length >= 3 && candidate.startsWith(w)) best = Math.max(best, 0.85);
+    }
+  }
+
+  if (NICKNAMES[w]?.includes(tokens[0])) best = Math.max(best, 0.9);
+
+  return best;
+}
+
+function matchName(
+  written: string,
+  players: MatchPlayer[]
+): { index: number; similarity: number } | null {
+  const scored = players.map((p, index) => ({ index, similarity: nameSimilarity(written, p.name) }));
+  scored.sort((a, b) => b.similarity - a.similarity);
+
+  const [best, runnerUp] = scored;
+  if (!best || best.similarity < NAME_MATCH_THRESHOLD) return null;
+  if (runnerUp && runnerUp.similarity === best.similarity) return null; // Both players fit
+  return best;
+}
+
+/**
+ * Whether any name written in the text refers to the given player
+ */
+export function mentionsPlayer(parsed: ParsedScore, playerName: string): boolean {
+  return [parsed.player1Name, parsed.player2Name].some(
+    name => !!name && nameSimilarity(name, playerName) >= NAME_MATCH_THRESHOLD
+  );
+}
+
+/**
+ * Decide which match player each parsed score belongs to
+ */
+export function resolveScore(
+  parsed: ParsedScore,
+  players: MatchPlayers,
+  senderId?: string | null
+): ResolvedScore {
+  const reasons = [...parsed.reasons];
+  if (parsed.player1Score === undefined || parsed.player2Score === undefined || parsed.error) {
+    return { winnerId: null, orientation: null, confidence: 0, reasons, error: parsed.error };
+  }
+  if (!players.player1 || !players.player2) {
     return {
-      player1Score: parseInt(score1),
-      player2Score: parseInt(score2),
-      confidence: 'medium',
+      winnerId: null,
+      orientation: null,
+      confidence: 0,
+      reasons,
+      error: 'Match does not have two players yet',
     };
   }
 
-  // Could not parse
+  const matchPlayers = [players.player1, players.player2];
+  let confidence = parsed.confidence;
+
+  // Work out which match player (0 or 1) owns the first score
+  const fromName = (name: string | undefined, slot: 1 | 2): number | null => {
+    if (!name) return null;
+    const found = matchName(name, matchPlayers);
+    if (!found) {
+      confidence -= 30;
+      reasons.push(`"${name}" doesn't match either player`);
+      return null;
+    }
+    const player = matchPlayers[found.index];
+    if (found.similarity < 1) {
+      confidence -= Math.round((1 - found.similarity) * 20);
+      reasons.push(`"${name}" read as ${player.name}`);
+    } else {
+      reasons.push(`"${name}" is ${player.name}`);
+    }
+    return slot === 1 ? found.index : 1 - found.index;
+  };
+
+  const byName1 = fromName(parsed.player1Name, 1);
+  const byName2 = fromName(parsed.player2Name, 2);
+  const senderIndex = matchPlayers.findIndex(p => p.id === senderId);
+  const bySender =
+    parsed.senderSlot && senderIndex >= 0
+      ? parsed.senderSlot === 1
+        ? senderIndex
+        : 1 - senderIndex
+      : null;
+
+  const opinions = [byName1, byName2, bySender].filter((o): o is number => o !== null);
+  let firstOwner: number;
+  let orientation: ScoreOrientation;
+
+  if (opinions.length > 0) {
+    firstOwner = opinions[0];
+    orientation = byName1 !== null || byName2 !== null ? 'names' : 'sender';
+    if (opinions.some(o => o !== firstOwner)) {
+      confidence -= 40;
+      reasons.push('The names and the sender disagree about who scored what');
+    }
+    if (bySender !== null) {
+      reasons.push(
+        `The sender is ${matchPlayers[senderIndex].name}, who ${parsed.senderSlot === 1 ? 'won' : 'lost'}`
+      );
+    }
+  } else if (senderIndex >= 0) {
+    // Players text their own score first: "9-4" from player2 means player2 won 9-4
+    firstOwner = senderIndex;
+    orientation = 'sender_first';
+    reasons.push(`Read from the sender's side: ${matchPlayers[senderIndex].name} scored ${parsed.player1Score}`);
+  } else {
+    firstOwner = 0;
+    orientation = 'match_order';
+    confidence = Math.min(confidence, 60);
+    reasons.push('Assumed the scores are listed in match order');
+  }
+
+  const ownerScores = firstOwner === 0
+    ? [parsed.player1Score, parsed.player2Score]
+    : [parsed.player2Score, parsed.player1Score];
+
   return {
-    confidence: 'low',
-    error: 'Could not parse score from text',
+    player1Score: ownerScores[0],
+    player2Score: ownerScores[1],
+    winnerId: ownerScores[0] > ownerScores[1] ? players.player1.id : players.player2.id,
+    orientation,
+    confidence: Math.max(0, Math.min(100, confidence)),
+    reasons,
   };
 }
 
+export const DEFAULT_SCORE_RULES: ScoreRules = { max_overshoot: 2 };
+
 /**
- * Validate parsed score against match requirements
+ * Validate a final score under backgammon scoring: the winner reaches the
+ * match length, possibly overshooting it on a gammon or backgammon in the
+ * last game, and the loser stays below it
  */
 export function validateScore(
-  parsed: ParsedScore,
-  matchLength: number
+  parsed: Pick<ParsedScore, 'player1Score' | 'player2Score'>,
+  matchLength: number,
+  rules: ScoreRules | null = DEFAULT_SCORE_RULES
 ): { valid: boolean; error?: string } {
   if (parsed.player1Score === undefined || parsed.player2Score === undefined) {
     return { valid: false, error: 'Could not determine both scores' };
   }
 
   const { player1Score, player2Score } = parsed;
+  const maxOvershoot = (rules ?? DEFAULT_SCORE_RULES).max_overshoot;
 
-  // One score must equal match length
-  if (player1Score !== matchLength && player2Score !== matchLength) {
-    return {
-      valid: false,
-      error: `One player must reach ${matchLength} points`,
-    };
-  }
-
-  // Winner must have higher score
-  if (player1Score === player2Score) {
-    return { valid: false, error: 'Scores cannot be tied' };
+  if (!Number.isInteger(player1Score) || !Number.isInteger(player2Score)) {
+    return { valid: false, error: 'Scores must be whole numbers' };
   }
 
   // Scores must be positive
@@ -108,10 +443,29 @@ export function validateScore(
     return { valid: false, error: 'Scores must be positive' };
   }
 
-  // Loser score must be less than match length
+  if (player1Score === player2Score) {
+    return { valid: false, error: 'Scores cannot be tied' };
+  }
+
+  const winnerScore = Math.max(player1Score, player2Score);
   const loserScore = Math.min(player1Score, player2Score);
+
+  if (winnerScore < matchLength) {
+    return { valid: false, error: `The winner must reach ${matchLength} points` };
+  }
+
+  if (winnerScore > matchLength + maxOvershoot) {
+    return {
+      valid: false,
+      error:
+        maxOvershoot === 0
+          ? `The winner's score must be exactly ${matchLength}`
+          : `The winner can finish with at most ${matchLength + maxOvershoot} points`,
+    };
+  }
+
   if (loserScore >= matchLength) {
-    return { valid: false, error: 'Losing score must be less than match length' };
+    return { valid: false, error: `The losing score must be less than ${matchLength}` };
   }
 
   return { valid: true };
@@ -0,0 +1,123 @@
+import { DEFAULT_SCORE_RULES } from './score-parser';
+import type { GameResult, MatchGame, ScoreRules } from './database.types';
+
+export const GAME_RESULTS: Record<GameResult, { label: string; multiplier: number }> = {
+  single: { label: 'Single', multiplier: 1 },
+  gammon: { label: 'Gammon', multiplier: 2 },
+  backgammon: { label: 'Backgammon', multiplier: 3 },
+};
+
+export const CUBE_VALUES = [1, 2, 4, 8, 16, 32, 64];
+
+export function gamePoints(cubeValue: number, result: GameResult): number {
+  return cubeValue * GAME_RESULTS[result].multiplier;
+}
+
+/**
+ * The score after each game, in match slot order
+ */
+export function runningScores(
+  games: MatchGame[],
+  player1Id: string | null
+): { player1Score: number; player2Score: number }[] {
+  let player1Score = 0;
+  let player2Score = 0;
+  return games.map(game => {
+    if (game.winner_id === player1Id) player1Score += game.points;
+    else player2Score += game.points;
+    return { player1Score, player2Score };
+  });
+}
+
+/**
+ * The game played right after the first player reaches match point, or null
+ * if the match never got there. Nobody may double during it.
+ */
+export function crawfordGameNumber(
+  games: Pick<MatchGame, 'winner_id' | 'points'>[],
+  player1Id: string | null,
+  matchLength: number
+): number | null {
+  let player1Score = 0;
+  let player2Score = 0;
+  for (let i = 0; i < games.length; i++) {
+    if (games[i].winner_id === player1Id) player1Score += games[i].points;
+    else player2Score += games[i].points;
+
+    if (Math.max(player1Score, player2Score) >= matchLength) return null;
+    if (Math.max(player1Score, player2Score) === matchLength - 1) {
+      // Both at match point at once (double match point) skips Crawford
+      return Math.min(player1Score, player2Score) === matchLength - 1 ? null : i + 2;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a scoresheet against the match's final score: games numbered in
+ * order, legal cube values, points that match the cube and result, the
+ * Crawford game marked where it falls, and totals that add up
+ */
+export function validateScoresheet(
+  games: MatchGame[],
+  match: { player1Id: string | null; player2Id: string | null; player1Score: number; player2Score: number },
+  matchLength: number,
+  rules: ScoreRules | null = DEFAULT_SCORE_RULES
+): { valid: boolean; error?: string } {
+  if (games.length === 0) return { valid: true };
+
+  const crawford = crawfordGameNumber(games, match.player1Id, matchLength);
+
+  for (const [i, game] of games.entries()) {
+    if (game.game_number !== i + 1) {
+      return { valid: false, error: 'Games must be numbered 1, 2, 3...' };
+    }
+    if (game.winner_id !== match.player1Id && game.winner_id !== match.player2Id) {
+      return { valid: false, error: `Game ${game.game_number} needs a winner` };
+    }
+    if (!CUBE_VALUES.includes(game.cube_value)) {
+      return { valid: false, error: `Game ${game.game_number} has an invalid cube value` };
+    }
+    if (game.points !== gamePoints(game.cube_value, game.result)) {
+      return {
+        valid: false,
+        error: `Game ${game.game_number} should be worth ${gamePoints(game.cube_value, game.result)} points`,
+      };
+    }
+    if (game.crawford !== (game.game_number === crawford)) {
+      return {
+        valid: false,
+        error:
+          crawford === game.game_number
+            ? `Game ${game.game_number} is the Crawford game`
+            : `Game ${game.game_number} is not the Crawford game`,
+      };
+    }
+    if (game.crawford && game.cube_value !== 1) {
+      return { valid: false, error: 'The cube cannot be turned in the Crawford game' };
+    }
+  }
+
+  const scores = runningScores(games, match.player1Id);
+  const finishedEarly = scores
+    .slice(0, -1)
+    .findIndex(s => Math.max(s.player1Score, s.player2Score) >= matchLength);
+  if (finishedEarly !== -1) {
+    return { valid: false, error: `The match was already over after game ${finishedEarly + 1}` };
+  }
+
+  // A winner past the overshoot allowance is recorded at the cap
+  const cap = matchLength + (rules ?? DEFAULT_SCORE_RULES).max_overshoot;
+  const { player1Score, player2Score } = scores[scores.length - 1];
+  const total1 = player1Score >= matchLength ? Math.min(player1Score, cap) : player1Score;
+  const total2 = player2Score >= matchLength ? Math.min(player2Score, cap) : player2Score;
+
+  if (total1 !== match.player1Score || total2 !== match.player2Score) {
+    return {
+      valid: false,
+      error: `The games add up to ${total1}-${total2}, not ${match.player1Score}-${match.player2Score}`,
+    };
+  }
+
+  return { valid: true };
+}
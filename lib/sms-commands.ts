@@ -0,0 +1,284 @@
+import { supabaseAdmin } from './supabase-admin';
+import { queueSMS } from './sms-queue';
+import { recordAuditEvent, type AuditActor } from './audit';
+import { startMatch } from './match-start';
+import { loadMessenger, type Say } from './sms-templates';
+import type { BracketType, Match, Player, ScoreReport } from './database.types';
+
+export type SmsCommand = 'STATUS' | 'NEXT' | 'TABLE' | 'START' | 'BRACKET' | 'HELP' | 'UNDO';
+
+const COMMANDS: SmsCommand[] = ['STATUS', 'NEXT', 'TABLE', 'START', 'BRACKET', 'HELP', 'UNDO'];
+
+// Common questions players text instead of the keyword
+const PHRASES: [RegExp, SmsCommand][] = [
+  [/^where (am i|do i|should i) (playing|play)\b/, 'TABLE'],
+  [/^(what|which) table\b/, 'TABLE'],
+  [/^who('?s| is| do i play) next\b/, 'NEXT'],
+  [/^(commands|menu|)$/, 'HELP'], // A bare "?" ends up empty
+  [/^(cancel|withdraw)$/, 'UNDO'],
+  [/^(we('re| are) )?(starting|started)$/, 'START'],
+];
+
+interface PlayerMatch extends Omit<Match, 'player1' | 'player2'> {
+  player1: Player | null;
+  player2: Player | null;
+  bracket: {
+    bracket_type: BracketType;
+    division: { name: string; tournament_id: string };
+  };
+}
+
+/**
+ * Recognise a command keyword. Anything else is treated as a score report.
+ */
+export function parseCommand(text: string): SmsCommand | null {
+  const normalized = text.trim().toLowerCase().replace(/[.!?]+$/, '');
+  const keyword = normalized.toUpperCase() as SmsCommand;
+  if (COMMANDS.includes(keyword)) return keyword;
+
+  for (const [pattern, command] of PHRASES) {
+    if (pattern.test(normalized)) return command;
+  }
+  return null;
+}
+
+/**
+ * "Championship Consolation R2", "Grand Final"
+ */
+export function roundLabel(match: Pick<PlayerMatch, 'round_number' | 'bracket'>): string {
+  const { bracket_type } = match.bracket;
+  if (bracket_type === 'grand_final') {
+    return match.round_number === 1 ? 'Grand Final' : 'Bracket Reset';
+  }
+  const prefix =
+    bracket_type === 'consolation' ? 'Consolation ' : bracket_type === 'last_chance' ? 'Last Chance ' : '';
+  return `${match.bracket.division.name} ${prefix}R${match.round_number}`;
+}
+
+function describeMatch(match: PlayerMatch, playerId: string, say: Say): string {
+  const opponent = match.player1_id === playerId ? match.player2 : match.player1;
+  return say('match_summary', {
+    round: roundLabel(match),
+    opponent: opponent?.name || say('to_be_decided'),
+    table: match.table_number ?? say('to_be_decided'),
+  });
+}
+
+async function getActiveMatches(playerId: string): Promise<PlayerMatch[]> {
+  const { data } = await supabaseAdmin
+    .from('matches')
+    .select(`
+      *,
+      player1:players!matches_player1_id_fkey (*),
+      player2:players!matches_player2_id_fkey (*),
+      bracket:brackets!inner (
+        bracket_type,
+        division:divisions!inner (name, tournament_id)
+      )
+    `)
+    .or(`player1_id.eq.${playerId},player2_id.eq.${playerId}`)
+    .in('status', ['pending', 'in_progress'])
+    .order('round_number');
+
+  return (data || []) as PlayerMatch[];
+}
+
+/**
+ * The tournament a player is currently entered in
+ */
+export async function getCurrentTournamentId(playerId: string): Promise<string | null> {
+  const { data } = await supabaseAdmin
+    .from('tournament_entries')
+    .select('tournament_id, tournament:tournaments!inner (status)')
+    .eq('player_id', playerId)
+    .neq('tournament.status', 'completed')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.tournament_id ?? null;
+}
+
+async function statusReply(player: Player, say: Say): Promise<string> {
+  const matches = await getActiveMatches(player.id);
+  const current = matches.find(m => m.status === 'in_progress') || matches[0];
+  if (!current) {
+    return say('status_none');
+  }
+
+  const { data: report } = await supabaseAdmin
+    .from('score_reports')
+    .select('status')
+    .eq('match_id', current.id)
+    .in('status', ['pending', 'awaiting_confirmation', 'disputed'])
+    .limit(1)
+    .maybeSingle();
+
+  const state = say(current.status === 'in_progress' ? 'status_playing' : 'status_ready', {
+    match: describeMatch(current, player.id, say),
+  });
+  if (!report) return state;
+
+  const reportNote = say(
+    report.status === 'awaiting_confirmation' ? 'status_awaiting_confirmation' : 'status_with_director'
+  );
+  return `${state} ${reportNote}`;
+}
+
+async function nextReply(player: Player, say: Say): Promise<string> {
+  const matches = await getActiveMatches(player.id);
+  const playing = matches.find(m => m.status === 'in_progress');
+  const upcoming = matches.find(m => m.status === 'pending');
+
+  if (upcoming) {
+    return say('next_upcoming', { match: describeMatch(upcoming, player.id, say) });
+  }
+  if (playing) {
+    return say('next_finish_current', { match: describeMatch(playing, player.id, say) });
+  }
+  return say('next_undecided');
+}
+
+async function tableReply(player: Player, say: Say): Promise<string> {
+  const matches = await getActiveMatches(player.id);
+  const current = matches.find(m => m.status === 'in_progress') || matches[0];
+
+  if (!current) {
+    return say('table_none');
+  }
+  if (!current.table_number) {
+    return say('table_unassigned', { match: describeMatch(current, player.id, say) });
+  }
+  return say('table_assigned', {
+    table: current.table_number,
+    match: describeMatch(current, player.id, say),
+  });
+}
+
+/**
+ * The players have sat down: mark their ready match as started
+ */
+async function startReply(player: Player, actor: AuditActor, say: Say): Promise<string> {
+  const matches = await getActiveMatches(player.id);
+  const playing = matches.find(m => m.status === 'in_progress');
+  if (playing) {
+    return say('start_already', { match: describeMatch(playing, player.id, say) });
+  }
+
+  const ready = matches.find(m => m.status === 'pending' && m.player1_id && m.player2_id);
+  if (!ready || !(await startMatch(ready.id, actor, 'sms'))) {
+    return say('start_none');
+  }
+  return say('start_started', { match: describeMatch(ready, player.id, say) });
+}
+
+async function bracketReply(player: Player, say: Say): Promise<string> {
+  const tournamentId = await getCurrentTournamentId(player.id);
+  if (!tournamentId) {
+    return say('bracket_none');
+  }
+  return say('bracket_link', {
+    url: `${process.env.NEXT_PUBLIC_APP_URL || ''}/tournaments/${tournamentId}/public`,
+  });
+}
+
+/**
+ * Withdraw the player's latest report that hasn't been acted on yet
+ */
+async function undoReply(player: Player, actor: AuditActor, say: Say): Promise<string> {
+  const { data } = await supabaseAdmin
+    .from('score_reports')
+    .select(`
+      *,
+      match:matches!inner (
+        id,
+        player1:players!matches_player1_id_fkey (*),
+        player2:players!matches_player2_id_fkey (*),
+        bracket:brackets!inner (division:divisions!inner (tournament_id))
+      )
+    `)
+    .eq('reported_by_player_id', player.id)
+    .in('status', ['pending', 'awaiting_confirmation'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const report = data as
+    | (ScoreReport & {
+        match: Pick<PlayerMatch, 'id' | 'player1' | 'player2'> & {
+          bracket: { division: { tournament_id: string } };
+        };
+      })
+    | null;
+
+  if (!report) {
+    return say('undo_none');
+  }
+
+  const { data: withdrawn } = await supabaseAdmin
+    .from('score_reports')
+    .update({ status: 'withdrawn' })
+    .eq('id', report.id)
+    .eq('status', report.status)
+    .select('id');
+
+  if (!withdrawn || withdrawn.length === 0) {
+    return say('undo_too_late');
+  }
+
+  await recordAuditEvent({
+    tournamentId: report.match.bracket.division.tournament_id,
+    action: 'score_report.withdrawn',
+    actor,
+    matchId: report.match_id,
+    playerId: player.id,
+    details: { report_id: report.id, raw_text: report.raw_text },
+  });
+
+  // Don't leave the opponent answering a question that no longer exists
+  if (report.status === 'awaiting_confirmation') {
+    const opponent = [report.match.player1, report.match.player2].find(
+      p => p?.id === report.confirmation_player_id
+    );
+    if (opponent?.phone) {
+      const tournamentId = report.match.bracket.division.tournament_id;
+      const sayToOpponent = await loadMessenger(opponent.language, tournamentId);
+      await queueSMS({
+        to: opponent.phone,
+        body: sayToOpponent('undo_opponent_notice', { player: player.name }),
+        tournamentId,
+        playerId: opponent.id,
+        template: 'undo_opponent_notice',
+      });
+    }
+  }
+
+  return say('undo_withdrawn', { report: report.raw_text });
+}
+
+/**
+ * Answer a command from a player
+ */
+export async function runCommand(
+  command: SmsCommand,
+  player: Player,
+  actor: AuditActor,
+  say: Say
+): Promise<string> {
+  switch (command) {
+    case 'STATUS':
+      return statusReply(player, say);
+    case 'NEXT':
+      return nextReply(player, say);
+    case 'TABLE':
+      return tableReply(player, say);
+    case 'START':
+      return startReply(player, actor, say);
+    case 'BRACKET':
+      return bracketReply(player, say);
+    case 'HELP':
+      return say('help');
+    case 'UNDO':
+      return undoReply(player, actor, say);
+  }
+}
@@ -0,0 +1,35 @@
+import { endSession, findSession, saveSession, type SmsContext, type SmsFlow, type SmsStep } from './sms-session';
+import { chooseMatchFlow } from './sms-reports';
+import type { SmsIntent } from './database.types';
+
+// A new multi-step exchange adds its intent here; the webhook doesn't change
+const FLOWS: Record<SmsIntent, SmsFlow> = {
+  choose_match: chooseMatchFlow as SmsFlow,
+};
+
+/**
+ * Keep the conversation open if the step asked another question, and hand
+ * back the reply to text
+ */
+export async function respond(ctx: SmsContext, step: SmsStep): Promise<string> {
+  if (step.next) {
+    await saveSession(ctx.from, ctx.player.id, step.next, FLOWS[step.next.intent].timeoutMinutes);
+  }
+  return step.reply;
+}
+
+/**
+ * Hand the message to the conversation this phone has open. Returns the
+ * reply to text, or null when there is no open conversation or the message
+ * doesn't answer it.
+ */
+export async function continueSession(ctx: SmsContext): Promise<string | null> {
+  const session = await findSession(ctx.from);
+  if (!session) return null;
+
+  const step = await FLOWS[session.intent].handle(ctx, session.payload, session);
+  await endSession(session);
+  if (!step) return null;
+
+  return respond(ctx, step);
+}
@@ -0,0 +1,269 @@
+import { supabaseAdmin } from './supabase-admin';
+import { sendSMS } from './twilio';
+import type { SmsMessage } from './database.types';
+
+// A player gets at most this many texts per window; the rest wait their turn
+export const RATE_LIMIT = { messages: 3, windowSeconds: 60 };
+
+// Failed sends are retried after 30s, 1m, 2m, 4m, then given up on
+export const MAX_ATTEMPTS = 5;
+const RETRY_BASE_SECONDS = 30;
+
+// Twilio errors no retry will fix: invalid number, landline, opted out with
+// STOP, and the like
+const PERMANENT_ERRORS = [21211, 21408, 21610, 21612, 21614];
+
+// How many due messages one queue run sends
+const BATCH_SIZE = 20;
+
+// A message still 'sending' after this long was claimed by a run that died
+// before recording the result, so the queue picks it up again. Twilio may
+// have accepted it already, so a resend is possible but a lost text isn't.
+const SENDING_TIMEOUT_SECONDS = 120;
+
+export interface QueueSMSInput {
+  to: string;
+  body: string;
+  tournamentId?: string | null;
+  playerId?: string | null;
+  template?: string | null;
+}
+
+function statusCallbackUrl(): string | undefined {
+  // Twilio needs an absolute URL to call back
+  return process.env.NEXT_PUBLIC_APP_URL
+    ? `${process.env.NEXT_PUBLIC_APP_URL}/api/sms/status`
+    : undefined;
+}
+
+/**
+ * When the recipient may next be texted, or null if they can be now
+ */
+async function rateLimitedUntil(phone: string): Promise<Date | null> {
+  const windowStart = new Date(Date.now() - RATE_LIMIT.windowSeconds * 1000).toISOString();
+
+  const { data } = await supabaseAdmin
+    .from('sms_messages')
+    .select('sent_at')
+    .eq('to_phone', phone)
+    .eq('kind', 'outbound')
+    .gte('sent_at', windowStart)
+    .order('sent_at')
+    .limit(RATE_LIMIT.messages);
+
+  if (!data || data.length < RATE_LIMIT.messages) return null;
+  return new Date(new Date(data[0].sent_at!).getTime() + RATE_LIMIT.windowSeconds * 1000);
+}
+
+/**
+ * PostgREST filter for messages a queue run may claim: queued ones, and
+ * ones left 'sending' by a run that never finished
+ */
+function claimableFilter(): string {
+  const stale = new Date(Date.now() - SENDING_TIMEOUT_SECONDS * 1000).toISOString();
+  return `status.eq.queued,and(status.eq.sending,updated_at.lt.${stale})`;
+}
+
+/**
+ * Try to send one queued message. Returns the message as it stands
+ * afterwards: sent, queued for a retry or a free slot, or failed.
+ */
+async function deliver(message: SmsMessage): Promise<SmsMessage> {
+  const waitUntil = await rateLimitedUntil(message.to_phone);
+  if (waitUntil) {
+    const { data } = await supabaseAdmin
+      .from('sms_messages')
+      .update({
+        status: 'queued',
+        next_attempt_at: waitUntil.toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', message.id)
+      .or(claimableFilter())
+      .select()
+      .maybeSingle();
+    return data ?? message;
+  }
+
+  // Claim the message so a concurrent queue run doesn't send it too
+  const { data: claimed } = await supabaseAdmin
+    .from('sms_messages')
+    .update({ status: 'sending', updated_at: new Date().toISOString() })
+    .eq('id', message.id)
+    .or(claimableFilter())
+    .select('id');
+
+  if (!claimed || claimed.length === 0) return message;
+
+  const result = await sendSMS(message.to_phone, message.body, {
+    statusCallback: statusCallbackUrl(),
+  });
+  const attempts = message.attempts + 1;
+  const now = new Date();
+
+  let update: Partial<SmsMessage>;
+  if (result.success) {
+    update = { status: 'sent', attempts, sent_at: now.toISOString(), twilio_sid: result.sid ?? null };
+  } else {
+    const giveUp =
+      attempts >= MAX_ATTEMPTS || (result.code !== undefined && PERMANENT_ERRORS.includes(result.code));
+    const retryAt = new Date(now.getTime() + RETRY_BASE_SECONDS * 2 ** (attempts - 1) * 1000);
+    update = {
+      status: giveUp ? 'failed' : 'queued',
+      attempts,
+      last_error: result.code ? `${result.error} (${result.code})` : result.error ?? null,
+      next_attempt_at: giveUp ? message.next_attempt_at : retryAt.toISOString(),
+    };
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from('sms_messages')
+    .update({ ...update, updated_at: now.toISOString() })
+    .eq('id', message.id)
+    .select()
+    .single();
+
+  if (error) console.error('Failed to record SMS send:', error);
+  return updated ?? { ...message, ...update };
+}
+
+/**
+ * Queue a text and try to send it straight away. Returns null only when
+ * the message couldn't even be queued.
+ */
+export async function queueSMS(input: QueueSMSInput): Promise<SmsMessage | null> {
+  const { data: message, error } = await supabaseAdmin
+    .from('sms_messages')
+    .insert({
+      to_phone: input.to,
+      body: input.body,
+      tournament_id: input.tournamentId ?? null,
+      player_id: input.playerId ?? null,
+      template: input.template ?? null,
+      kind: 'outbound',
+      status: 'queued',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Failed to queue SMS:', error);
+    return null;
+  }
+
+  return deliver(message);
+}
+
+/**
+ * True unless the message has been given up on
+ */
+export function isPending(message: SmsMessage | null): boolean {
+  return !!message && message.status !== 'failed';
+}
+
+/**
+ * Send queued messages whose retry or rate-limit wait is over, and resend
+ * ones a dead queue run left 'sending'. There is no scheduler, so this runs
+ * whenever the webhook or the messages page is hit.
+ */
+export async function processQueue(tournamentId?: string): Promise<number> {
+  let query = supabaseAdmin
+    .from('sms_messages')
+    .select('*')
+    .or(claimableFilter())
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('created_at')
+    .limit(BATCH_SIZE);
+  if (tournamentId) {
+    query = query.eq('tournament_id', tournamentId);
+  }
+
+  const { data: due, error } = await query;
+  if (error) {
+    console.error('Failed to load queued SMS:', error);
+    return 0;
+  }
+
+  let sent = 0;
+  for (const message of due || []) {
+    const result = await deliver(message);
+    if (result.status === 'sent') sent++;
+  }
+  return sent;
+}
+
+/**
+ * Give a failed text a fresh set of attempts. Returns null if the message
+ * isn't a failed text of this tournament.
+ */
+export async function retryMessage(messageId: string, tournamentId: string): Promise<SmsMessage | null> {
+  const { data: message } = await supabaseAdmin
+    .from('sms_messages')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', messageId)
+    .eq('tournament_id', tournamentId)
+    .eq('kind', 'outbound')
+    .eq('status', 'failed')
+    .select()
+    .maybeSingle();
+
+  return message ? deliver(message) : null;
+}
+
+/**
+ * Keep a copy of a reply the webhook answered with, so the director sees
+ * the whole conversation with a player
+ */
+export async function recordReply(input: QueueSMSInput): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin.from('sms_messages').insert({
+    to_phone: input.to,
+    body: input.body,
+    tournament_id: input.tournamentId ?? null,
+    player_id: input.playerId ?? null,
+    kind: 'reply',
+    status: 'sent',
+    attempts: 1,
+    next_attempt_at: now,
+    sent_at: now,
+  });
+
+  if (error) console.error('Failed to record SMS reply:', error);
+}
+
+/**
+ * Apply a Twilio status callback. Returns false for a message we didn't send.
+ */
+export async function applyDeliveryStatus(
+  sid: string,
+  twilioStatus: string,
+  errorCode?: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  let update: Partial<SmsMessage>;
+  if (twilioStatus === 'delivered') {
+    update = { status: 'delivered', delivered_at: now };
+  } else if (twilioStatus === 'failed' || twilioStatus === 'undelivered') {
+    update = {
+      status: 'failed',
+      last_error: `Twilio reported ${twilioStatus}${errorCode ? ` (${errorCode})` : ''}`,
+    };
+  } else {
+    return true; // queued/sending/sent: nothing new to record
+  }
+
+  const { data } = await supabaseAdmin
+    .from('sms_messages')
+    .update({ ...update, updated_at: now })
+    .eq('twilio_sid', sid)
+    .select('id');
+
+  return !!data && data.length > 0;
+}
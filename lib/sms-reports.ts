@@ -0,0 +1,230 @@
+import { supabaseAdmin } from './supabase-admin';
+import { mentionsPlayer, parseScoreText, resolveScore, validateScore } from './score-parser';
+import {
+  confirmReport,
+  disputeReport,
+  formatReportScore,
+  parseConfirmationReply,
+  requestConfirmation,
+  type ReportMatch,
+  type ReportWithMatch,
+} from './score-confirmation';
+import { roundLabel } from './sms-commands';
+import type { SmsContext, SmsFlow, SmsStep } from './sms-session';
+import type { Say } from './sms-templates';
+import type { BracketType, Match, Player } from './database.types';
+
+type ActiveMatch = ReportMatch & Pick<Match, 'round_number'> & {
+  bracket: ReportMatch['bracket'] & { bracket_type: BracketType; division: { name: string } };
+};
+
+/**
+ * Read a score text from one of the match's players: scores oriented to
+ * the match, winner and a 0-100 confidence
+ */
+function interpretScore(body: string, match: ReportMatch, senderId: string) {
+  const parsed = resolveScore(parseScoreText(body), match, senderId);
+  const division = match.bracket?.division;
+
+  // Only a valid result names a winner; invalid scores go to the director
+  const validation = validateScore(parsed, division?.match_length || 9, division?.score_rules);
+  const parsedWinnerId = validation.valid ? parsed.winnerId : null;
+  const confidenceScore =
+    parsed.player1Score !== undefined && !validation.valid
+      ? Math.min(parsed.confidence, 40)
+      : parsed.confidence;
+
+  return { parsed, parsedWinnerId, confidenceScore };
+}
+
+/**
+ * The opponent answers a confirmation request with YES, NO, or their own
+ * score; a matching score counts as YES and any other score as NO
+ */
+export async function handleConfirmationReply(
+  report: ReportWithMatch,
+  { body, actor, say }: SmsContext
+): Promise<string> {
+  let reply = parseConfirmationReply(body);
+
+  if (!reply) {
+    const { parsed, parsedWinnerId } = interpretScore(
+      body,
+      report.match,
+      report.confirmation_player_id!
+    );
+    if (!parsedWinnerId) {
+      return say('confirmation_reprompt', { score: formatReportScore(report, report.match) });
+    }
+    const sameScore =
+      parsed.player1Score === report.parsed_player1_score &&
+      parsed.player2Score === report.parsed_player2_score;
+    reply = sameScore ? 'yes' : 'no';
+  }
+
+  if (reply === 'yes') {
+    if (!(await confirmReport(report, body, actor))) return say('confirmation_too_late');
+    return say('confirmation_recorded', { score: formatReportScore(report, report.match) });
+  }
+
+  if (!(await disputeReport(report, 'opponent_rejected', body, actor))) {
+    return say('confirmation_too_late');
+  }
+  return say('dispute_recorded');
+}
+
+/**
+ * Matches a player can report a score for: both players known, not finished
+ */
+async function getActiveMatches(playerId: string): Promise<ActiveMatch[]> {
+  const { data } = await supabaseAdmin
+    .from('matches')
+    .select(`
+      *,
+      bracket:brackets!inner (
+        *,
+        division:divisions!inner (*)
+      ),
+      player1:players!matches_player1_id_fkey (*),
+      player2:players!matches_player2_id_fkey (*)
+    `)
+    .or(`player1_id.eq.${playerId},player2_id.eq.${playerId}`)
+    .in('status', ['pending', 'in_progress'])
+    .order('round_number');
+
+  return ((data || []) as ActiveMatch[]).filter(m => m.player1_id && m.player2_id);
+}
+
+/**
+ * Record a score report against a match and ask the opponent to confirm it
+ */
+async function fileReport(
+  body: string,
+  player: Player,
+  from: string,
+  targetMatch: ReportMatch,
+  say: Say
+): Promise<string> {
+  const { parsed, parsedWinnerId, confidenceScore } = interpretScore(body, targetMatch, player.id);
+
+  // Create score report
+  const { data: scoreReport, error: reportError } = await supabaseAdmin
+    .from('score_reports')
+    .insert({
+      match_id: targetMatch.id,
+      reported_by_phone: from,
+      reported_by_player_id: player.id,
+      raw_text: body,
+      parsed_winner_id: parsedWinnerId,
+      parsed_player1_score: parsed.player1Score ?? null,
+      parsed_player2_score: parsed.player2Score ?? null,
+      confidence_score: confidenceScore,
+      orientation: parsed.orientation,
+      parse_reasons: parsed.reasons,
+      status: 'pending',
+    })
+    .select()
+    .single();
+
+  if (reportError) {
+    console.error('Failed to create score report:', reportError);
+    return say('report_failed');
+  }
+
+  const p1 = targetMatch.player1;
+  const p2 = targetMatch.player2;
+
+  // A valid score is only final once the opponent confirms it
+  if (parsedWinnerId && (await requestConfirmation(scoreReport, targetMatch))) {
+    const opponent = player.id === targetMatch.player1_id ? p2 : p1;
+    return say('report_sent_for_confirmation', {
+      score: formatReportScore(scoreReport, targetMatch),
+      opponent: opponent?.name || '',
+    });
+  }
+
+  // Score needs director approval
+  if (parsed.player1Score !== undefined && parsed.player2Score !== undefined) {
+    return say('report_pending_with_score', {
+      score: `${p1?.name || 'Player 1'} ${parsed.player1Score} - ${p2?.name || 'Player 2'} ${parsed.player2Score}`,
+    });
+  }
+  return say('report_pending');
+}
+
+/**
+ * Read a text as a score for one of the player's matches. With several
+ * matches open and no opponent named, the report is held and the player is
+ * asked which match it is for.
+ */
+export async function reportScore({ from, body, player, say }: SmsContext): Promise<SmsStep> {
+  const activeMatches = await getActiveMatches(player.id);
+
+  if (activeMatches.length === 0) {
+    return { reply: say('no_active_matches') };
+  }
+
+  // With several active matches, only an opponent named in the text picks one
+  let candidates = activeMatches;
+  if (activeMatches.length > 1) {
+    const parsed = parseScoreText(body);
+    const named = activeMatches.filter(m => {
+      const opponent = m.player1_id === player.id ? m.player2 : m.player1;
+      return !!opponent && mentionsPlayer(parsed, opponent.name);
+    });
+    if (named.length > 0) candidates = named;
+  }
+
+  if (candidates.length > 1) {
+    const options = candidates.map((m, i) => {
+      const opponent = m.player1_id === player.id ? m.player2 : m.player1;
+      return say('choose_match_option', {
+        number: i + 1,
+        opponent: opponent?.name || '',
+        round: roundLabel(m),
+      });
+    });
+    return {
+      reply: say('choose_match', { options: options.join(', ') }),
+      next: {
+        intent: 'choose_match',
+        tournamentId: candidates[0].bracket.division.tournament_id,
+        payload: { raw_text: body, match_ids: candidates.map(m => m.id) },
+      },
+    };
+  }
+
+  return { reply: await fileReport(body, player, from, candidates[0], say) };
+}
+
+/**
+ * A held report waiting for a "1"/"#2" reply naming a match from the list
+ * sent to the player. A new score instead of a number drops the held one.
+ */
+export const chooseMatchFlow: SmsFlow<{ raw_text: string; match_ids: string[] }> = {
+  timeoutMinutes: 10,
+
+  async handle({ from, body, player, say }, payload, session) {
+    const picked = body.trim().match(/^#?(\d+)\.?$/);
+    const matchId = picked ? payload.match_ids[parseInt(picked[1]) - 1] : undefined;
+
+    if (matchId) {
+      const chosen = (await getActiveMatches(player.id)).find(m => m.id === matchId);
+      if (!chosen) {
+        return { reply: say('choose_match_finished') };
+      }
+      return { reply: await fileReport(payload.raw_text, player, from, chosen, say) };
+    }
+
+    if (parseScoreText(body).error) {
+      return {
+        reply: say('choose_match_reprompt', {
+          count: payload.match_ids.length,
+          report: payload.raw_text,
+        }),
+        next: { intent: session.intent, tournamentId: session.tournament_id, payload },
+      };
+    }
+    return null;
+  },
+};
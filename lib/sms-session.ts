@@ -0,0 +1,85 @@
+import { supabaseAdmin } from './supabase-admin';
+import type { AuditActor } from './audit';
+import type { Say } from './sms-templates';
+import type { Player, SmsIntent, SmsSession } from './database.types';
+
+/**
+ * The message being handled, who sent it, and how to word replies to them
+ */
+export interface SmsContext {
+  from: string;
+  body: string;
+  player: Player;
+  actor: AuditActor;
+  say: Say;
+}
+
+/**
+ * What to text back, and what the next message from this phone should be
+ * read as. Leaving out `next` ends the conversation.
+ */
+export interface SmsStep {
+  reply: string;
+  next?: {
+    intent: SmsIntent;
+    tournamentId: string;
+    payload: Record<string, unknown>;
+  };
+}
+
+/**
+ * One multi-step exchange. `handle` returns null when the message isn't an
+ * answer to the question asked; the session is dropped and the message is
+ * read as if no conversation were open.
+ */
+export interface SmsFlow<P extends Record<string, unknown> = Record<string, unknown>> {
+  timeoutMinutes: number;
+  handle(ctx: SmsContext, payload: P, session: SmsSession): Promise<SmsStep | null>;
+}
+
+/**
+ * The conversation this phone has open, if it hasn't expired. A phone only
+ * ever answers the latest question, whichever tournament it was for.
+ */
+export async function findSession(phone: string): Promise<SmsSession | null> {
+  const { data } = await supabaseAdmin
+    .from('sms_sessions')
+    .select('*')
+    .eq('phone', phone)
+    .gt('expires_at', new Date().toISOString())
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * Open or move on the conversation for this phone and tournament
+ */
+export async function saveSession(
+  phone: string,
+  playerId: string,
+  next: NonNullable<SmsStep['next']>,
+  timeoutMinutes: number
+): Promise<void> {
+  const now = Date.now();
+  const { error } = await supabaseAdmin.from('sms_sessions').upsert(
+    {
+      phone,
+      tournament_id: next.tournamentId,
+      player_id: playerId,
+      intent: next.intent,
+      payload: next.payload,
+      expires_at: new Date(now + timeoutMinutes * 60 * 1000).toISOString(),
+      updated_at: new Date(now).toISOString(),
+    },
+    { onConflict: 'phone,tournament_id' }
+  );
+
+  if (error) throw error;
+}
+
+export async function endSession(session: Pick<SmsSession, 'id'>): Promise<void> {
+  await supabaseAdmin.from('sms_sessions').delete().eq('id', session.id);
+}
@@ -0,0 +1,477 @@
+import { supabase } from './supabase';
+import type { SmsLanguage, SmsTemplateOverrides, Tournament } from './database.types';
+
+export const SMS_LANGUAGES: Record<SmsLanguage, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+interface SmsTemplate {
+  label: string; // Shown to directors in the template editor
+  variables: readonly string[];
+  text: Record<SmsLanguage, string>;
+}
+
+// Every text the app sends. Command keywords (STATUS, YES...) stay in
+// English in every language since that is what the parser understands.
+export const SMS_TEMPLATES = {
+  match_call: {
+    label: 'Match ready',
+    variables: ['player', 'opponent', 'division', 'round', 'table'],
+    text: {
+      en: "You're up! {round} vs {opponent} at table {table}.",
+      es: '¡Te toca! {round} contra {opponent} en la mesa {table}.',
+    },
+  },
+  table_changed: {
+    label: 'Match moved to another table',
+    variables: ['player', 'opponent', 'table'],
+    text: {
+      en: 'Table change: your match vs {opponent} is now at table {table}.',
+      es: 'Cambio de mesa: tu partida contra {opponent} ahora es en la mesa {table}.',
+    },
+  },
+  match_call_cancelled: {
+    label: 'Called match taken back after a corrected result',
+    variables: ['player', 'opponent', 'table'],
+    text: {
+      en: 'Result corrected: your match vs {opponent} at table {table} is off. Text STATUS to see your next match.',
+      es: 'Resultado corregido: tu partida contra {opponent} en la mesa {table} se canceló. Envía STATUS para ver tu próxima partida.',
+    },
+  },
+  confirmation_request: {
+    label: 'Ask the opponent to confirm a score',
+    variables: ['reporter', 'score', 'winner', 'minutes'],
+    text: {
+      en: '{reporter} reported: {score} ({winner} wins). Reply YES to confirm or NO to dispute within {minutes} minutes.',
+      es: '{reporter} informó: {score} (gana {winner}). Responde YES para confirmar o NO para disputarlo en {minutes} minutos.',
+    },
+  },
+  confirmation_reprompt: {
+    label: 'Confirmation reply not understood',
+    variables: ['score'],
+    text: {
+      en: 'Please reply YES if {score} is correct, or NO to dispute it.',
+      es: 'Responde YES si {score} es correcto, o NO para disputarlo.',
+    },
+  },
+  confirmation_recorded: {
+    label: 'Opponent confirmed (to the opponent)',
+    variables: ['score'],
+    text: {
+      en: 'Thanks! Result recorded: {score}.',
+      es: '¡Gracias! Resultado registrado: {score}.',
+    },
+  },
+  confirmation_received: {
+    label: 'Opponent confirmed (to the reporter)',
+    variables: ['score'],
+    text: {
+      en: 'Your opponent confirmed the score: {score}. Result recorded!',
+      es: 'Tu rival confirmó el resultado: {score}. ¡Resultado registrado!',
+    },
+  },
+  confirmation_too_late: {
+    label: 'Confirmation after the result was settled',
+    variables: [],
+    text: {
+      en: 'That score has already been settled. Text STATUS to see your current match.',
+      es: 'Ese resultado ya fue resuelto. Envía STATUS para ver tu partida actual.',
+    },
+  },
+  dispute_recorded: {
+    label: 'Opponent disputed (to the opponent)',
+    variables: [],
+    text: {
+      en: 'Thanks. The score is disputed and the tournament director will review it.',
+      es: 'Gracias. El resultado queda en disputa y el director del torneo lo revisará.',
+    },
+  },
+  dispute_received: {
+    label: 'Opponent disputed (to the reporter)',
+    variables: [],
+    text: {
+      en: 'Your opponent disputed the score you reported. The tournament director will review it.',
+      es: 'Tu rival disputó el resultado que informaste. El director del torneo lo revisará.',
+    },
+  },
+  report_sent_for_confirmation: {
+    label: 'Score received, opponent asked to confirm',
+    variables: ['score', 'opponent'],
+    text: {
+      en: "Score report received: {score}. We've asked {opponent} to confirm.",
+      es: 'Resultado recibido: {score}. Le pedimos a {opponent} que lo confirme.',
+    },
+  },
+  report_pending_with_score: {
+    label: 'Score received, waiting for the director',
+    variables: ['score'],
+    text: {
+      en: 'Score report received: {score}. Pending director approval.',
+      es: 'Resultado recibido: {score}. Pendiente de aprobación del director.',
+    },
+  },
+  report_pending: {
+    label: 'Unreadable score, waiting for the director',
+    variables: [],
+    text: {
+      en: 'Thanks! Your score report has been received and is pending director approval.',
+      es: '¡Gracias! Recibimos tu resultado y está pendiente de aprobación del director.',
+    },
+  },
+  report_failed: {
+    label: 'Score could not be saved',
+    variables: [],
+    text: {
+      en: 'Sorry, there was an error recording your score. Please try again or contact the director.',
+      es: 'Lo sentimos, hubo un error al registrar tu resultado. Inténtalo de nuevo o habla con el director.',
+    },
+  },
+  report_approved: {
+    label: 'Director approved a score',
+    variables: ['score'],
+    text: {
+      en: 'Your score has been approved! {score}',
+      es: '¡Tu resultado fue aprobado! {score}',
+    },
+  },
+  report_rejected: {
+    label: 'Director rejected a score',
+    variables: [],
+    text: {
+      en: 'Your score report could not be processed. Please re-submit or see the tournament director.',
+      es: 'No pudimos procesar tu resultado. Envíalo de nuevo o habla con el director del torneo.',
+    },
+  },
+  report_rejected_with_reason: {
+    label: 'Director rejected a score, with a reason',
+    variables: ['reason'],
+    text: {
+      en: 'Your score report was not accepted: {reason}. Please re-submit or see the tournament director.',
+      es: 'Tu resultado no fue aceptado: {reason}. Envíalo de nuevo o habla con el director del torneo.',
+    },
+  },
+  no_active_matches: {
+    label: 'Score texted with no match to play',
+    variables: [],
+    text: {
+      en: "You don't have any active matches right now. Please check with the tournament director.",
+      es: 'No tienes partidas activas ahora mismo. Consulta con el director del torneo.',
+    },
+  },
+  choose_match: {
+    label: 'Ask which match a score is for',
+    variables: ['options'],
+    text: {
+      en: 'Which match is this for? Reply {options}.',
+      es: '¿De qué partida es? Responde {options}.',
+    },
+  },
+  choose_match_option: {
+    label: 'One match in the "which match" list',
+    variables: ['number', 'opponent', 'round'],
+    text: {
+      en: '{number} for vs {opponent} ({round})',
+      es: '{number} para contra {opponent} ({round})',
+    },
+  },
+  choose_match_reprompt: {
+    label: '"Which match" reply not understood',
+    variables: ['count', 'report'],
+    text: {
+      en: 'Please reply with a number from 1 to {count} to pick the match for "{report}".',
+      es: 'Responde con un número del 1 al {count} para elegir la partida de "{report}".',
+    },
+  },
+  choose_match_finished: {
+    label: 'Chosen match already finished',
+    variables: [],
+    text: {
+      en: 'That match has already finished. Text STATUS to see your current match.',
+      es: 'Esa partida ya terminó. Envía STATUS para ver tu partida actual.',
+    },
+  },
+  match_summary: {
+    label: 'A match in command replies',
+    variables: ['round', 'opponent', 'table'],
+    text: {
+      en: '{round} vs {opponent}, table {table}',
+      es: '{round} contra {opponent}, mesa {table}',
+    },
+  },
+  to_be_decided: {
+    label: 'Opponent or table not known yet',
+    variables: [],
+    text: {
+      en: 'TBD',
+      es: 'por definir',
+    },
+  },
+  status_none: {
+    label: 'STATUS with no active match',
+    variables: [],
+    text: {
+      en: "You don't have an active match right now. Text NEXT to see what's coming up.",
+      es: 'No tienes una partida activa ahora mismo. Envía NEXT para ver lo que viene.',
+    },
+  },
+  status_playing: {
+    label: 'STATUS while playing',
+    variables: ['match'],
+    text: {
+      en: 'Playing: {match}.',
+      es: 'Jugando: {match}.',
+    },
+  },
+  status_ready: {
+    label: 'STATUS before the match starts',
+    variables: ['match'],
+    text: {
+      en: 'Ready: {match}.',
+      es: 'Lista: {match}.',
+    },
+  },
+  status_awaiting_confirmation: {
+    label: 'STATUS note: score waiting for confirmation',
+    variables: [],
+    text: {
+      en: 'A score has been reported and is waiting for confirmation.',
+      es: 'Se informó un resultado y está esperando confirmación.',
+    },
+  },
+  status_with_director: {
+    label: 'STATUS note: score with the director',
+    variables: [],
+    text: {
+      en: 'A score has been reported and is with the director.',
+      es: 'Se informó un resultado y lo tiene el director.',
+    },
+  },
+  next_upcoming: {
+    label: 'NEXT with a match coming up',
+    variables: ['match'],
+    text: {
+      en: 'Next: {match}.',
+      es: 'Siguiente: {match}.',
+    },
+  },
+  next_finish_current: {
+    label: 'NEXT while still playing',
+    variables: ['match'],
+    text: {
+      en: 'Finish your current match first: {match}.',
+      es: 'Primero termina tu partida actual: {match}.',
+    },
+  },
+  next_undecided: {
+    label: 'NEXT with no opponent decided',
+    variables: [],
+    text: {
+      en: "Your next opponent isn't decided yet. Text STATUS again once the current round finishes.",
+      es: 'Tu próximo rival aún no está decidido. Envía STATUS otra vez cuando termine la ronda.',
+    },
+  },
+  table_none: {
+    label: 'TABLE with no active match',
+    variables: [],
+    text: {
+      en: "You don't have an active match, so no table yet.",
+      es: 'No tienes una partida activa, así que aún no hay mesa.',
+    },
+  },
+  table_unassigned: {
+    label: 'TABLE before a table is assigned',
+    variables: ['match'],
+    text: {
+      en: 'No table assigned yet for {match}. Check with the director.',
+      es: 'Aún no hay mesa asignada para {match}. Consulta con el director.',
+    },
+  },
+  table_assigned: {
+    label: 'TABLE with a table assigned',
+    variables: ['table', 'match'],
+    text: {
+      en: 'Table {table}: {match}.',
+      es: 'Mesa {table}: {match}.',
+    },
+  },
+  start_none: {
+    label: 'START with no match ready',
+    variables: [],
+    text: {
+      en: "You don't have a match ready to start.",
+      es: 'No tienes una partida lista para empezar.',
+    },
+  },
+  start_already: {
+    label: 'START for a match already under way',
+    variables: ['match'],
+    text: {
+      en: 'Already under way: {match}.',
+      es: 'Ya en juego: {match}.',
+    },
+  },
+  start_started: {
+    label: 'START succeeded',
+    variables: ['match'],
+    text: {
+      en: 'Started: {match}. Good luck!',
+      es: 'Empezada: {match}. ¡Suerte!',
+    },
+  },
+  bracket_none: {
+    label: 'BRACKET outside a running tournament',
+    variables: [],
+    text: {
+      en: "You aren't entered in a running tournament.",
+      es: 'No estás inscrito en un torneo en curso.',
+    },
+  },
+  bracket_link: {
+    label: 'BRACKET link',
+    variables: ['url'],
+    text: {
+      en: 'Brackets: {url}',
+      es: 'Cuadros: {url}',
+    },
+  },
+  help: {
+    label: 'HELP',
+    variables: [],
+    text: {
+      en: [
+        'Text your score like "John 9 Sarah 4".',
+        'STATUS - your current match',
+        'NEXT - your upcoming match',
+        'TABLE - where you are playing',
+        'START - your match has begun',
+        'BRACKET - link to the brackets',
+        'UNDO - withdraw your last score report',
+      ].join('\n'),
+      es: [
+        'Envía tu resultado así: "John 9 Sarah 4".',
+        'STATUS - tu partida actual',
+        'NEXT - tu próxima partida',
+        'TABLE - dónde juegas',
+        'START - tu partida ha empezado',
+        'BRACKET - enlace a los cuadros',
+        'UNDO - retira tu último resultado',
+      ].join('\n'),
+    },
+  },
+  undo_none: {
+    label: 'UNDO with nothing to withdraw',
+    variables: [],
+    text: {
+      en: "You don't have a score report waiting to be approved.",
+      es: 'No tienes ningún resultado pendiente de aprobación.',
+    },
+  },
+  undo_too_late: {
+    label: 'UNDO after the report was handled',
+    variables: [],
+    text: {
+      en: 'That score report has already been handled and can no longer be withdrawn.',
+      es: 'Ese resultado ya fue procesado y no se puede retirar.',
+    },
+  },
+  undo_withdrawn: {
+    label: 'UNDO succeeded',
+    variables: ['report'],
+    text: {
+      en: 'Withdrawn: "{report}". Text your score again when ready.',
+      es: 'Retirado: "{report}". Envía tu resultado otra vez cuando estés listo.',
+    },
+  },
+  undo_opponent_notice: {
+    label: 'UNDO notice to the opponent',
+    variables: ['player'],
+    text: {
+      en: '{player} withdrew their score report. No need to reply.',
+      es: '{player} retiró su resultado. No hace falta responder.',
+    },
+  },
+  unknown_phone: {
+    label: 'Text from an unknown number',
+    variables: [],
+    text: {
+      en: "We couldn't find your phone number in our system. Please check in with the tournament director.",
+      es: 'No encontramos tu número de teléfono. Preséntate al director del torneo.',
+    },
+  },
+  processing_error: {
+    label: 'Unexpected error',
+    variables: [],
+    text: {
+      en: 'Sorry, there was an error processing your message. Please try again.',
+      es: 'Lo sentimos, hubo un error al procesar tu mensaje. Inténtalo de nuevo.',
+    },
+  },
+} satisfies Record<string, SmsTemplate>;
+
+export type SmsTemplateKey = keyof typeof SMS_TEMPLATES;
+
+// Filled in for every template on top of the template's own variables
+export const SHARED_VARIABLES = ['director_phone'] as const;
+
+export type TemplateValues = Record<string, string | number>;
+
+export type Say = (key: SmsTemplateKey, values?: TemplateValues) => string;
+
+type TemplateSettings = Pick<Tournament, 'director_phone' | 'sms_templates'>;
+
+/**
+ * Fill in {opponent}-style placeholders; unknown ones are left as typed so
+ * a mistake in a template shows up in the text rather than vanishing
+ */
+export function renderTemplate(text: string, values: TemplateValues): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * The tournament's wording for a template, falling back to the default in
+ * the same language and then to English
+ */
+export function templateText(
+  key: SmsTemplateKey,
+  language: SmsLanguage,
+  overrides?: SmsTemplateOverrides | null
+): string {
+  return overrides?.[key]?.[language] || SMS_TEMPLATES[key].text[language] || SMS_TEMPLATES[key].text.en;
+}
+
+/**
+ * Build the text-writer for one recipient. Without a tournament only the
+ * default wording is used.
+ */
+export function createMessenger(
+  language: SmsLanguage | null | undefined,
+  tournament: TemplateSettings | null
+): Say {
+  return (key, values = {}) =>
+    renderTemplate(templateText(key, language || 'en', tournament?.sms_templates), {
+      director_phone: tournament?.director_phone || '',
+      ...values,
+    });
+}
+
+/**
+ * Load a tournament's template settings and build the text-writer for one
+ * recipient
+ */
+export async function loadMessenger(
+  language: SmsLanguage | null | undefined,
+  tournamentId: string | null
+): Promise<Say> {
+  if (!tournamentId) return createMessenger(language, null);
+
+  const { data } = await supabase
+    .from('tournaments')
+    .select('director_phone, sms_templates')
+    .eq('id', tournamentId)
+    .maybeSingle();
+
+  return createMessenger(language, data);
+}
@@ -0,0 +1,253 @@
+import { supabaseAdmin } from './supabase-admin';
+import { queueSMS } from './sms-queue';
+import { recordAuditEvent, type AuditActor } from './audit';
+import { loadMessenger } from './sms-templates';
+import { startMatch } from './match-start';
+import { callMatches } from './match-calls';
+import { holdsTable, orderCallQueue, pickFreeTable, tablesFor } from './table-pool';
+import type { Match, Player, TablePool } from './database.types';
+
+interface ActiveMatch extends Omit<Match, 'player1' | 'player2'> {
+  player1: Player | null;
+  player2: Player | null;
+  bracket: { division_id: string; division: { call_priority: number | null } };
+}
+
+export async function getTablePool(tournamentId: string): Promise<TablePool | null> {
+  const { data, error } = await supabaseAdmin
+    .from('tournaments')
+    .select('table_pool')
+    .eq('id', tournamentId)
+    .single();
+
+  if (error) throw error;
+  return data.table_pool;
+}
+
+/**
+ * Every pending or in-progress match of the tournament, across divisions,
+ * oldest first
+ */
+async function getActiveMatches(tournamentId: string): Promise<ActiveMatch[]> {
+  const { data, error } = await supabaseAdmin
+    .from('matches')
+    .select(`
+      *,
+      player1:players!matches_player1_id_fkey (*),
+      player2:players!matches_player2_id_fkey (*),
+      bracket:brackets!inner (division_id, division:divisions!inner (tournament_id, call_priority))
+    `)
+    .eq('bracket.division.tournament_id', tournamentId)
+    .in('status', ['pending', 'in_progress'])
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as ActiveMatch[];
+}
+
+/**
+ * Tables held by unfinished matches anywhere in the tournament
+ */
+export async function getOccupiedTables(tournamentId: string): Promise<number[]> {
+  const matches = await getActiveMatches(tournamentId);
+  return matches.filter(holdsTable).map(m => m.table_number as number);
+}
+
+function isWaiting(match: ActiveMatch): boolean {
+  return match.status === 'pending' && match.table_number === null && !!match.player1_id && !!match.player2_id;
+}
+
+/**
+ * Give tables freed by finished matches to the waiting matches first in
+ * the call queue. Returns the ids of the matches that got a table.
+ */
+export async function fillFreeTables(tournamentId: string): Promise<string[]> {
+  const pool = await getTablePool(tournamentId);
+  const matches = await getActiveMatches(tournamentId);
+  const occupied = new Set(matches.filter(holdsTable).map(m => m.table_number as number));
+
+  const queue = orderCallQueue(matches.filter(isWaiting), m => m.bracket.division.call_priority);
+
+  const seated: string[] = [];
+  for (const match of queue) {
+    const table = pickFreeTable(pool, match.bracket.division_id, occupied);
+    if (table === null) continue;
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('matches')
+      .update({ table_number: table })
+      .eq('id', match.id)
+      .is('table_number', null)
+      .select('id');
+
+    // Another seating took the table since the matches were loaded; this
+    // match waits for the next free table
+    if (error?.code === '23505') {
+      occupied.add(table);
+      continue;
+    }
+    if (error) throw error;
+    if (updated && updated.length > 0) {
+      occupied.add(table);
+      seated.push(match.id);
+    }
+  }
+  return seated;
+}
+
+/**
+ * Tell the players of a called match where it has moved
+ */
+async function notifyTableChange(match: ActiveMatch, table: number, tournamentId: string): Promise<void> {
+  if (!match.called_at) return;
+
+  for (const [player, opponent] of [
+    [match.player1, match.player2],
+    [match.player2, match.player1],
+  ]) {
+    if (!player?.phone || player.sms_opt_out) continue;
+
+    const say = await loadMessenger(player.language, tournamentId);
+    await queueSMS({
+      to: player.phone,
+      body: say('table_changed', { player: player.name, opponent: opponent?.name ?? '', table }),
+      tournamentId,
+      playerId: player.id,
+      template: 'table_changed',
+    });
+  }
+}
+
+/**
+ * Move an unfinished match from one table to another, only if it is still
+ * at the table it was seen at. Returns false if it had moved or finished,
+ * or another match took the new table.
+ */
+async function setTable(matchId: string, from: number | null, to: number | null): Promise<boolean> {
+  let query = supabaseAdmin
+    .from('matches')
+    .update({ table_number: to })
+    .eq('id', matchId)
+    .in('status', ['pending', 'in_progress']);
+  query = from === null ? query.is('table_number', null) : query.eq('table_number', from);
+
+  const { data, error } = await query.select('id');
+  if (error?.code === '23505') return false;
+  if (error) throw error;
+  return !!data && data.length > 0;
+}
+
+/**
+ * Move an unfinished match to another table. If another unfinished match
+ * holds that table the two swap. Returns an error message, or null once
+ * the move is done.
+ */
+export async function moveMatchToTable(
+  tournamentId: string,
+  matchId: string,
+  table: number,
+  actor: AuditActor
+): Promise<string | null> {
+  const matches = await getActiveMatches(tournamentId);
+  const match = matches.find(m => m.id === matchId);
+  if (!match) return 'Only matches that are still to be played can change table';
+  if (match.table_number === table) return null;
+
+  const pool = await getTablePool(tournamentId);
+  const allowed = tablesFor(pool, match.bracket.division_id);
+  if (!Number.isInteger(table) || table < 1 || (allowed && !allowed.includes(table))) {
+    return `Table ${table} is not available to this division`;
+  }
+
+  const changed = 'The tables changed while moving this match. Please try again.';
+  const from = match.table_number;
+  const other = matches.find(m => m.id !== matchId && m.table_number === table) ?? null;
+
+  if (!other) {
+    if (!(await setTable(matchId, from, table))) return changed;
+  } else {
+    // A match without a table has nothing to swap
+    if (from === null) {
+      return `Table ${table} is in use`;
+    }
+    const otherAllowed = tablesFor(pool, other.bracket.division_id);
+    if (otherAllowed && !otherAllowed.includes(from)) {
+      return `Table ${table} is in use by a match that cannot move to table ${from}`;
+    }
+
+    // Each step checks the table it expects and the earlier steps are put
+    // back if one doesn't match. The match steps off its table first so
+    // the two never hold the same one.
+    if (!(await setTable(matchId, from, null))) return changed;
+    if (!(await setTable(other.id, table, from))) {
+      await setTable(matchId, null, from);
+      return changed;
+    }
+    if (!(await setTable(matchId, null, table))) {
+      await setTable(other.id, from, table);
+      await setTable(matchId, null, from);
+      return changed;
+    }
+  }
+
+  await recordAuditEvent({
+    tournamentId,
+    action: 'match.table_changed',
+    actor,
+    matchId,
+    details: { from, to: table, swapped_match_id: other?.id ?? null },
+  });
+
+  await notifyTableChange(match, table, tournamentId);
+  if (other && from !== null) {
+    await notifyTableChange(other, from, tournamentId);
+  }
+
+  return null;
+}
+
+/**
+ * Call a waiting match to a free table: seat it, text the players and
+ * start it. Returns an error message, or null once the match is called.
+ */
+export async function callToTable(
+  tournamentId: string,
+  matchId: string,
+  table: number,
+  actor: AuditActor
+): Promise<string | null> {
+  const matches = await getActiveMatches(tournamentId);
+  const match = matches.find(m => m.id === matchId);
+  if (!match || !isWaiting(match)) return 'This match is not waiting for a table';
+
+  const pool = await getTablePool(tournamentId);
+  const allowed = tablesFor(pool, match.bracket.division_id);
+  if (!Number.isInteger(table) || table < 1 || (allowed && !allowed.includes(table))) {
+    return `Table ${table} is not available to this division`;
+  }
+  if (matches.some(m => holdsTable(m) && m.table_number === table)) {
+    return `Table ${table} is in use`;
+  }
+
+  const { data: seated, error } = await supabaseAdmin
+    .from('matches')
+    .update({ table_number: table })
+    .eq('id', matchId)
+    .is('table_number', null)
+    .select('id');
+
+  // Another match was seated at the table since the check above
+  if (error?.code === '23505') return `Table ${table} is in use`;
+  if (error) throw error;
+  if (!seated || seated.length === 0) return 'This match already has a table';
+
+  // Players hear about the table before the match is marked as started
+  try {
+    await callMatches([matchId]);
+  } catch (callError) {
+    console.error('Failed to send match calls:', callError);
+  }
+  await startMatch(matchId, actor, 'director');
+
+  return null;
+}
@@ -0,0 +1,81 @@
+import type { Match, TablePool } from './database.types';
+
+/**
+ * The tables a division's matches may use, lowest first, or null when the
+ * tournament has no pool and tables are numbered as needed
+ */
+export function tablesFor(pool: TablePool | null, divisionId: string): number[] | null {
+  if (!pool) return null;
+
+  const range = pool.division_ranges[divisionId];
+  const from = Math.max(1, range?.from ?? 1);
+  const to = Math.min(pool.count, range?.to ?? pool.count);
+  const disabled = new Set(pool.disabled);
+
+  const tables: number[] = [];
+  for (let table = from; table <= to; table++) {
+    if (!disabled.has(table)) tables.push(table);
+  }
+  return tables;
+}
+
+/**
+ * The lowest free table for a division, or null if every table it may use
+ * is taken
+ */
+export function pickFreeTable(
+  pool: TablePool | null,
+  divisionId: string,
+  occupied: Set<number>
+): number | null {
+  const tables = tablesFor(pool, divisionId);
+  if (tables) return tables.find(t => !occupied.has(t)) ?? null;
+
+  let table = 1;
+  while (occupied.has(table)) table++;
+  return table;
+}
+
+/**
+ * Give each playable match a free table. Byes and matches still waiting for
+ * an opponent get none; so does any match once the pool runs out, until a
+ * table frees up.
+ */
+export function assignTables<T extends Pick<Match, 'status' | 'player1_id' | 'player2_id'>>(
+  matches: T[],
+  pool: TablePool | null,
+  divisionId: string,
+  occupiedTables: number[]
+): (T & { table_number: number | null })[] {
+  const occupied = new Set(occupiedTables);
+
+  return matches.map(match => {
+    if (match.status === 'bye' || !match.player1_id || !match.player2_id) {
+      return { ...match, table_number: null };
+    }
+    const table = pickFreeTable(pool, divisionId, occupied);
+    if (table !== null) occupied.add(table);
+    return { ...match, table_number: table };
+  });
+}
+
+/**
+ * Order matches waiting for a table: divisions with a lower call priority
+ * number first and divisions without one last, then the longest wait
+ */
+export function orderCallQueue<T extends Pick<Match, 'created_at'>>(
+  matches: T[],
+  priorityOf: (match: T) => number | null
+): T[] {
+  const rank = (match: T) => priorityOf(match) ?? Number.MAX_SAFE_INTEGER;
+  return [...matches].sort(
+    (a, b) => rank(a) - rank(b) || new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+}
+
+/**
+ * Whether a match is holding its table: it has a table and hasn't finished
+ */
+export function holdsTable(match: Pick<Match, 'status' | 'table_number'>): boolean {
+  return match.table_number !== null && (match.status === 'pending' || match.status === 'in_progress');
+}
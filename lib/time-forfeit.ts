@@ -0,0 +1,76 @@
+import { supabaseAdmin } from './supabase-admin';
+import { advanceDivision, type AdvancementResult } from './advancement';
+import { recordAuditEvent, type AuditActor } from './audit';
+import type { Bracket, Division, Match } from './database.types';
+
+export interface TimeForfeitMatch {
+  match: Match;
+  division: Division;
+}
+
+/**
+ * Load a match with the division whose clock rules apply to it
+ */
+export async function getTimeForfeitMatch(matchId: string): Promise<TimeForfeitMatch> {
+  const { data: match, error } = await supabaseAdmin
+    .from('matches')
+    .select('*, bracket:brackets!inner (*, division:divisions!inner (*))')
+    .eq('id', matchId)
+    .single();
+
+  if (error) throw error;
+
+  const bracket = match.bracket as unknown as Bracket & { division: Division };
+  return { match, division: bracket.division };
+}
+
+/**
+ * Record that a player ran out of time: the opponent wins with the match
+ * length, the loser keeps the score they had, and the bracket advances.
+ * Returns null if the match got a result in the meantime.
+ */
+export async function recordTimeForfeit(
+  { match, division }: TimeForfeitMatch,
+  loserId: string,
+  loserScore: number,
+  actor: AuditActor
+): Promise<AdvancementResult | null> {
+  const loserIsPlayer1 = loserId === match.player1_id;
+  const winnerId = loserIsPlayer1 ? match.player2_id : match.player1_id;
+  const player1Score = loserIsPlayer1 ? loserScore : division.match_length;
+  const player2Score = loserIsPlayer1 ? division.match_length : loserScore;
+
+  const { data: forfeited, error } = await supabaseAdmin
+    .from('matches')
+    .update({
+      player1_score: player1Score,
+      player2_score: player2Score,
+      winner_id: winnerId,
+      forfeit: 'time',
+      games: null,
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', match.id)
+    .in('status', ['pending', 'in_progress'])
+    .select('id');
+
+  if (error) throw error;
+  if (!forfeited || forfeited.length === 0) return null;
+
+  await recordAuditEvent({
+    tournamentId: division.tournament_id,
+    action: 'match.time_forfeit',
+    actor,
+    matchId: match.id,
+    playerId: loserId,
+    details: {
+      player1_score: player1Score,
+      player2_score: player2Score,
+      winner_id: winnerId,
+      loser_id: loserId,
+    },
+  });
+
+  return advanceDivision(division.id);
+}
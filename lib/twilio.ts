@@ -23,25 +23,42 @@ export function validateTwilioSignature(
   return twilio.validateRequest(authToken, signature, url, params);
 }
 
+export interface SendSMSResult {
+  success: boolean;
+  sid?: string; // Twilio's message id, used to match status callbacks
+  error?: string;
+  code?: number; // Twilio error code, when Twilio rejected the message
+}
+
 /**
- * Send SMS message via Twilio
+ * Send SMS message via Twilio. Most callers should go through queueSMS in
+ * lib/sms-queue, which retries, throttles and records the message.
  */
-export async function sendSMS(to: string, body: string): Promise<{ success: boolean; error?: string }> {
+export async function sendSMS(
+  to: string,
+  body: string,
+  options: { statusCallback?: string } = {}
+): Promise<SendSMSResult> {
   if (!twilioClient || !twilioPhoneNumber) {
     console.error('Twilio not configured');
     return { success: false, error: 'Twilio not configured' };
   }
 
   try {
-    await twilioClient.messages.create({
+    const message = await twilioClient.messages.create({
       body,
       from: twilioPhoneNumber,
       to,
+      statusCallback: options.statusCallback,
     });
-    return { success: true };
+    return { success: true, sid: message.sid };
   } catch (error) {
     console.error('Failed to send SMS:', error);
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: (error as { code?: number }).code,
+    };
   }
 }
 
@@ -133,6 +133,14 @@ export function isValidEmail(email: string): boolean {
   return emailRegex.test(email);
 }
 
+/**
+ * Whether a redirect target is a path on this site. Rejects protocol-relative
+ * and backslash forms like //evil.com and /\evil.com.
+ */
+export function isSafeRedirectPath(path: string | null): path is string {
+  return !!path && path.startsWith('/') && !path.includes('//') && !path.includes('\\');
+}
+
 /**
  * Generate a match score display string
  */
@@ -0,0 +1,6 @@
+-- Double elimination ends in a grand final between the main and
+-- consolation winners, held in a bracket of its own
+alter table brackets drop constraint if exists brackets_bracket_type_check;
+alter table brackets
+  add constraint brackets_bracket_type_check
+  check (bracket_type in ('main', 'consolation', 'grand_final', 'last_chance'));
@@ -0,0 +1,3 @@
+-- Which consolation rounds feed a division's last chance bracket; null
+-- when the division has none
+alter table divisions add column last_chance_settings jsonb;
@@ -0,0 +1,4 @@
+-- Ratings order seeded draws; a manual seed on the entry overrides them
+alter table players add column rating integer;
+alter table tournament_entries
+  add column seed integer check (seed is null or seed > 0);
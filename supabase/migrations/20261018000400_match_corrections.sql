@@ -0,0 +1,17 @@
+-- Every corrected result, with what it replaced and the later matches it
+-- repaired or removed
+create table match_corrections (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references matches (id) on delete cascade,
+  previous_winner_id uuid references players (id),
+  previous_player1_score integer not null,
+  previous_player2_score integer not null,
+  new_winner_id uuid not null references players (id),
+  new_player1_score integer not null,
+  new_player2_score integer not null,
+  reason text,
+  affected_match_ids uuid[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index match_corrections_match_id_idx on match_corrections (match_id);
@@ -0,0 +1,14 @@
+-- Director and system actions, shown on the tournament's audit timeline.
+-- Events outlive the matches they mention, which corrections may remove.
+create table audit_events (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references tournaments (id) on delete cascade,
+  action text not null,
+  actor text not null,
+  match_id uuid references matches (id) on delete set null,
+  player_id uuid references players (id) on delete set null,
+  details jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index audit_events_tournament_id_created_at_idx on audit_events (tournament_id, created_at desc);
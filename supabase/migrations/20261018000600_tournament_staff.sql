@@ -0,0 +1,12 @@
+-- Directors who help run a tournament, matched on their sign-in email. The
+-- tournament's creator is its owner and needs no entry here.
+create table tournament_staff (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references tournaments (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('co_director', 'scorekeeper', 'read_only')),
+  created_at timestamptz not null default now(),
+  unique (tournament_id, email)
+);
+
+create index tournament_staff_email_idx on tournament_staff (email);
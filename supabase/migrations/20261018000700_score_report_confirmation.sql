@@ -0,0 +1,18 @@
+-- SMS score reports wait for the opponent to reply YES or NO; a NO or no
+-- reply at all leaves the report disputed for the director
+alter table score_reports
+  add column confirmation_player_id uuid references players (id),
+  add column confirmation_requested_at timestamptz,
+  add column confirmation_text text,
+  add column dispute_reason text check (dispute_reason in ('opponent_rejected', 'no_response'));
+
+alter table score_reports drop constraint if exists score_reports_status_check;
+alter table score_reports
+  add constraint score_reports_status_check
+  check (status in (
+    'pending', 'awaiting_confirmation', 'disputed', 'approved', 'rejected', 'needs_clarification'
+  ));
+
+-- Reports waiting on a reply from this player
+create index score_reports_confirmation_player_id_idx on score_reports (confirmation_player_id)
+  where status = 'awaiting_confirmation';
@@ -0,0 +1,8 @@
+-- UNDO lets a player take back a report that hasn't been settled yet
+alter table score_reports drop constraint score_reports_status_check;
+alter table score_reports
+  add constraint score_reports_status_check
+  check (status in (
+    'pending', 'awaiting_confirmation', 'disputed', 'approved', 'rejected', 'withdrawn',
+    'needs_clarification'
+  ));
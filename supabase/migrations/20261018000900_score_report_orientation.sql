@@ -0,0 +1,5 @@
+-- How an SMS score was matched to the two players, and why, so the
+-- director can check a reading before approving it
+alter table score_reports
+  add column orientation text check (orientation in ('names', 'sender', 'sender_first', 'match_order')),
+  add column parse_reasons text[];
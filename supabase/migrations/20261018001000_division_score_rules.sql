@@ -0,0 +1,2 @@
+-- Per-division score validation; null uses the default rules
+alter table divisions add column score_rules jsonb;
@@ -0,0 +1,11 @@
+-- A score report held until a player with several active matches says
+-- which one it is for. One open question per phone.
+create table sms_match_choices (
+  id uuid primary key default gen_random_uuid(),
+  phone text not null unique,
+  player_id uuid not null references players (id) on delete cascade,
+  raw_text text not null,
+  match_ids uuid[] not null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
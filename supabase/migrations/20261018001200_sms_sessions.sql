@@ -0,0 +1,17 @@
+-- Multi-step SMS exchanges: what the next text from a phone answers, one
+-- conversation per phone and tournament. Match choices become sessions,
+-- so open questions are dropped; players resend their score.
+create table sms_sessions (
+  id uuid primary key default gen_random_uuid(),
+  phone text not null,
+  tournament_id uuid not null references tournaments (id) on delete cascade,
+  player_id uuid not null references players (id) on delete cascade,
+  intent text not null check (intent in ('choose_match')),
+  payload jsonb not null default '{}',
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (phone, tournament_id)
+);
+
+drop table sms_match_choices;
@@ -0,0 +1,5 @@
+-- Players are texted when their match is ready, unless they opted out;
+-- tournaments may word the text their own way
+alter table players add column sms_opt_out boolean not null default false;
+alter table tournaments add column match_call_template text;
+alter table matches add column called_at timestamptz;
@@ -0,0 +1,14 @@
+-- Every text is a template in the player's language, and a tournament can
+-- reword any of them. Its match call wording carries over as the English
+-- match_call template.
+alter table players
+  add column language text not null default 'en' check (language in ('en', 'es'));
+alter table tournaments
+  add column director_phone text,
+  add column sms_templates jsonb;
+
+update tournaments
+set sms_templates = jsonb_build_object('match_call', jsonb_build_object('en', match_call_template))
+where match_call_template is not null;
+
+alter table tournaments drop column match_call_template;
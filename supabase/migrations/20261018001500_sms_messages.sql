@@ -0,0 +1,26 @@
+-- Every text sent to a player: the outbound queue with its retries and
+-- delivery status, and a copy of each reply the webhook answered with
+create table sms_messages (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid references tournaments (id) on delete cascade,
+  player_id uuid references players (id) on delete set null,
+  to_phone text not null,
+  body text not null,
+  kind text not null default 'outbound' check (kind in ('outbound', 'reply')),
+  template text,
+  status text not null default 'queued'
+    check (status in ('queued', 'sending', 'sent', 'delivered', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  twilio_sid text unique,
+  sent_at timestamptz,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Queue runs look for due messages; the rate limit counts recent sends
+create index sms_messages_due_idx on sms_messages (next_attempt_at) where status in ('queued', 'sending');
+create index sms_messages_to_phone_sent_at_idx on sms_messages (to_phone, sent_at);
+create index sms_messages_tournament_id_created_at_idx on sms_messages (tournament_id, created_at);
@@ -0,0 +1,2 @@
+-- Optional game-by-game scoresheet for a match
+alter table matches add column games jsonb;
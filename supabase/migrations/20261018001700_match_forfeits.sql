@@ -0,0 +1,5 @@
+-- Division clock settings are now typed (reserve, delay, overtime) but stay
+-- jsonb; null uses the defaults for the match length. A match lost on time
+-- records why.
+alter table divisions add column if not exists clock_settings jsonb;
+alter table matches add column forfeit text check (forfeit in ('time'));
@@ -0,0 +1,4 @@
+-- Minutes a point is expected to take, for the overdue match alert; null
+-- uses the default pace
+alter table tournaments
+  add column match_minutes_per_point integer check (match_minutes_per_point > 0);
@@ -0,0 +1,3 @@
+-- The tournament's tables: how many, which are out of service and which
+-- each division plays on. Null numbers tables as needed.
+alter table tournaments add column table_pool jsonb;
@@ -0,0 +1,3 @@
+-- Waiting matches from divisions with a lower number are called to a table
+-- first; divisions without one come last
+alter table divisions add column call_priority integer;
@@ -0,0 +1,141 @@
+-- Row level security for every table.
+--
+-- API routes write with the service role after checking the director's role
+-- (lib/api-auth.ts), so they are not affected. These policies cover what the
+-- browser can still do with the public anon key and the signed-in director's
+-- session, and mirror ROLE_PERMISSIONS in lib/auth.ts.
+
+-- Staff are matched on their sign-in email, stored lowercase
+update tournament_staff set email = lower(email) where email <> lower(email);
+alter table tournament_staff
+  add constraint tournament_staff_email_lowercase check (email = lower(email));
+
+-- The caller's role in a tournament: its creator is the owner, everyone else
+-- needs a staff entry. Tournaments without a creator have no owner.
+create or replace function public.tournament_role(p_tournament_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (
+      select 1 from tournaments t
+      where t.id = p_tournament_id and t.created_by is not null and t.created_by = auth.uid()
+    ) then 'owner'
+    else (
+      select s.role from tournament_staff s
+      where s.tournament_id = p_tournament_id
+        and s.email = lower(auth.jwt() ->> 'email')
+    )
+  end
+$$;
+
+create or replace function public.has_tournament_permission(p_tournament_id uuid, p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    public.tournament_role(p_tournament_id) = any (
+      case p_permission
+        when 'view' then array['owner', 'co_director', 'scorekeeper', 'read_only']
+        when 'score' then array['owner', 'co_director', 'scorekeeper']
+        when 'manage_players' then array['owner', 'co_director']
+        when 'manage_tournament' then array['owner', 'co_director']
+        when 'manage_staff' then array['owner']
+        else array[]::text[]
+      end
+    ),
+    false
+  )
+$$;
+
+alter table tournaments enable row level security;
+alter table divisions enable row level security;
+alter table players enable row level security;
+alter table tournament_entries enable row level security;
+alter table brackets enable row level security;
+alter table matches enable row level security;
+alter table score_reports enable row level security;
+alter table sms_messages enable row level security;
+alter table sms_sessions enable row level security;
+alter table tournament_staff enable row level security;
+alter table match_corrections enable row level security;
+alter table audit_events enable row level security;
+
+-- Public pages show tournaments, players, draws and results to anyone
+create policy "Tournaments are public" on tournaments for select using (true);
+create policy "Divisions are public" on divisions for select using (true);
+create policy "Players are public" on players for select using (true);
+create policy "Entries are public" on tournament_entries for select using (true);
+create policy "Brackets are public" on brackets for select using (true);
+create policy "Matches are public" on matches for select using (true);
+
+-- Any signed-in director can create a tournament, which they then own
+create policy "Directors create their own tournaments" on tournaments
+  for insert to authenticated
+  with check (created_by = auth.uid());
+
+create policy "Tournament managers update settings" on tournaments
+  for update to authenticated
+  using (public.has_tournament_permission(id, 'manage_tournament'))
+  with check (public.has_tournament_permission(id, 'manage_tournament'));
+
+create policy "Tournament managers add divisions" on divisions
+  for insert to authenticated
+  with check (public.has_tournament_permission(tournament_id, 'manage_tournament'));
+
+create policy "Tournament managers update divisions" on divisions
+  for update to authenticated
+  using (public.has_tournament_permission(tournament_id, 'manage_tournament'))
+  with check (public.has_tournament_permission(tournament_id, 'manage_tournament'));
+
+-- The player directory is shared between tournaments
+create policy "Directors add players" on players
+  for insert to authenticated
+  with check (true);
+
+create policy "Directors update players" on players
+  for update to authenticated
+  using (true)
+  with check (true);
+
+create policy "Player managers register entries" on tournament_entries
+  for insert to authenticated
+  with check (public.has_tournament_permission(tournament_id, 'manage_players'));
+
+-- Staff see their own entry; staff managers see everyone's
+create policy "Staff entries are visible to their director and staff managers" on tournament_staff
+  for select to authenticated
+  using (
+    email = lower(auth.jwt() ->> 'email')
+    or public.has_tournament_permission(tournament_id, 'manage_staff')
+  );
+
+create policy "Staff read score reports" on score_reports
+  for select to authenticated
+  using (
+    exists (
+      select 1
+      from matches m
+      join brackets b on b.id = m.bracket_id
+      join divisions d on d.id = b.division_id
+      where m.id = score_reports.match_id
+        and public.has_tournament_permission(d.tournament_id, 'view')
+    )
+  );
+
+create policy "Staff read messages" on sms_messages
+  for select to authenticated
+  using (tournament_id is not null and public.has_tournament_permission(tournament_id, 'view'));
+
+create policy "Staff read the audit log" on audit_events
+  for select to authenticated
+  using (public.has_tournament_permission(tournament_id, 'view'));
+
+-- Everything else (matches, brackets, reports, messages, SMS sessions,
+-- corrections, staff changes and audit events) is written only by API routes
@@ -0,0 +1,4 @@
+-- One bracket of each type per division, so two concurrent bracket
+-- generation requests can't both create a division's brackets
+alter table brackets
+  add constraint brackets_division_id_bracket_type_key unique (division_id, bracket_type);
@@ -0,0 +1,5 @@
+-- One match per bracket slot, so two results finishing at the same time
+-- can't both create the match they unlock
+alter table matches
+  add constraint matches_bracket_id_round_number_match_number_key
+  unique (bracket_id, round_number, match_number);
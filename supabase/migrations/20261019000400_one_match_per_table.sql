@@ -0,0 +1,45 @@
+-- One unfinished match per table in a tournament, so two directors calling
+-- matches, or a result freeing a table while a director seats a match, can't
+-- put two matches at the same table. Matches don't carry their tournament,
+-- so a unique index can't say this; instead the check takes a lock per
+-- tournament, which makes two seatings wait for each other rather than both
+-- seeing the table as free. A clash fails like a unique index would (23505).
+create or replace function public.check_match_table_free()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_tournament_id uuid;
+begin
+  if new.table_number is null or new.status not in ('pending', 'in_progress') then
+    return new;
+  end if;
+
+  select d.tournament_id into v_tournament_id
+  from brackets b
+  join divisions d on d.id = b.division_id
+  where b.id = new.bracket_id;
+
+  perform pg_advisory_xact_lock(hashtext('match_tables:' || v_tournament_id::text));
+
+  if exists (
+    select 1
+    from matches m
+    join brackets b on b.id = m.bracket_id
+    join divisions d on d.id = b.division_id
+    where d.tournament_id = v_tournament_id
+      and m.id <> new.id
+      and m.table_number = new.table_number
+      and m.status in ('pending', 'in_progress')
+  ) then
+    raise exception 'Table % is in use', new.table_number using errcode = 'unique_violation';
+  end if;
+
+  return new;
+end
+$$;
+
+create trigger matches_one_match_per_table
+  before insert or update of table_number, status on matches
+  for each row execute function public.check_match_table_free();
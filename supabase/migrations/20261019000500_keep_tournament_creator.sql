@@ -0,0 +1,23 @@
+-- A tournament's creator is its owner. The update policy only checks the
+-- row, so without this a co-director could make themselves creator and with
+-- it owner. Signed-in and anonymous requests can never change it; the
+-- service role and database admins can.
+create or replace function public.keep_tournament_creator()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.created_by is distinct from old.created_by
+    and current_user in ('anon', 'authenticated') then
+    raise exception 'A tournament''s creator cannot be changed'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end
+$$;
+
+create trigger tournaments_keep_creator
+  before update of created_by on tournaments
+  for each row execute function public.keep_tournament_creator();
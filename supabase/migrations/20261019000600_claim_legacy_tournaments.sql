@@ -0,0 +1,38 @@
+-- Tournaments created before sign-in existed have no creator, so they have
+-- no owner and nobody who can add staff. Someone with database access hands
+-- them to their director once that director has signed up:
+--
+--   select claim_legacy_tournaments('director@example.com');
+--   select claim_legacy_tournaments('director@example.com', '<tournament id>');
+--
+-- Only tournaments without a creator are changed. Returns how many were.
+create or replace function public.claim_legacy_tournaments(
+  p_email text,
+  p_tournament_id uuid default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+  v_claimed integer;
+begin
+  select u.id into v_user_id from auth.users u where lower(u.email) = lower(p_email);
+  if v_user_id is null then
+    raise exception 'Nobody has signed up as %', p_email;
+  end if;
+
+  update tournaments
+  set created_by = v_user_id
+  where created_by is null
+    and (p_tournament_id is null or id = p_tournament_id);
+
+  get diagnostics v_claimed = row_count;
+  return v_claimed;
+end
+$$;
+
+-- Not callable through the API, only from the database
+revoke execute on function public.claim_legacy_tournaments(text, uuid) from public, anon, authenticated;
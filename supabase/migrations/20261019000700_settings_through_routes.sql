@@ -0,0 +1,5 @@
+-- Tournament and division settings are saved through API routes, which
+-- check the director's role and record the change, so the browser no
+-- longer updates either table itself
+drop policy "Tournament managers update settings" on tournaments;
+drop policy "Tournament managers update divisions" on divisions;
@@ -0,0 +1,6 @@
+-- Players are added and edited, and entered in tournaments, through API
+-- routes that check the director manages a tournament the player is in,
+-- so the browser no longer writes either table itself
+drop policy "Directors add players" on players;
+drop policy "Directors update players" on players;
+drop policy "Player managers register entries" on tournament_entries;